@@ -110,4 +110,60 @@ export const uploadToCloudinary = async (filePath: string | Buffer, options: any
   throw new Error(`Failed to upload to Cloudinary after ${maxRetries} attempts: ${lastError?.message || 'Unknown error'}`);
 };
 
+// Derive the public ID and resource type of an asset from its delivery URL
+export const parseCloudinaryUrl = (url: string): { publicId: string; resourceType: string } | null => {
+  const match = url.match(/\/(image|video|raw)\/upload\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, resourceType, path] = match;
+  const withoutVersion = path.replace(/^v\d+\//, '');
+  // Raw files keep their extension as part of the public ID
+  const publicId = resourceType === 'raw'
+    ? withoutVersion
+    : withoutVersion.replace(/\.[^/.]+$/, '');
+
+  return { publicId, resourceType };
+};
+
+// Download an uploaded audio or video asset converted to WAV, at a given
+// sample rate, so its samples can be read
+export const fetchAsWav = async (publicId: string, sampleRate: number): Promise<Buffer> => {
+  const url = cloudinary.url(publicId, {
+    resource_type: 'video',
+    format: 'wav',
+    audio_frequency: sampleRate,
+    secure: true,
+  });
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch WAV from Cloudinary: ${response.status}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+};
+
+// Destroy uploaded assets, skipping anything outside the given folder.
+// Cleanup is best effort: failures are logged and never thrown.
+export const deleteFromCloudinary = async (urls: string[], folder: string): Promise<void> => {
+  const results = await Promise.allSettled(
+    urls.map(async (url) => {
+      const asset = parseCloudinaryUrl(url);
+      if (!asset || !asset.publicId.startsWith(`${folder}/`)) {
+        return;
+      }
+
+      await cloudinary.uploader.destroy(asset.publicId, { resource_type: asset.resourceType });
+    })
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to delete Cloudinary asset ${urls[index]}:`, result.reason);
+    }
+  });
+};
+
 export default cloudinary; 
\ No newline at end of file
@@ -1,7 +1,187 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import { validationResult } from 'express-validator';
 import * as messageService from '../services/messageService';
+import { emitToUsers, emitToConversation, removeUsersFromConversation } from '../services/realtime';
 import User from '../models/User';
+import { uploadToCloudinary, deleteFromCloudinary, fetchAsWav } from '../config/cloudinary';
+import { CHAT_ATTACHMENT_KINDS, ChatAttachmentKind, chatAttachmentKind } from '../middleware/upload';
+import { getBlockedUserIds } from '../utils/blocking';
+import { toArray } from '../utils/multipart';
+import { parseWav, pcmDuration, summarizeWaveform, WAVEFORM_SAMPLE_RATE } from '../utils/waveform';
+
+const GROUP_NAME_MAX_LENGTH = 50;
+
+// How long after sending a message its sender can still edit or unsend it
+const MESSAGE_CHANGE_WINDOW_MINUTES = 15;
+
+// Most messages or search results returned in one page
+const MAX_MESSAGE_PAGE_SIZE = 100;
+const MAX_SEARCH_PAGE_SIZE = 50;
+
+const groupAvatarFolder = 'social-app/chat/groups';
+
+// Cloudinary keeps audio with video, and documents as raw files
+const attachmentResourceTypes: Record<ChatAttachmentKind, string> = {
+  image: 'image',
+  video: 'video',
+  audio: 'video',
+  file: 'raw',
+};
+
+// Decode a voice note to summarize its waveform and measure it. WAV uploads
+// are read directly; anything else is converted to WAV by Cloudinary first.
+// Best effort: returns null when the audio can't be read.
+const summarizeVoiceNote = async (buffer: Buffer, publicId: string) => {
+  try {
+    const audio = parseWav(buffer) || parseWav(await fetchAsWav(publicId, WAVEFORM_SAMPLE_RATE));
+    return audio ? { waveform: summarizeWaveform(audio), duration: pcmDuration(audio) } : null;
+  } catch (error) {
+    console.error('Voice note waveform error:', error);
+    return null;
+  }
+};
+
+const publicUserFields = '_id username name profilePicture';
+
+// Attach member profiles to a group conversation
+const populateGroup = async (conversation: messageService.Conversation) => {
+  const members = await User.find({ _id: { $in: conversation.participants } }).select(publicUserFields);
+  return { ...conversation, members };
+};
+
+// Tell current and former members that a group changed; clients drop groups
+// they are no longer a participant of
+const broadcastGroupUpdate = async (group: messageService.Conversation, formerMembers: string[] = []) => {
+  const populated = await populateGroup(group);
+  emitToUsers(Array.from(new Set([...group.participants, ...formerMembers])), 'group_updated', populated);
+  return populated;
+};
+
+// Look up a message the current user sent and may still change, sending the
+// error response and returning null otherwise. Members who have left the
+// conversation can no longer change what they sent there.
+const findChangeableMessage = async (req: Request, res: Response, action: 'edit' | 'unsend') => {
+  const message = await messageService.getMessage(req.params.id);
+  const conversation = message ? await messageService.getConversation(message.conversation_id) : null;
+
+  if (!message || !conversation || !messageService.isParticipant(conversation, req.user._id.toString())) {
+    res.status(404).json({ message: 'Message not found' });
+    return null;
+  }
+
+  if (message.sender_id !== req.user._id.toString()) {
+    res.status(403).json({ message: `You can only ${action} your own messages` });
+    return null;
+  }
+
+  if (message.deleted_at) {
+    res.status(400).json({ message: 'This message was unsent' });
+    return null;
+  }
+
+  const ageMs = Date.now() - new Date(message.created_at).getTime();
+  if (ageMs > MESSAGE_CHANGE_WINDOW_MINUTES * 60 * 1000) {
+    res.status(403).json({
+      message: `Messages can only be changed within ${MESSAGE_CHANGE_WINDOW_MINUTES} minutes of sending`
+    });
+    return null;
+  }
+
+  return message;
+};
+
+// Look up a message in a conversation the current user belongs to, sending
+// the error response and returning null otherwise
+const findMessageForMember = async (req: Request, res: Response) => {
+  const message = await messageService.getMessage(req.params.id);
+  const conversation = message ? await messageService.getConversation(message.conversation_id) : null;
+
+  if (!message || !conversation || !messageService.isParticipant(conversation, req.user._id.toString())) {
+    res.status(404).json({ message: 'Message not found' });
+    return null;
+  }
+
+  return message;
+};
+
+// Send a message change to everyone in its conversation, including the
+// sender's other devices
+const broadcastMessageChange = async (conversationId: string, event: string, payload: object) => {
+  const conversation = await messageService.getConversation(conversationId);
+  if (conversation) {
+    emitToUsers(conversation.participants, event, { conversationId, ...payload });
+  }
+};
+
+// Mark a conversation's unread messages as read for a user, letting the
+// senders' devices update their read ticks
+const markConversationRead = async (conversation: messageService.Conversation, userId: string) => {
+  const conversationId = conversation.id!;
+  const result = await messageService.markMessagesAsRead(conversationId, userId);
+
+  if (result.markedMessageIds.length > 0) {
+    emitToUsers(conversation.participants, 'messages_read', {
+      conversationId,
+      messageIds: result.markedMessageIds,
+      userId,
+      timestamp: result.readAt,
+    });
+  }
+
+  return result;
+};
+
+// Look up a conversation the current user belongs to, sending the error
+// response and returning null otherwise
+const findConversationForMember = async (req: Request, res: Response) => {
+  const conversation = await messageService.getConversation(req.params.id);
+
+  if (!conversation || !messageService.isParticipant(conversation, req.user._id.toString())) {
+    res.status(404).json({ message: 'Conversation not found' });
+    return null;
+  }
+
+  return conversation;
+};
+
+// Look up a group the current user belongs to, sending the error response
+// and returning null when it is missing or the user is not a member
+const findGroupForMember = async (req: Request, res: Response) => {
+  const group = await messageService.getConversation(req.params.id);
+
+  if (!group || !group.is_group) {
+    res.status(404).json({ message: 'Group not found' });
+    return null;
+  }
+
+  if (!messageService.isParticipant(group, req.user._id.toString())) {
+    res.status(403).json({ message: 'You are not a member of this group' });
+    return null;
+  }
+
+  return group;
+};
+
+// Check that users exist and are not blocked by, or blocking, the current user.
+// Returns an error message, or null when every user can be added.
+const validateNewMembers = async (req: Request, userIds: string[]) => {
+  if (!userIds.every(id => mongoose.Types.ObjectId.isValid(id))) {
+    return 'Invalid user ID';
+  }
+
+  const found = await User.countDocuments({ _id: { $in: userIds } });
+  if (found !== userIds.length) {
+    return 'User not found';
+  }
+
+  const blocked = (await getBlockedUserIds(req.user)).map(id => id.toString());
+  if (userIds.some(id => blocked.includes(id))) {
+    return 'You cannot add this user to a group';
+  }
+
+  return null;
+};
 
 // @desc    Get all conversations for a user
 // @route   GET /api/chat/conversations
@@ -41,7 +221,154 @@ export const getOrCreateConversation = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Send a message
+// @desc    Delete a conversation for the current user only; it is hidden
+//          and its history cleared until a new message arrives
+// @route   DELETE /api/chat/conversations/:id
+// @access  Private (conversation participants)
+export const deleteConversation = async (req: Request, res: Response) => {
+  try {
+    const conversation = await findConversationForMember(req, res);
+    if (!conversation) return;
+
+    const userId = req.user._id.toString();
+    await messageService.clearConversation(conversation.id!, userId);
+
+    // Remove it on the user's other devices too
+    emitToUsers([userId], 'conversation_deleted', { conversationId: conversation.id });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete conversation error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Archive, pin or mute a conversation for the current user
+// @route   PUT /api/chat/conversations/:id/settings
+// @access  Private (conversation participants)
+export const updateConversationSettings = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const conversation = await findConversationForMember(req, res);
+    if (!conversation) return;
+
+    const { archived, pinned, muted_until } = req.body;
+    const changes: Partial<messageService.ConversationSettings> = {};
+    if (archived !== undefined) changes.archived = archived;
+    if (pinned !== undefined) changes.pinned = pinned;
+    if (muted_until !== undefined) changes.muted_until = muted_until;
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ message: 'No settings to change' });
+    }
+
+    const userId = req.user._id.toString();
+    const { hidden, cleared_before, ...settings } =
+      await messageService.updateConversationSettings(conversation.id!, userId, changes);
+
+    emitToUsers([userId], 'conversation_settings_updated', { conversationId: conversation.id, ...settings });
+
+    res.json(settings);
+  } catch (error: any) {
+    console.error('Update conversation settings error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Upload an image, video, audio clip, voice note or file to send in
+//          a conversation, or in a new direct conversation with a recipient
+// @route   POST /api/chat/attachments
+// @access  Private (conversation participants)
+export const uploadAttachment = async (req: Request, res: Response) => {
+  try {
+    const file = req.file;
+    const senderId = req.user._id.toString();
+    const recipientId = req.body.recipientId || req.body.recipient_id;
+    const conversationId = req.body.conversationId || req.body.conversation_id;
+
+    // The upload middleware drops files of an unsupported type
+    const kind = file ? chatAttachmentKind(file.mimetype) : null;
+    if (!file || !kind) {
+      return res.status(400).json({
+        message: 'Attachments must be an image, video, audio clip, or a PDF, text, CSV, ZIP or Office document',
+      });
+    }
+
+    const { maxSize } = CHAT_ATTACHMENT_KINDS[kind];
+    if (file.size > maxSize) {
+      return res.status(400).json({ message: `${kind} attachments must be ${maxSize / (1024 * 1024)}MB or smaller` });
+    }
+
+    // Voice notes are recorded audio, shown with a waveform
+    const isVoiceNote = req.body.voiceNote === true || req.body.voiceNote === 'true';
+    if (isVoiceNote && kind !== 'audio') {
+      return res.status(400).json({ message: 'Voice notes must be audio' });
+    }
+    const mediaType: messageService.MediaType = isVoiceNote ? 'voice' : kind;
+
+    let conversation: messageService.Conversation | null;
+    if (conversationId) {
+      conversation = await messageService.getConversation(conversationId);
+      if (!conversation || !messageService.isParticipant(conversation, senderId)) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+    } else if (recipientId) {
+      if (!mongoose.Types.ObjectId.isValid(recipientId) || !(await User.exists({ _id: recipientId }))) {
+        return res.status(404).json({ message: 'Recipient not found' });
+      }
+      conversation = await messageService.getOrCreateConversation(senderId, recipientId);
+    } else {
+      return res.status(400).json({ message: 'Recipient ID or conversation ID is required' });
+    }
+
+    if (!conversation || !conversation.id) {
+      return res.status(500).json({ message: 'Failed to create conversation' });
+    }
+
+    const result = await uploadToCloudinary(file.buffer, {
+      folder: messageService.chatAttachmentFolder(conversation.id),
+      resource_type: attachmentResourceTypes[kind],
+      // Keep the original name in the URL of downloadable files
+      ...(kind === 'file' ? { use_filename: true, filename_override: file.originalname } : {}),
+    });
+
+    const voiceNote = isVoiceNote ? await summarizeVoiceNote(file.buffer, result.public_id) : null;
+
+    // Cloudinary measures audio and video; fall back to the decoded voice
+    // note, then to the client's duration
+    const clientDuration = Number(req.body.duration);
+    const duration = typeof result.duration === 'number'
+      ? result.duration
+      : voiceNote
+        ? voiceNote.duration
+        : Number.isFinite(clientDuration) && clientDuration > 0 ? clientDuration : null;
+
+    const attachment = await messageService.createAttachment({
+      conversation_id: conversation.id,
+      uploader_id: senderId,
+      url: result.secure_url,
+      media_type: mediaType,
+      mime_type: file.mimetype,
+      file_name: file.originalname || null,
+      size: file.size,
+      duration: kind === 'audio' || kind === 'video' ? duration : null,
+      width: kind === 'image' || kind === 'video' ? result.width || null : null,
+      height: kind === 'image' || kind === 'video' ? result.height || null : null,
+      waveform: voiceNote ? voiceNote.waveform : null,
+    });
+
+    res.status(201).json({ attachment });
+  } catch (error: any) {
+    console.error('Upload attachment error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Send a message to a user, or to a conversation such as a group
 // @route   POST /api/chat/messages
 // @access  Private
 export const sendMessage = async (req: Request, res: Response) => {
@@ -52,29 +379,44 @@ export const sendMessage = async (req: Request, res: Response) => {
   }
 
   try {
+    const senderId = req.user._id.toString();
     // Support both recipientId and recipient_id for backward compatibility
-    const recipientId = req.body.recipientId || req.body.recipient_id;
-    const { text, mediaUrl, mediaType } = req.body;
+    let recipientId = req.body.recipientId || req.body.recipient_id;
+    const conversationId = req.body.conversationId || req.body.conversation_id;
+    const replyToId = req.body.replyToId || req.body.reply_to_id;
+    const attachmentId = req.body.attachmentId || req.body.attachment_id;
+    const { text } = req.body;
 
-    console.log('Sending message:', { recipientId, text: text ? 'text present' : 'no text', mediaUrl: mediaUrl ? 'media present' : 'no media' });
+    console.log('Sending message:', { recipientId, conversationId, text: text ? 'text present' : 'no text', attachmentId: attachmentId || 'no attachment' });
 
-    if (!recipientId) {
-      console.error('No recipient ID provided in request');
-      return res.status(400).json({ message: 'Recipient ID is required' });
+    if (!recipientId && !conversationId) {
+      console.error('No recipient ID or conversation ID provided in request');
+      return res.status(400).json({ message: 'Recipient ID or conversation ID is required' });
     }
 
-    // Check if recipient exists
-    const recipient = await User.findById(recipientId);
-    if (!recipient) {
-      console.error(`Recipient not found with ID: ${recipientId}`);
-      return res.status(404).json({ message: 'Recipient not found' });
+    // Media must be uploaded first so its URL comes from the server
+    if (req.body.mediaUrl || req.body.media_url) {
+      return res.status(400).json({ message: 'Upload media to /api/chat/attachments and send its attachment ID' });
     }
 
-    // Get or create conversation
-    const conversation = await messageService.getOrCreateConversation(
-      req.user._id.toString(),
-      recipientId
-    );
+    let conversation: messageService.Conversation | null;
+
+    if (!recipientId) {
+      // Group messages, or messages to a direct conversation by its ID
+      conversation = await messageService.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      if (!messageService.isParticipant(conversation, senderId)) {
+        return res.status(403).json({ message: 'You are not a participant in this conversation' });
+      }
+      recipientId = conversation.is_group
+        ? null
+        : conversation.participants.find(id => id !== senderId);
+    } else {
+      // Get or create the direct conversation with the recipient
+      conversation = await messageService.getOrCreateConversation(senderId, recipientId);
+    }
 
     if (!conversation || !conversation.id) {
       console.error('Failed to get or create conversation');
@@ -83,15 +425,38 @@ export const sendMessage = async (req: Request, res: Response) => {
 
     console.log(`Created/retrieved conversation: ${conversation.id}`);
 
+    // Check if recipient exists
+    const recipient = recipientId ? await User.findById(recipientId) : null;
+    if (recipientId && !recipient) {
+      console.error(`Recipient not found with ID: ${recipientId}`);
+      return res.status(404).json({ message: 'Recipient not found' });
+    }
+
+    // Replies can only quote an earlier message in the same conversation
+    const replyTo = replyToId ? await messageService.getReplyPreview(replyToId, conversation.id) : null;
+    if (replyToId && !replyTo) {
+      return res.status(400).json({ message: 'You can only reply to a message in the same conversation' });
+    }
+
+    let attachment: messageService.Attachment | undefined;
+    if (attachmentId) {
+      const found = await messageService.findSendableAttachment(attachmentId, conversation.id!, senderId);
+      if (found.error) {
+        return res.status(400).json({ message: found.error });
+      }
+      attachment = found.attachment;
+    }
+
     // Create message object
     const message = {
-      sender_id: req.user._id.toString(),
-      recipient_id: recipientId,
+      sender_id: senderId,
+      recipient_id: recipientId || null,
       conversation_id: conversation.id,
       text,
-      media_url: mediaUrl,
-      media_type: mediaType,
-      read: false
+      media_url: attachment?.url,
+      media_type: attachment?.media_type,
+      attachment_id: attachment ? attachment.id : null,
+      reply_to_id: replyTo ? replyTo.id : null,
     };
 
     // Send message
@@ -107,18 +472,20 @@ export const sendMessage = async (req: Request, res: Response) => {
     // Return message with user info
     const populatedMessage = {
       ...savedMessage,
+      reply_to: replyTo,
+      attachment,
       sender: {
         _id: req.user._id,
         username: req.user.username,
         name: req.user.name,
         profilePicture: req.user.profilePicture
       },
-      recipient: {
+      recipient: recipient ? {
         _id: recipient._id,
         username: recipient.username,
         name: recipient.name,
         profilePicture: recipient.profilePicture
-      }
+      } : null
     };
 
     // Return message wrapped in object to match frontend expectations
@@ -130,24 +497,54 @@ export const sendMessage = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Get messages for a conversation
-// @route   GET /api/chat/messages/:conversationId
+// @desc    Get a page of messages for a conversation: the newest, or the
+//          ones before or after a message
+// @route   GET /api/chat/messages/:conversationId?before=&after=&limit=
 // @access  Private
 export const getMessages = async (req: Request, res: Response) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const { conversationId } = req.params;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 100;
+    const before = req.query.before as string | undefined;
+    const after = req.query.after as string | undefined;
+    const limit = Math.min(
+      parseInt(req.query.limit as string) || messageService.DEFAULT_MESSAGE_PAGE_SIZE,
+      MAX_MESSAGE_PAGE_SIZE
+    );
+    const userId = req.user._id.toString();
 
-    // console.log(`API request for messages: conversation=${conversationId}, page=${page}, limit=${limit}`);
-    
-    // Get messages from Supabase
-    const result = await messageService.getMessages(conversationId, page, limit);
-    
-    // Here we would typically populate user data, but that would require additional queries
-    // to get user info for each message. For simplicity, we're returning the raw messages.
-    // In a production app, you'd fetch the user data from the users table in Supabase
-    // and merge it with the message data.
+    if (before && after) {
+      return res.status(400).json({ message: 'Use either before or after, not both' });
+    }
+
+    const conversation = await messageService.getConversation(conversationId);
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+    if (!messageService.isParticipant(conversation, userId)) {
+      return res.status(403).json({ message: 'You are not a participant in this conversation' });
+    }
+
+    // Cursors are message IDs; the page starts next to that message
+    const cursorId = before || after;
+    const cursorMessage = cursorId ? await messageService.getMessage(cursorId) : null;
+    if (cursorId && (!cursorMessage || cursorMessage.conversation_id !== conversationId)) {
+      return res.status(400).json({ message: 'Invalid message cursor' });
+    }
+    const cursor = cursorMessage ? { id: cursorMessage.id, created_at: cursorMessage.created_at } : undefined;
+
+    // Opening a conversation reads it; continue even if marking fails
+    await markConversationRead(conversation, userId);
+
+    const result = await messageService.getMessages(conversation, userId, {
+      limit,
+      before: before ? cursor : undefined,
+      after: after ? cursor : undefined,
+    });
 
     res.json(result);
   } catch (error: any) {
@@ -156,6 +553,64 @@ export const getMessages = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Search message text across the user's conversations, or within one
+// @route   GET /api/chat/search?q=
+// @route   GET /api/chat/conversations/:conversationId/search?q=
+// @access  Private
+export const searchMessages = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const userId = req.user._id.toString();
+    const { conversationId } = req.params;
+    const query = (req.query.q as string).trim();
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_SEARCH_PAGE_SIZE);
+
+    if (conversationId) {
+      const conversation = await messageService.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+      if (!messageService.isParticipant(conversation, userId)) {
+        return res.status(403).json({ message: 'You are not a participant in this conversation' });
+      }
+    }
+
+    const result = await messageService.searchMessages(userId, query, { conversationId, page, limit });
+
+    // Attach the profiles a result shows: its sender and, in direct
+    // conversations, the other participant
+    const otherParticipantOf = (match: messageService.MessageSearchResult) =>
+      match.conversation && !match.conversation.is_group
+        ? match.conversation.participants.find(id => id !== userId) || null
+        : null;
+    const profileIds = Array.from(new Set(
+      result.results.flatMap(match => [match.sender_id, otherParticipantOf(match)])
+    )).filter((id): id is string => !!id && mongoose.Types.ObjectId.isValid(id));
+    const profiles = await User.find({ _id: { $in: profileIds } }).select(publicUserFields);
+    const profilesById = new Map(profiles.map(profile => [profile._id.toString(), profile]));
+
+    res.json({
+      ...result,
+      results: result.results.map(match => {
+        const otherParticipantId = otherParticipantOf(match);
+        return {
+          ...match,
+          sender: profilesById.get(match.sender_id) || null,
+          other_participant: otherParticipantId ? profilesById.get(otherParticipantId) || null : null,
+        };
+      }),
+    });
+  } catch (error: any) {
+    console.error('Search messages error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
 // @desc    Get unread message count
 // @route   GET /api/chat/messages/unread
 // @access  Private
@@ -190,9 +645,14 @@ export const markMessagesAsRead = async (req: Request, res: Response) => {
     // Get the user ID from the authenticated user
     const userId = req.user._id.toString();
 
-    // Mark messages as read in this conversation that were sent to this user
-    const result = await messageService.markMessagesAsRead(conversationId, userId);
-    
+    const conversation = await messageService.getConversation(conversationId);
+    if (!conversation || !messageService.isParticipant(conversation, userId)) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    // Mark messages from the other participants as read for this user
+    const result = await markConversationRead(conversation, userId);
+
     res.json({ success: true, markedMessageIds: result.markedMessageIds });
   } catch (error: any) {
     console.error('Error marking messages as read:', error);
@@ -200,4 +660,372 @@ export const markMessagesAsRead = async (req: Request, res: Response) => {
       message: error.message || 'Server error'
     });
   }
-}; 
\ No newline at end of file
+};
+
+// @desc    Edit the text of a message
+// @route   PUT /api/chat/messages/:id
+// @access  Private (sender, within the change window)
+export const editMessage = async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const message = await findChangeableMessage(req, res, 'edit');
+    if (!message) return;
+
+    const updatedMessage = await messageService.editMessage(message.id, req.body.text);
+
+    await broadcastMessageChange(updatedMessage.conversation_id, 'message_edited', {
+      messageId: updatedMessage.id,
+      text: updatedMessage.text,
+      editedAt: updatedMessage.edited_at,
+    });
+
+    res.json({ message: updatedMessage });
+  } catch (error: any) {
+    console.error('Edit message error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Unsend a message for everyone in the conversation
+// @route   DELETE /api/chat/messages/:id
+// @access  Private (sender, within the change window)
+export const deleteMessage = async (req: Request, res: Response) => {
+  try {
+    const message = await findChangeableMessage(req, res, 'unsend');
+    if (!message) return;
+
+    const deletedMessage = await messageService.deleteMessage(message.id);
+
+    // The attachment goes with the content
+    if (message.attachment_id) {
+      const attachment = await messageService.deleteAttachment(message.attachment_id);
+      if (attachment) {
+        await deleteFromCloudinary([attachment.url], messageService.chatAttachmentFolder(attachment.conversation_id));
+      }
+    }
+
+    await broadcastMessageChange(deletedMessage.conversation_id, 'message_deleted', {
+      messageId: deletedMessage.id,
+      deletedAt: deletedMessage.deleted_at,
+    });
+
+    res.json({ message: deletedMessage });
+  } catch (error: any) {
+    console.error('Delete message error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    React to a message with an emoji
+// @route   POST /api/chat/messages/:id/reactions
+// @access  Private (conversation participants)
+export const addReaction = async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const message = await findMessageForMember(req, res);
+    if (!message) return;
+
+    if (message.deleted_at) {
+      return res.status(400).json({ message: 'This message was unsent' });
+    }
+
+    const reactions = await messageService.addReaction(message, req.user._id.toString(), req.body.emoji);
+
+    emitToConversation(message.conversation_id, 'reaction_updated', {
+      conversationId: message.conversation_id,
+      messageId: message.id,
+      reactions,
+    });
+
+    res.status(201).json({ reactions });
+  } catch (error: any) {
+    console.error('Add reaction error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Mark a voice note as listened to, letting its sender know
+// @route   POST /api/chat/messages/:id/listened
+// @access  Private (conversation participants)
+export const markVoiceNoteListened = async (req: Request, res: Response) => {
+  try {
+    const message = await findMessageForMember(req, res);
+    if (!message) return;
+
+    const userId = req.user._id.toString();
+
+    if (message.media_type !== 'voice') {
+      return res.status(400).json({ message: 'Only voice notes can be listened to' });
+    }
+
+    if (message.sender_id === userId) {
+      return res.status(400).json({ message: 'You cannot mark your own voice note as listened' });
+    }
+
+    const readBy = await messageService.markVoiceNoteListened(message, userId);
+
+    await broadcastMessageChange(message.conversation_id, 'voice_note_listened', {
+      messageId: message.id,
+      userId,
+      readBy,
+    });
+
+    res.json({ readBy });
+  } catch (error: any) {
+    console.error('Mark voice note listened error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Remove your reaction from a message
+// @route   DELETE /api/chat/messages/:id/reactions/:emoji
+// @access  Private (conversation participants)
+export const removeReaction = async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const message = await findMessageForMember(req, res);
+    if (!message) return;
+
+    const reactions = await messageService.removeReaction(message.id, req.user._id.toString(), req.params.emoji);
+
+    emitToConversation(message.conversation_id, 'reaction_updated', {
+      conversationId: message.conversation_id,
+      messageId: message.id,
+      reactions,
+    });
+
+    res.json({ reactions });
+  } catch (error: any) {
+    console.error('Remove reaction error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Create a group conversation
+// @route   POST /api/chat/groups
+// @access  Private
+export const createGroup = async (req: Request, res: Response) => {
+  try {
+    const creatorId = req.user._id.toString();
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    const memberIds = Array.from(new Set(toArray(req.body.participantIds))).filter(id => id !== creatorId);
+
+    if (!name || name.length > GROUP_NAME_MAX_LENGTH) {
+      return res.status(400).json({ message: `Group name must be 1 to ${GROUP_NAME_MAX_LENGTH} characters` });
+    }
+
+    // A group with one other member would just be a direct conversation
+    if (memberIds.length < 2) {
+      return res.status(400).json({ message: 'Add at least two other people to create a group' });
+    }
+
+    const memberError = await validateNewMembers(req, memberIds);
+    if (memberError) {
+      return res.status(400).json({ message: memberError });
+    }
+
+    let avatarUrl: string | null = null;
+    if (req.file) {
+      const result = await uploadToCloudinary(req.file.buffer, {
+        folder: groupAvatarFolder,
+        resource_type: 'image',
+      });
+      avatarUrl = result.secure_url;
+    }
+
+    const group = await messageService.createGroupConversation(creatorId, memberIds, name, avatarUrl);
+    const populated = await broadcastGroupUpdate(group);
+
+    res.status(201).json(populated);
+  } catch (error: any) {
+    console.error('Create group error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Get a group with its members
+// @route   GET /api/chat/groups/:id
+// @access  Private
+export const getGroup = async (req: Request, res: Response) => {
+  try {
+    const group = await findGroupForMember(req, res);
+    if (!group) return;
+
+    res.json(await populateGroup(group));
+  } catch (error: any) {
+    console.error('Get group error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Rename a group or change its avatar
+// @route   PUT /api/chat/groups/:id
+// @access  Private (group admins)
+export const updateGroup = async (req: Request, res: Response) => {
+  try {
+    const group = await findGroupForMember(req, res);
+    if (!group) return;
+
+    if (!messageService.isGroupAdmin(group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'Only group admins can edit the group' });
+    }
+
+    const changes: { name?: string; avatar_url?: string } = {};
+
+    if (req.body.name !== undefined) {
+      const name = String(req.body.name).trim();
+      if (!name || name.length > GROUP_NAME_MAX_LENGTH) {
+        return res.status(400).json({ message: `Group name must be 1 to ${GROUP_NAME_MAX_LENGTH} characters` });
+      }
+      changes.name = name;
+    }
+
+    if (req.file) {
+      const result = await uploadToCloudinary(req.file.buffer, {
+        folder: groupAvatarFolder,
+        resource_type: 'image',
+      });
+      changes.avatar_url = result.secure_url;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ message: 'Nothing to update' });
+    }
+
+    const updated = await messageService.updateGroupConversation(group.id!, changes);
+    res.json(await broadcastGroupUpdate(updated));
+  } catch (error: any) {
+    console.error('Update group error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Add members to a group
+// @route   POST /api/chat/groups/:id/members
+// @access  Private (group admins)
+export const addGroupMembers = async (req: Request, res: Response) => {
+  try {
+    const group = await findGroupForMember(req, res);
+    if (!group) return;
+
+    if (!messageService.isGroupAdmin(group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'Only group admins can add members' });
+    }
+
+    const userIds = Array.from(new Set(toArray(req.body.userIds)))
+      .filter(id => !group.participants.includes(id));
+
+    if (userIds.length === 0) {
+      return res.status(400).json({ message: 'No new members to add' });
+    }
+
+    const memberError = await validateNewMembers(req, userIds);
+    if (memberError) {
+      return res.status(400).json({ message: memberError });
+    }
+
+    const updated = await messageService.addGroupMembers(group, userIds);
+    res.json(await broadcastGroupUpdate(updated));
+  } catch (error: any) {
+    console.error('Add group members error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Remove a member from a group
+// @route   DELETE /api/chat/groups/:id/members/:userId
+// @access  Private (group admins)
+export const removeGroupMember = async (req: Request, res: Response) => {
+  try {
+    const group = await findGroupForMember(req, res);
+    if (!group) return;
+
+    const { userId } = req.params;
+
+    if (!messageService.isGroupAdmin(group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'Only group admins can remove members' });
+    }
+
+    if (!group.participants.includes(userId)) {
+      return res.status(404).json({ message: 'User is not a member of this group' });
+    }
+
+    const updated = await messageService.removeGroupMember(group, userId);
+    removeUsersFromConversation([userId], updated.id!);
+    res.json(await broadcastGroupUpdate(updated, [userId]));
+  } catch (error: any) {
+    console.error('Remove group member error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Leave a group
+// @route   POST /api/chat/groups/:id/leave
+// @access  Private
+export const leaveGroup = async (req: Request, res: Response) => {
+  try {
+    const group = await findGroupForMember(req, res);
+    if (!group) return;
+
+    const userId = req.user._id.toString();
+    const updated = await messageService.removeGroupMember(group, userId);
+    removeUsersFromConversation([userId], updated.id!);
+    await broadcastGroupUpdate(updated, [userId]);
+
+    res.json({ message: 'You left the group' });
+  } catch (error: any) {
+    console.error('Leave group error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// Make a group member an admin, or take admin rights away
+const changeGroupAdmin = async (req: Request, res: Response, makeAdmin: boolean) => {
+  try {
+    const group = await findGroupForMember(req, res);
+    if (!group) return;
+
+    const { userId } = req.params;
+
+    if (!messageService.isGroupAdmin(group, req.user._id.toString())) {
+      return res.status(403).json({ message: 'Only group admins can change admins' });
+    }
+
+    if (!group.participants.includes(userId)) {
+      return res.status(404).json({ message: 'User is not a member of this group' });
+    }
+
+    // Keep at least one admin; the last admin can leave instead
+    if (!makeAdmin && (group.admins || []).filter(id => id !== userId).length === 0) {
+      return res.status(400).json({ message: 'A group needs at least one admin' });
+    }
+
+    const updated = await messageService.setGroupAdmin(group, userId, makeAdmin);
+    res.json(await broadcastGroupUpdate(updated));
+  } catch (error: any) {
+    console.error('Set group admin error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
+// @desc    Make a group member an admin
+// @route   POST /api/chat/groups/:id/admins/:userId
+// @access  Private (group admins)
+export const addGroupAdmin = (req: Request, res: Response) => changeGroupAdmin(req, res, true);
+
+// @desc    Take admin rights away from a group member
+// @route   DELETE /api/chat/groups/:id/admins/:userId
+// @access  Private (group admins)
+export const removeGroupAdmin = (req: Request, res: Response) => changeGroupAdmin(req, res, false);
\ No newline at end of file
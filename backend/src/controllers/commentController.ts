@@ -0,0 +1,231 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Comment from '../models/Comment';
+import Post from '../models/Post';
+import Notification from '../models/Notification';
+import { createNotification } from './notificationController';
+import { buildVisibilityFilter } from '../utils/postVisibility';
+import { decodeCursor, keysetFilter, keysetSort, paginate, parseLimit } from '../utils/pagination';
+
+const USER_FIELDS = '_id name username profilePicture';
+
+// @desc    Get comments for a post, with their replies
+// @route   GET /api/posts/:id/comments?cursor=&limit=
+// @access  Private
+export const getComments = async (req: Request, res: Response) => {
+  try {
+    const postId = req.params.id;
+
+    if (
+      !mongoose.Types.ObjectId.isValid(postId) ||
+      !(await Post.exists({ $and: [{ _id: postId }, await buildVisibilityFilter(req.user)] }))
+    ) {
+      return res.status(404).json({ success: false, message: 'Post not found' });
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const cursor = decodeCursor(req.query.cursor);
+
+    // Top-level comments are listed oldest first so threads read top to bottom
+    const comments = await Comment.find({
+      post: postId,
+      parentComment: null,
+      ...keysetFilter(cursor, 'asc'),
+    })
+      .sort(keysetSort('asc'))
+      .limit(limit + 1)
+      .populate('user', USER_FIELDS)
+      .lean();
+
+    const page = paginate(comments, limit);
+
+    const replies = await Comment.find({
+      parentComment: { $in: page.data.map(comment => comment._id) },
+    })
+      .sort(keysetSort('asc'))
+      .populate('user', USER_FIELDS)
+      .lean();
+
+    const thread = page.data.map(comment => ({
+      ...comment,
+      replies: replies.filter(reply => reply.parentComment?.toString() === comment._id.toString()),
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: thread,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    });
+  } catch (error) {
+    console.error(`Error in getComments for post ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Add a comment or a reply to a post
+// @route   POST /api/posts/:id/comments
+// @access  Private
+export const addComment = async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const { text, parentComment } = req.body;
+    const userId = req.user._id;
+
+    const post = await Post.findOne({
+      $and: [{ _id: req.params.id }, await buildVisibilityFilter(req.user)],
+    });
+    if (!post) {
+      return res.status(404).json({ success: false, message: 'Post not found' });
+    }
+
+    let parent = null;
+    if (parentComment) {
+      parent = mongoose.Types.ObjectId.isValid(parentComment)
+        ? await Comment.findOne({ _id: parentComment, post: post._id })
+        : null;
+
+      if (!parent) {
+        return res.status(404).json({ success: false, message: 'Parent comment not found' });
+      }
+    }
+
+    // Replies to a reply are attached to the top-level comment to keep one level of threading
+    const threadRootId = parent ? parent.parentComment || parent._id : null;
+
+    const comment = await Comment.create({
+      user: userId,
+      post: post._id,
+      text,
+      parentComment: threadRootId,
+    });
+
+    await Post.findByIdAndUpdate(post._id, { $push: { comments: comment._id } });
+
+    // Notify the post author and, for replies, the author of the comment being replied to
+    const recipients = new Set<string>([post.user.toString()]);
+    if (parent) {
+      recipients.add(parent.user.toString());
+    }
+    recipients.delete(userId.toString());
+
+    await Promise.all(
+      Array.from(recipients).map(recipientId =>
+        createNotification(
+          recipientId,
+          userId.toString(),
+          'comment',
+          post._id.toString(),
+          comment._id.toString()
+        )
+      )
+    );
+
+    const populatedComment = await comment.populate('user', USER_FIELDS);
+
+    res.status(201).json({
+      success: true,
+      data: populatedComment,
+    });
+  } catch (error) {
+    console.error(`Error in addComment for post ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Edit a comment (author only)
+// @route   PUT /api/posts/:id/comments/:commentId
+// @access  Private
+export const updateComment = async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
+  try {
+    const comment = await Comment.findOne({ _id: req.params.commentId, post: req.params.id });
+
+    if (!comment) {
+      return res.status(404).json({ success: false, message: 'Comment not found' });
+    }
+
+    if (comment.user.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ success: false, message: 'Not authorized to edit this comment' });
+    }
+
+    comment.text = req.body.text;
+    comment.editedAt = new Date();
+    await comment.save();
+
+    const populatedComment = await comment.populate('user', USER_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      data: populatedComment,
+    });
+  } catch (error) {
+    console.error(`Error in updateComment for comment ${req.params.commentId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Delete a comment and its replies (comment author or post owner)
+// @route   DELETE /api/posts/:id/comments/:commentId
+// @access  Private
+export const deleteComment = async (req: Request, res: Response) => {
+  try {
+    const comment = await Comment.findOne({ _id: req.params.commentId, post: req.params.id });
+
+    if (!comment) {
+      return res.status(404).json({ success: false, message: 'Comment not found' });
+    }
+
+    const post = await Post.findById(comment.post);
+    const userId = req.user._id.toString();
+    const isAuthor = comment.user.toString() === userId;
+    const isPostOwner = !!post && post.user.toString() === userId;
+
+    if (!isAuthor && !isPostOwner) {
+      return res.status(403).json({ success: false, message: 'Not authorized to delete this comment' });
+    }
+
+    // Deleting a top-level comment removes its replies as well
+    const replies = await Comment.find({ parentComment: comment._id }).select('_id');
+    const removedIds = [comment._id, ...replies.map(reply => reply._id)];
+
+    await Comment.deleteMany({ _id: { $in: removedIds } });
+    await Post.findByIdAndUpdate(comment.post, { $pull: { comments: { $in: removedIds } } });
+    await Notification.deleteMany({ comment: { $in: removedIds } });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deletedIds: removedIds,
+      },
+    });
+  } catch (error) {
+    console.error(`Error in deleteComment for comment ${req.params.commentId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
@@ -0,0 +1,281 @@
+import { Request, Response } from 'express';
+import PostDraft, { IPostDraft } from '../models/PostDraft';
+import { uploadToCloudinary, deleteFromCloudinary } from '../config/cloudinary';
+import { isPostVisibility } from '../utils/postVisibility';
+import { parsePollInput } from '../utils/polls';
+import { toArray } from '../utils/multipart';
+import { MAX_POST_IMAGES, postImageFolder, publishDraft } from '../services/postService';
+
+/**
+ * Copy the editable fields of a request body onto a draft
+ * @returns An error message for the client, or null when every field is valid
+ */
+const applyDraftFields = (draft: IPostDraft, body: Record<string, any>): string | null => {
+  const { description, mood, visibility, poll, publishAt } = body;
+  const now = new Date();
+
+  if (description !== undefined) {
+    draft.description = String(description);
+  }
+
+  if (mood !== undefined) {
+    draft.mood = mood || undefined;
+  }
+
+  if (visibility !== undefined) {
+    if (!isPostVisibility(visibility)) {
+      return 'Invalid post visibility';
+    }
+    draft.visibility = visibility;
+  }
+
+  // An empty value removes the poll
+  if (poll !== undefined) {
+    if (!poll) {
+      draft.poll = null;
+    } else {
+      const parsed = parsePollInput(poll, now);
+      if (!parsed.poll) {
+        return parsed.error || 'Invalid poll';
+      }
+      draft.poll = {
+        options: parsed.poll.options.map(option => option.text),
+        durationHours: parsed.durationHours ?? null,
+        closesAt: parsed.durationHours === undefined ? parsed.poll.closesAt : null,
+      };
+    }
+  }
+
+  // An empty value turns a scheduled post back into a plain draft
+  if (publishAt !== undefined) {
+    if (!publishAt) {
+      draft.publishAt = null;
+    } else {
+      const date = new Date(publishAt);
+      if (isNaN(date.getTime()) || date.getTime() <= now.getTime()) {
+        return 'Publish time must be in the future';
+      }
+      draft.publishAt = date;
+      draft.publishError = undefined;
+    }
+  }
+
+  if (draft.publishAt && !draft.description.trim()) {
+    return 'Add a description before scheduling this post';
+  }
+
+  if (draft.publishAt && draft.poll?.closesAt && draft.poll.closesAt.getTime() <= draft.publishAt.getTime()) {
+    return 'The poll must close after the post is published';
+  }
+
+  return null;
+};
+
+// @desc    List the user's drafts and scheduled posts
+// @route   GET /api/posts/drafts?scheduled=true|false
+// @access  Private
+export const getDrafts = async (req: Request, res: Response) => {
+  try {
+    const filter: Record<string, unknown> = { user: req.user._id };
+    let sort: Record<string, 1 | -1> = { updatedAt: -1 };
+
+    if (req.query.scheduled === 'true') {
+      // Scheduled posts are listed in the order they will go out
+      filter.publishAt = { $ne: null };
+      sort = { publishAt: 1 };
+    } else if (req.query.scheduled === 'false') {
+      filter.publishAt = null;
+    }
+
+    const drafts = await PostDraft.find(filter).sort(sort).select('-claimedAt');
+
+    res.status(200).json({
+      success: true,
+      count: drafts.length,
+      data: drafts,
+    });
+  } catch (error) {
+    console.error('Error in getDrafts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Save a draft, optionally scheduled with publishAt
+// @route   POST /api/posts/drafts
+// @access  Private
+export const createDraft = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+    const files = Array.isArray(req.files) ? req.files : [];
+
+    if (files.length > MAX_POST_IMAGES) {
+      return res.status(400).json({
+        success: false,
+        message: `A post can have at most ${MAX_POST_IMAGES} images`,
+      });
+    }
+
+    const draft = new PostDraft({ user: userId });
+    const fieldError = applyDraftFields(draft, req.body);
+    if (fieldError) {
+      return res.status(400).json({ success: false, message: fieldError });
+    }
+
+    // Images are uploaded now so the draft survives the app being closed
+    const uploaded = await Promise.all(
+      files.map(file => uploadToCloudinary(file.buffer, { folder: postImageFolder(userId), resource_type: 'auto' }))
+    );
+    draft.images = uploaded.map(result => result.secure_url);
+
+    await draft.save();
+
+    res.status(201).json({
+      success: true,
+      data: draft,
+    });
+  } catch (error) {
+    console.error('Error in createDraft:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Edit a draft or scheduled post, including its images and publish time
+// @route   PUT /api/posts/drafts/:draftId
+// @access  Private
+export const updateDraft = async (req: Request, res: Response) => {
+  try {
+    const draft = await PostDraft.findOne({ _id: req.params.draftId, user: req.user._id });
+
+    if (!draft) {
+      return res.status(404).json({ success: false, message: 'Draft not found' });
+    }
+
+    if (draft.claimedAt) {
+      return res.status(409).json({ success: false, message: 'This post is being published' });
+    }
+
+    const removeImages = toArray(req.body.removeImages);
+    const files = Array.isArray(req.files) ? req.files : [];
+    const keptImages = draft.images.filter(url => !removeImages.includes(url));
+
+    if (keptImages.length + files.length > MAX_POST_IMAGES) {
+      return res.status(400).json({
+        success: false,
+        message: `A post can have at most ${MAX_POST_IMAGES} images`,
+      });
+    }
+
+    const fieldError = applyDraftFields(draft, req.body);
+    if (fieldError) {
+      return res.status(400).json({ success: false, message: fieldError });
+    }
+
+    const folder = postImageFolder(draft.user);
+    const uploaded = await Promise.all(
+      files.map(file => uploadToCloudinary(file.buffer, { folder, resource_type: 'auto' }))
+    );
+    draft.images = [...keptImages, ...uploaded.map(result => result.secure_url)];
+
+    const savedDraft = await draft.save();
+
+    await deleteFromCloudinary(
+      removeImages.filter(url => !savedDraft.images.includes(url)),
+      folder
+    );
+
+    res.status(200).json({
+      success: true,
+      data: savedDraft,
+    });
+  } catch (error) {
+    console.error(`Error in updateDraft for draft ${req.params.draftId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Discard a draft or cancel a scheduled post
+// @route   DELETE /api/posts/drafts/:draftId
+// @access  Private
+export const deleteDraft = async (req: Request, res: Response) => {
+  try {
+    const draft = await PostDraft.findOne({ _id: req.params.draftId, user: req.user._id });
+
+    if (!draft) {
+      return res.status(404).json({ success: false, message: 'Draft not found' });
+    }
+
+    // A draft the scheduler has claimed is already on its way out
+    const result = await PostDraft.deleteOne({ _id: draft._id, claimedAt: null });
+    if (result.deletedCount === 0) {
+      return res.status(409).json({ success: false, message: 'This post is being published' });
+    }
+
+    await deleteFromCloudinary(draft.images, postImageFolder(draft.user));
+
+    res.status(200).json({
+      success: true,
+      message: 'Draft deleted successfully',
+    });
+  } catch (error) {
+    console.error(`Error in deleteDraft for draft ${req.params.draftId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Publish a draft or scheduled post right away
+// @route   POST /api/posts/drafts/:draftId/publish
+// @access  Private
+export const publishDraftNow = async (req: Request, res: Response) => {
+  try {
+    // Claim the draft so the scheduler cannot publish it at the same time
+    const draft = await PostDraft.findOneAndUpdate(
+      { _id: req.params.draftId, user: req.user._id, claimedAt: null },
+      { $set: { claimedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!draft) {
+      return res.status(404).json({ success: false, message: 'Draft not found' });
+    }
+
+    if (!draft.description.trim()) {
+      await PostDraft.updateOne({ _id: draft._id }, { $set: { claimedAt: null } });
+      return res.status(400).json({ success: false, message: 'Add a description before publishing this post' });
+    }
+
+    try {
+      const post = await publishDraft(draft);
+
+      res.status(201).json({
+        success: true,
+        data: post,
+      });
+    } catch (error) {
+      await PostDraft.updateOne({ _id: draft._id }, { $set: { claimedAt: null } });
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Error in publishDraftNow for draft ${req.params.draftId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
@@ -0,0 +1,367 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Highlight, { IHighlight, HIGHLIGHT_TITLE_MAX_LENGTH } from '../models/Highlight';
+import Story, { IStory } from '../models/Story';
+import User from '../models/User';
+import { canSeeStoriesBy, isCloseFriendOf } from '../utils/storyAudience';
+
+const MAX_HIGHLIGHT_STORIES = 100;
+
+// Cloudinary renders a still frame of a video when asked for a .jpg
+const storyThumbnailUrl = (story: Pick<IStory, 'mediaUrl' | 'mediaType'>) =>
+  story.mediaType === 'video' ? story.mediaUrl.replace(/\.[^/.]+$/, '.jpg') : story.mediaUrl;
+
+// Check a trimmed highlight title, returning an error message or null when it is valid
+const highlightTitleError = (title: string) => {
+  if (!title) {
+    return 'Highlight title is required';
+  }
+  if (title.length > HIGHLIGHT_TITLE_MAX_LENGTH) {
+    return `Highlight titles can be at most ${HIGHLIGHT_TITLE_MAX_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Validate story IDs sent for a highlight: each must be one of the user's own stories
+ * @returns The IDs in the order given, or an error message for the client
+ */
+const resolveHighlightStories = async (
+  userId: mongoose.Types.ObjectId,
+  raw: unknown
+): Promise<{ storyIds?: mongoose.Types.ObjectId[]; error?: string }> => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'A highlight needs at least one story' };
+  }
+
+  const ids = Array.from(new Set(raw.map(String)));
+  if (ids.length > MAX_HIGHLIGHT_STORIES) {
+    return { error: `A highlight can have at most ${MAX_HIGHLIGHT_STORIES} stories` };
+  }
+
+  if (ids.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+    return { error: 'Invalid story ID' };
+  }
+
+  const owned = await Story.countDocuments({ _id: { $in: ids }, user: userId });
+  if (owned !== ids.length) {
+    return { error: 'Highlights can only contain your own stories' };
+  }
+
+  return { storyIds: ids.map(id => new mongoose.Types.ObjectId(id)) };
+};
+
+/**
+ * Check that a cover story is part of the highlight
+ * @returns The cover ID, null to fall back to the first story, or undefined when invalid
+ */
+const resolveCoverStory = (
+  raw: unknown,
+  storyIds: mongoose.Types.ObjectId[]
+): mongoose.Types.ObjectId | null | undefined => {
+  if (!raw) {
+    return null;
+  }
+
+  return storyIds.find(id => id.toString() === String(raw));
+};
+
+// Populate match that leaves out close-friends stories for viewers not on the
+// owner's list, so a highlight never widens a story's audience
+const highlightStoriesMatch = async (ownerId: mongoose.Types.ObjectId, viewerId: mongoose.Types.ObjectId) =>
+  ownerId.equals(viewerId) || (await isCloseFriendOf(ownerId, viewerId))
+    ? {}
+    : { audience: { $ne: 'closeFriends' } };
+
+// Shape a highlight with populated stories for the profile row
+const toHighlightSummary = (highlight: IHighlight) => {
+  const stories = (highlight.stories as unknown as IStory[]).filter(Boolean);
+  const cover =
+    stories.find(story => highlight.coverStory && story._id.equals(highlight.coverStory)) || stories[0];
+
+  return {
+    _id: highlight._id,
+    title: highlight.title,
+    order: highlight.order,
+    coverUrl: cover ? storyThumbnailUrl(cover) : null,
+    coverStory: highlight.coverStory,
+    storiesCount: stories.length,
+  };
+};
+
+// @desc    Get a user's highlights in profile order
+// @route   GET /api/stories/highlights/user/:userId
+// @access  Private
+export const getUserHighlights = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const owner = await User.findById(userId).select('_id');
+    if (!owner) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    // Highlights share the audience of the stories they were made from
+    if (!canSeeStoriesBy(owner._id, req.user)) {
+      return res.status(200).json({ success: true, count: 0, data: [] });
+    }
+
+    const highlights = await Highlight.find({ user: owner._id })
+      .sort({ order: 1, createdAt: 1 })
+      .populate({
+        path: 'stories',
+        select: '_id mediaUrl mediaType',
+        match: await highlightStoriesMatch(owner._id, req.user._id),
+      });
+
+    const data = highlights.map(toHighlightSummary).filter(highlight => highlight.storiesCount > 0);
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      data,
+    });
+  } catch (error) {
+    console.error(`Error in getUserHighlights for user ${req.params.userId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Get a highlight with its stories in play order, including expired ones
+// @route   GET /api/stories/highlights/:highlightId
+// @access  Private
+export const getHighlight = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.highlightId)) {
+      return res.status(404).json({ success: false, message: 'Highlight not found' });
+    }
+
+    const highlight = await Highlight.findById(req.params.highlightId)
+      .populate('user', '_id username name profilePicture');
+
+    const owner = highlight?.user as any;
+    if (!highlight || !owner || !canSeeStoriesBy(owner._id, req.user)) {
+      return res.status(404).json({ success: false, message: 'Highlight not found' });
+    }
+
+    await highlight.populate({
+      path: 'stories',
+      select: '-viewers',
+      match: await highlightStoriesMatch(owner._id, req.user._id),
+    });
+
+    if (highlight.stories.filter(Boolean).length === 0) {
+      return res.status(404).json({ success: false, message: 'Highlight not found' });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...toHighlightSummary(highlight),
+        user: owner,
+        stories: highlight.stories.filter(Boolean),
+      },
+    });
+  } catch (error) {
+    console.error(`Error in getHighlight for highlight ${req.params.highlightId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Create a highlight from the user's stories
+// @route   POST /api/stories/highlights
+// @access  Private
+export const createHighlight = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
+
+    const titleError = highlightTitleError(title);
+    if (titleError) {
+      return res.status(400).json({ success: false, message: titleError });
+    }
+
+    const { storyIds, error } = await resolveHighlightStories(userId, req.body.storyIds);
+    if (!storyIds) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const coverStory = resolveCoverStory(req.body.coverStoryId, storyIds);
+    if (coverStory === undefined) {
+      return res.status(400).json({ success: false, message: 'The cover must be one of the highlight\'s stories' });
+    }
+
+    // New highlights go to the end of the row
+    const last = await Highlight.findOne({ user: userId }).sort({ order: -1 }).select('order');
+
+    const highlight = await Highlight.create({
+      user: userId,
+      title,
+      stories: storyIds,
+      coverStory,
+      order: last ? last.order + 1 : 0,
+    });
+
+    await highlight.populate('stories', '_id mediaUrl mediaType');
+
+    res.status(201).json({
+      success: true,
+      data: toHighlightSummary(highlight),
+    });
+  } catch (error) {
+    console.error('Error in createHighlight:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Rename a highlight, replace its stories or change its cover
+// @route   PUT /api/stories/highlights/:highlightId
+// @access  Private
+export const updateHighlight = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.highlightId)) {
+      return res.status(404).json({ success: false, message: 'Highlight not found' });
+    }
+
+    const highlight = await Highlight.findOne({ _id: req.params.highlightId, user: req.user._id });
+
+    if (!highlight) {
+      return res.status(404).json({ success: false, message: 'Highlight not found' });
+    }
+
+    const { title, storyIds: rawStoryIds, coverStoryId } = req.body;
+
+    if (title !== undefined) {
+      const trimmed = String(title).trim();
+      const titleError = highlightTitleError(trimmed);
+      if (titleError) {
+        return res.status(400).json({ success: false, message: titleError });
+      }
+      highlight.title = trimmed;
+    }
+
+    if (rawStoryIds !== undefined) {
+      const { storyIds, error } = await resolveHighlightStories(req.user._id, rawStoryIds);
+      if (!storyIds) {
+        return res.status(400).json({ success: false, message: error });
+      }
+      highlight.stories = storyIds;
+
+      // Drop a cover that is no longer part of the highlight
+      if (highlight.coverStory && !storyIds.some(id => id.equals(highlight.coverStory!))) {
+        highlight.coverStory = null;
+      }
+    }
+
+    if (coverStoryId !== undefined) {
+      const coverStory = resolveCoverStory(coverStoryId, highlight.stories);
+      if (coverStory === undefined) {
+        return res.status(400).json({ success: false, message: 'The cover must be one of the highlight\'s stories' });
+      }
+      highlight.coverStory = coverStory;
+    }
+
+    await highlight.save();
+    await highlight.populate('stories', '_id mediaUrl mediaType');
+
+    res.status(200).json({
+      success: true,
+      data: toHighlightSummary(highlight),
+    });
+  } catch (error) {
+    console.error(`Error in updateHighlight for highlight ${req.params.highlightId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Set the order of the user's highlights
+// @route   PUT /api/stories/highlights/order
+// @access  Private
+export const reorderHighlights = async (req: Request, res: Response) => {
+  try {
+    const { highlightIds } = req.body;
+
+    if (!Array.isArray(highlightIds) || highlightIds.some(id => !mongoose.Types.ObjectId.isValid(String(id)))) {
+      return res.status(400).json({ success: false, message: 'highlightIds must be a list of highlight IDs' });
+    }
+
+    const owned = await Highlight.find({ user: req.user._id }).distinct('_id');
+    const ownedIds = new Set(owned.map(id => id.toString()));
+    const ids = Array.from(new Set(highlightIds.map(String)));
+
+    // The list must name every highlight exactly once
+    if (ids.length !== ownedIds.size || ids.some(id => !ownedIds.has(id))) {
+      return res.status(400).json({ success: false, message: 'highlightIds must list each of your highlights once' });
+    }
+
+    await Highlight.bulkWrite(
+      ids.map((id, index) => ({
+        updateOne: {
+          filter: { _id: id, user: req.user._id },
+          update: { $set: { order: index } },
+        },
+      }))
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Highlights reordered successfully',
+    });
+  } catch (error) {
+    console.error('Error in reorderHighlights:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Delete a highlight; its stories stay in the archive
+// @route   DELETE /api/stories/highlights/:highlightId
+// @access  Private
+export const deleteHighlight = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.highlightId)) {
+      return res.status(404).json({ success: false, message: 'Highlight not found' });
+    }
+
+    const result = await Highlight.deleteOne({ _id: req.params.highlightId, user: req.user._id });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Highlight not found' });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Highlight deleted successfully',
+    });
+  } catch (error) {
+    console.error(`Error in deleteHighlight for highlight ${req.params.highlightId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
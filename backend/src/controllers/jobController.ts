@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { listJobs, triggerJob } from '../services/jobRunner';
+
+// @desc    List background jobs with their schedule and last outcome
+// @route   GET /api/admin/jobs
+// @access  Private (admin only)
+export const getJobs = async (req: Request, res: Response) => {
+  try {
+    const jobs = await listJobs();
+
+    res.status(200).json({
+      success: true,
+      count: jobs.length,
+      data: jobs,
+    });
+  } catch (error) {
+    console.error('Error in getJobs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Make a job due now instead of waiting for its next run
+// @route   POST /api/admin/jobs/:name/run
+// @access  Private (admin only)
+export const runJob = async (req: Request, res: Response) => {
+  try {
+    const job = await triggerJob(req.params.name);
+
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Job not found' });
+    }
+
+    // The runner picks the job up on its next tick, unless another run holds it
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error(`Error in runJob for job ${req.params.name}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
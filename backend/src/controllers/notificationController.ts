@@ -16,7 +16,7 @@ export const getUserNotifications = async (req: Request, res: Response) => {
       .limit(limit)
       .populate('sender', '_id username name profilePicture')
       .populate('post', '_id content images')
-      .populate('comment', '_id content');
+      .populate('comment', '_id text');
 
     // Get unread count
     const unreadCount = await Notification.countDocuments({
@@ -83,7 +83,7 @@ export const markAllNotificationsAsRead = async (req: Request, res: Response) =>
 export const createNotification = async (
   recipientId: string,
   senderId: string,
-  type: 'like' | 'comment' | 'follow' | 'friendRequest',
+  type: 'like' | 'comment' | 'follow' | 'friendRequest' | 'mention' | 'repost' | 'postPublished',
   postId?: string,
   commentId?: string
 ) => {
@@ -1,10 +1,59 @@
 import { Request, Response } from 'express';
-import Post from '../models/Post';
+import Post, { IPost } from '../models/Post';
 import User from '../models/User';
-import cloudinary from '../config/cloudinary';
+import cloudinary, { uploadToCloudinary, deleteFromCloudinary } from '../config/cloudinary';
+import Comment from '../models/Comment';
+import Notification from '../models/Notification';
+import SavedItem from '../models/SavedItem';
 import fs from 'fs';
 import path from 'path';
 import mongoose from 'mongoose';
+import { createNotification } from './notificationController';
+import { buildVisibilityFilter, isPostVisibility } from '../utils/postVisibility';
+import { decodeCursor, keysetFilter, keysetSort, paginate, parseLimit } from '../utils/pagination';
+import { extractHashtags } from '../utils/textEntities';
+import { toArray } from '../utils/multipart';
+import {
+  MAX_POST_IMAGES,
+  postImageFolder,
+  resolveMentions,
+  notifyMentions,
+  publishPost,
+} from '../services/postService';
+import { parsePollInput, isPollOpen, summarizePoll } from '../utils/polls';
+
+// Shape a post for the client: poll votes are replaced by aggregated results
+const toClientPost = (post: IPost, viewerId?: mongoose.Types.ObjectId) => {
+  const data = post.toObject();
+  return post.poll ? { ...data, poll: summarizePoll(post.poll, viewerId) } : data;
+};
+
+// Format posts for a response, embedding the original post in each repost.
+// Originals that were deleted or that the viewer can no longer see come back
+// as null with repostUnavailable set.
+const formatPosts = async (posts: IPost[], viewer?: Request['user']) => {
+  const viewerId = viewer?._id;
+  const originalIds = posts.filter(post => post.repostOf).map(post => post.repostOf);
+
+  const originals = originalIds.length > 0
+    ? await Post.find({ $and: [{ _id: { $in: originalIds } }, await buildVisibilityFilter(viewer)] })
+        .populate('user', '_id name username profilePicture')
+        .populate('mentions', '_id username')
+    : [];
+  const originalsById = new Map(
+    originals.map(original => [original._id.toString(), toClientPost(original, viewerId)])
+  );
+
+  return posts.map(post => {
+    const data = toClientPost(post, viewerId);
+    if (!post.repostOf) {
+      return data;
+    }
+
+    const original = originalsById.get(post.repostOf.toString()) || null;
+    return { ...data, repostOf: original, repostUnavailable: !original };
+  });
+};
 
 // Create a new post with images
 export const createPost = async (req: Request, res: Response) => {
@@ -13,7 +62,7 @@ export const createPost = async (req: Request, res: Response) => {
     console.log('Request body:', req.body);
     console.log('Files:', req.files || req.file || 'No files');
     
-    const { description, mood } = req.body;
+    const { description, mood, visibility } = req.body;
     
     // Check if user is in request object (set by auth middleware)
     if (!req.user || !req.user._id) {
@@ -31,6 +80,19 @@ export const createPost = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    if (visibility !== undefined && !isPostVisibility(visibility)) {
+      return res.status(400).json({ message: 'Invalid post visibility' });
+    }
+
+    let poll;
+    if (req.body.poll) {
+      const parsed = parsePollInput(req.body.poll);
+      if (parsed.error) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      poll = parsed.poll;
+    }
+
     // Handle image uploads if files exist
     let imageUrls: string[] = [];
     
@@ -117,7 +179,7 @@ export const createPost = async (req: Request, res: Response) => {
           imageUrl = await new Promise<string>((resolve, reject) => {
             const uploadStream = cloudinary.uploader.upload_stream(
               {
-                folder: 'social-app/posts',
+                folder: `social-app/posts/${userId}`,
                 resource_type: 'auto',
               },
               (error, result) => {
@@ -142,7 +204,7 @@ export const createPost = async (req: Request, res: Response) => {
         } else if (req.file && req.file.path) {
           // Upload from file path
           const result = await cloudinary.uploader.upload(req.file.path, {
-            folder: 'social-app/posts',
+            folder: `social-app/posts/${userId}`,
           });
           
           console.log('File uploaded successfully:', result.secure_url);
@@ -174,26 +236,20 @@ export const createPost = async (req: Request, res: Response) => {
       imageCount: imageUrls.length
     });
     
-    const newPost = new Post({
-      user: userId,
+    // Save the post, add it to the user's posts and notify mentions
+    const savedPost = await publishPost({
+      userId,
       description,
       mood,
       images: imageUrls,
+      visibility,
+      poll,
     });
-
-    // Save post to database
-    const savedPost = await newPost.save();
     console.log('Post saved successfully, ID:', savedPost._id);
 
-    // Add post to user's posts
-    await User.findByIdAndUpdate(userId, {
-      $push: { posts: savedPost._id },
-    });
-    console.log('Post added to user document');
-
     res.status(201).json({
       success: true,
-      data: savedPost,
+      data: toClientPost(savedPost, userId),
     });
   } catch (error) {
     console.error('Create post error:', error);
@@ -210,17 +266,23 @@ export const getAllPosts = async (req: Request, res: Response) => {
   try {
     // console.log('Getting all posts');
     
+    // Optionally restrict to one author, e.g. for profile grids
+    const authorFilter = typeof req.query.user === 'string' && mongoose.Types.ObjectId.isValid(req.query.user)
+      ? { user: req.query.user }
+      : {};
+
     // First try without comments population to avoid issues
-    const posts = await Post.find()
+    const posts = await Post.find({ $and: [authorFilter, await buildVisibilityFilter(req.user)] })
       .sort({ createdAt: -1 })
-      .populate('user', '_id name username profilePicture');
+      .populate('user', '_id name username profilePicture')
+      .populate('mentions', '_id username');
       
     // console.log(`Found ${posts.length} posts`);
     
     res.status(200).json({
       success: true,
       count: posts.length,
-      data: posts,
+      data: await formatPosts(posts, req.user),
     });
   } catch (error) {
     console.error('Error in getAllPosts:', error);
@@ -232,14 +294,106 @@ export const getAllPosts = async (req: Request, res: Response) => {
   }
 };
 
+// Get the viewer's home feed: posts from followed users and their own posts
+export const getFeed = async (req: Request, res: Response) => {
+  try {
+    const viewer = req.user;
+    const limit = parseLimit(req.query.limit, 10);
+    const cursor = decodeCursor(req.query.cursor);
+
+    // Blocked authors are excluded by the visibility filter
+    const posts = await Post.find({
+      $and: [
+        { user: { $in: [...viewer.following, viewer._id] } },
+        await buildVisibilityFilter(viewer),
+        keysetFilter(cursor, 'desc'),
+      ],
+    })
+      .sort(keysetSort('desc'))
+      .limit(limit + 1)
+      .populate('user', '_id name username profilePicture')
+      .populate('mentions', '_id username');
+
+    const page = paginate(posts, limit);
+
+    // Flag the posts the viewer has saved so the feed can render the bookmark state
+    const savedIds = new Set(
+      (
+        await SavedItem.find({ user: viewer._id, post: { $in: page.data.map(post => post._id) } }).distinct('post')
+      ).map(id => id.toString())
+    );
+
+    res.status(200).json({
+      success: true,
+      count: page.data.length,
+      data: (await formatPosts(page.data, viewer)).map(post => ({
+        ...post,
+        saved: savedIds.has(post._id.toString()),
+      })),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    });
+  } catch (error) {
+    console.error('Error in getFeed:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// Get posts carrying a hashtag
+export const getPostsByTag = async (req: Request, res: Response) => {
+  try {
+    const tag = req.params.tag.replace(/^#/, '').toLowerCase();
+    const limit = parseLimit(req.query.limit, 10);
+    const cursor = decodeCursor(req.query.cursor);
+
+    const posts = await Post.find({
+      $and: [
+        { hashtags: tag },
+        await buildVisibilityFilter(req.user),
+        keysetFilter(cursor, 'desc'),
+      ],
+    })
+      .sort(keysetSort('desc'))
+      .limit(limit + 1)
+      .populate('user', '_id name username profilePicture')
+      .populate('mentions', '_id username');
+
+    const page = paginate(posts, limit);
+
+    res.status(200).json({
+      success: true,
+      tag,
+      count: page.data.length,
+      data: await formatPosts(page.data, req.user),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    });
+  } catch (error) {
+    console.error(`Error in getPostsByTag for tag ${req.params.tag}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
 // Get a single post
 export const getPostById = async (req: Request, res: Response) => {
   try {
     // console.log(`Getting post with ID: ${req.params.id}`);
     
     // First try without comments population to avoid issues
-    const post = await Post.findById(req.params.id)
-      .populate('user', '_id name username profilePicture');
+    // Posts the viewer may not see are reported as missing
+    const post = await Post.findOne({
+      $and: [{ _id: req.params.id }, await buildVisibilityFilter(req.user)],
+    })
+      .populate('user', '_id name username profilePicture')
+      .populate('mentions', '_id username');
 
     if (!post) {
       // console.log(`Post with ID ${req.params.id} not found`);
@@ -250,10 +404,12 @@ export const getPostById = async (req: Request, res: Response) => {
     }
 
     // console.log(`Successfully retrieved post: ${post._id}`);
-    
+
+    const [data] = await formatPosts([post], req.user);
+
     res.status(200).json({
       success: true,
-      data: post,
+      data,
     });
   } catch (error) {
     console.error(`Error in getPostById for ID ${req.params.id}:`, error);
@@ -263,4 +419,450 @@ export const getPostById = async (req: Request, res: Response) => {
       error: error instanceof Error ? error.message : 'An unknown error occurred',
     });
   }
-}; 
\ No newline at end of file
+}; 
+
+// Update a post's description, mood and images (author only)
+export const updatePost = async (req: Request, res: Response) => {
+  try {
+    const post = await Post.findById(req.params.id);
+
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found',
+      });
+    }
+
+    if (post.user.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to edit this post',
+      });
+    }
+
+    const { description, mood, visibility } = req.body;
+    const removeImages = toArray(req.body.removeImages);
+    const files = Array.isArray(req.files) ? req.files : [];
+
+    if (description !== undefined && !String(description).trim() && !post.repostOf) {
+      return res.status(400).json({
+        success: false,
+        message: 'Description cannot be empty',
+      });
+    }
+
+    if (visibility !== undefined && !isPostVisibility(visibility)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid post visibility',
+      });
+    }
+
+    const keptImages = post.images.filter(url => !removeImages.includes(url));
+    if (keptImages.length + files.length > MAX_POST_IMAGES) {
+      return res.status(400).json({
+        success: false,
+        message: `A post can have at most ${MAX_POST_IMAGES} images`,
+      });
+    }
+
+    const folder = postImageFolder(post.user);
+    const uploaded = await Promise.all(
+      files.map(file => uploadToCloudinary(file.buffer, { folder, resource_type: 'auto' }))
+    );
+
+    // Only users who were not already mentioned get a new notification
+    let newMentions: mongoose.Types.ObjectId[] = [];
+    if (description !== undefined) {
+      const mentions = await resolveMentions(description);
+      newMentions = mentions.filter(id => !post.mentions.some(existing => existing.equals(id)));
+
+      post.description = description;
+      post.hashtags = extractHashtags(description);
+      post.mentions = mentions;
+    }
+    if (mood !== undefined) post.mood = mood || undefined;
+    if (visibility !== undefined) post.visibility = visibility;
+    post.images = [...keptImages, ...uploaded.map(result => result.secure_url)];
+    post.editedAt = new Date();
+
+    const savedPost = await post.save();
+
+    await notifyMentions(newMentions, savedPost.user, savedPost._id);
+
+    // Only destroy removed assets once the post no longer references them
+    await deleteFromCloudinary(
+      removeImages.filter(url => !savedPost.images.includes(url)),
+      folder
+    );
+
+    await savedPost.populate([
+      { path: 'user', select: '_id name username profilePicture' },
+      { path: 'mentions', select: '_id username' },
+    ]);
+
+    const [data] = await formatPosts([savedPost], req.user);
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error(`Error in updatePost for ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// Delete a post with its comments, notifications and uploaded images (author only)
+export const deletePost = async (req: Request, res: Response) => {
+  try {
+    const post = await Post.findById(req.params.id);
+
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found',
+      });
+    }
+
+    if (post.user.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to delete this post',
+      });
+    }
+
+    await Promise.all([
+      Comment.deleteMany({ post: post._id }),
+      Notification.deleteMany({ post: post._id }),
+      SavedItem.deleteMany({ post: post._id }),
+      User.findByIdAndUpdate(post.user, { $pull: { posts: post._id } }),
+    ]);
+    await Post.findByIdAndDelete(post._id);
+
+    await deleteFromCloudinary(post.images, postImageFolder(post.user));
+
+    res.status(200).json({
+      success: true,
+      message: 'Post deleted successfully',
+    });
+  } catch (error) {
+    console.error(`Error in deletePost for ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// Like a post
+export const likePost = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found',
+      });
+    }
+
+    // $addToSet keeps the endpoint idempotent when the user already liked the post
+    const visibilityFilter = await buildVisibilityFilter(req.user);
+
+    const post = await Post.findOneAndUpdate(
+      { $and: [{ _id: req.params.id, likes: { $ne: userId } }, visibilityFilter] },
+      { $addToSet: { likes: userId } },
+      { new: true }
+    );
+
+    if (!post) {
+      const existingPost = await Post.findOne({ $and: [{ _id: req.params.id }, visibilityFilter] });
+
+      if (!existingPost) {
+        return res.status(404).json({
+          success: false,
+          message: 'Post not found',
+        });
+      }
+
+      // Already liked - report the current state without notifying again
+      return res.status(200).json({
+        success: true,
+        data: {
+          liked: true,
+          likesCount: existingPost.likes.length,
+        },
+      });
+    }
+
+    // Notify the post author, but never about their own likes
+    if (post.user.toString() !== userId.toString()) {
+      await createNotification(
+        post.user.toString(),
+        userId.toString(),
+        'like',
+        post._id.toString()
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        liked: true,
+        likesCount: post.likes.length,
+      },
+    });
+  } catch (error) {
+    console.error(`Error in likePost for ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// Unlike a post
+export const unlikePost = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found',
+      });
+    }
+
+    // Posts the user can no longer see are not found, as for likePost
+    const post = await Post.findOneAndUpdate(
+      { $and: [{ _id: req.params.id }, await buildVisibilityFilter(req.user)] },
+      { $pull: { likes: req.user._id } },
+      { new: true }
+    );
+
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        liked: false,
+        likesCount: post.likes.length,
+      },
+    });
+  } catch (error) {
+    console.error(`Error in unlikePost for ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// Repost a post, optionally with quote text
+export const repostPost = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+    const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+    const { visibility } = req.body;
+
+    if (visibility !== undefined && !isPostVisibility(visibility)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid post visibility',
+      });
+    }
+
+    const visibilityFilter = await buildVisibilityFilter(req.user);
+    const target = await Post.findOne({ $and: [{ _id: req.params.id }, visibilityFilter] });
+
+    // Reposting a plain repost shares the post it points to
+    const original = target && target.repostOf && !target.description
+      ? await Post.findOne({ $and: [{ _id: target.repostOf }, visibilityFilter] })
+      : target;
+
+    if (!original) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found',
+      });
+    }
+
+    if (!text && (await Post.exists({ user: userId, repostOf: original._id, description: '' }))) {
+      return res.status(400).json({
+        success: false,
+        message: 'You have already reposted this post',
+      });
+    }
+
+    const mentions = await resolveMentions(text);
+
+    const repost = await Post.create({
+      user: userId,
+      description: text,
+      repostOf: original._id,
+      visibility: visibility || 'public',
+      hashtags: extractHashtags(text),
+      mentions,
+    });
+
+    await User.findByIdAndUpdate(userId, { $push: { posts: repost._id } });
+
+    if (!original.user.equals(userId)) {
+      await createNotification(
+        original.user.toString(),
+        userId.toString(),
+        'repost',
+        repost._id.toString()
+      );
+    }
+    await notifyMentions(mentions, userId, repost._id);
+
+    await repost.populate([
+      { path: 'user', select: '_id name username profilePicture' },
+      { path: 'mentions', select: '_id username' },
+    ]);
+
+    const [data] = await formatPosts([repost], req.user);
+
+    res.status(201).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error(`Error in repostPost for ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// Undo the viewer's plain repost of a post (quote posts are deleted like any other post)
+export const undoRepost = async (req: Request, res: Response) => {
+  try {
+    const repost = await Post.findOne({
+      user: req.user._id,
+      repostOf: req.params.id,
+      description: '',
+    });
+
+    if (!repost) {
+      return res.status(404).json({
+        success: false,
+        message: 'Repost not found',
+      });
+    }
+
+    await Promise.all([
+      Comment.deleteMany({ post: repost._id }),
+      Notification.deleteMany({ post: repost._id }),
+      SavedItem.deleteMany({ post: repost._id }),
+      User.findByIdAndUpdate(repost.user, { $pull: { posts: repost._id } }),
+    ]);
+    await Post.findByIdAndDelete(repost._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deletedId: repost._id,
+      },
+    });
+  } catch (error) {
+    console.error(`Error in undoRepost for ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// Vote in a post's poll, or change the vote while the poll is open
+export const votePoll = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+    const option = Number(req.body.option);
+
+    const post = await Post.findOne({
+      $and: [{ _id: req.params.id }, await buildVisibilityFilter(req.user)],
+    });
+
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found',
+      });
+    }
+
+    if (!post.poll) {
+      return res.status(400).json({
+        success: false,
+        message: 'This post has no poll',
+      });
+    }
+
+    if (!Number.isInteger(option) || option < 0 || option >= post.poll.options.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid poll option',
+      });
+    }
+
+    if (!isPollOpen(post.poll)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This poll is closed',
+      });
+    }
+
+    // Both updates re-check the close time so a vote cannot land after the poll closes
+    const stillOpen = { $or: [{ 'poll.closesAt': null }, { 'poll.closesAt': { $gt: new Date() } }] };
+
+    // Change an existing vote in place, otherwise add one. The $ne guard keeps
+    // concurrent first votes from the same user down to a single entry.
+    let updated = await Post.findOneAndUpdate(
+      { _id: post._id, 'poll.votes.user': userId, ...stillOpen },
+      { $set: { 'poll.votes.$.option': option } },
+      { new: true }
+    );
+
+    if (!updated) {
+      updated = await Post.findOneAndUpdate(
+        { _id: post._id, 'poll.votes.user': { $ne: userId }, ...stillOpen },
+        { $push: { 'poll.votes': { user: userId, option } } },
+        { new: true }
+      );
+    }
+
+    if (!updated || !updated.poll) {
+      return res.status(409).json({
+        success: false,
+        message: 'Your vote could not be recorded, please try again',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: summarizePoll(updated.poll, userId),
+    });
+  } catch (error) {
+    console.error(`Error in votePoll for ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
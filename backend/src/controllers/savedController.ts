@@ -0,0 +1,337 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Collection from '../models/Collection';
+import SavedItem from '../models/SavedItem';
+import Post from '../models/Post';
+import { buildVisibilityFilter } from '../utils/postVisibility';
+import { summarizePoll } from '../utils/polls';
+import { decodeCursor, keysetFilter, keysetSort, paginate, parseLimit } from '../utils/pagination';
+
+const USER_FIELDS = '_id name username profilePicture';
+
+/**
+ * Resolve a client-supplied collection id to one of the user's collections.
+ * Empty values mean "no collection".
+ * @returns The collection id, null for no collection, or undefined if it is not the user's
+ */
+const resolveCollectionId = async (
+  userId: mongoose.Types.ObjectId,
+  collectionId: unknown
+): Promise<mongoose.Types.ObjectId | null | undefined> => {
+  if (collectionId === undefined || collectionId === null || collectionId === '') {
+    return null;
+  }
+
+  if (typeof collectionId !== 'string' || !mongoose.Types.ObjectId.isValid(collectionId)) {
+    return undefined;
+  }
+
+  const collection = await Collection.findOne({ _id: collectionId, user: userId }).select('_id');
+  return collection ? collection._id : undefined;
+};
+
+// @desc    List saved posts, newest first, optionally within one collection
+// @route   GET /api/users/me/saved?collection=&cursor=&limit=
+// @access  Private
+export const getSavedPosts = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+    const filter: Record<string, unknown> = { user: userId };
+
+    if (req.query.collection !== undefined) {
+      // 'none' lists posts that were saved without a collection
+      if (req.query.collection === 'none') {
+        filter.collectionId = null;
+      } else {
+        const collectionId = await resolveCollectionId(userId, req.query.collection);
+        if (!collectionId) {
+          return res.status(404).json({ success: false, message: 'Collection not found' });
+        }
+        filter.collectionId = collectionId;
+      }
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const cursor = decodeCursor(req.query.cursor);
+
+    const items = await SavedItem.find({ ...filter, ...keysetFilter(cursor) })
+      .sort(keysetSort())
+      .limit(limit + 1)
+      .populate({
+        path: 'post',
+        match: await buildVisibilityFilter(req.user),
+        populate: [
+          { path: 'user', select: USER_FIELDS },
+          { path: 'mentions', select: '_id username' },
+        ],
+      })
+      .lean();
+
+    const page = paginate(items, limit);
+
+    res.status(200).json({
+      success: true,
+      // Posts that were deleted or are no longer visible to the user are left out
+      data: page.data
+        .filter(item => item.post)
+        .map(item => {
+          const post = item.post as any;
+          return post.poll ? { ...item, post: { ...post, poll: summarizePoll(post.poll, userId) } } : item;
+        }),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    });
+  } catch (error) {
+    console.error('Error in getSavedPosts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Save a post, optionally into a collection
+// @route   POST /api/users/me/saved
+// @access  Private
+export const savePost = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+    const { postId } = req.body;
+
+    if (
+      !postId ||
+      !mongoose.Types.ObjectId.isValid(postId) ||
+      !(await Post.exists({ $and: [{ _id: postId }, await buildVisibilityFilter(req.user)] }))
+    ) {
+      return res.status(404).json({ success: false, message: 'Post not found' });
+    }
+
+    const collectionId = await resolveCollectionId(userId, req.body.collectionId);
+    if (collectionId === undefined) {
+      return res.status(404).json({ success: false, message: 'Collection not found' });
+    }
+
+    // Saving an already saved post just moves it to the requested collection
+    const savedItem = await SavedItem.findOneAndUpdate(
+      { user: userId, post: postId },
+      { $set: { collectionId } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: savedItem,
+    });
+  } catch (error) {
+    console.error('Error in savePost:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Move a saved post to another collection (null for none)
+// @route   PUT /api/users/me/saved/:postId
+// @access  Private
+export const moveSavedPost = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+
+    const collectionId = await resolveCollectionId(userId, req.body.collectionId);
+    if (collectionId === undefined) {
+      return res.status(404).json({ success: false, message: 'Collection not found' });
+    }
+
+    const savedItem = await SavedItem.findOneAndUpdate(
+      { user: userId, post: req.params.postId },
+      { $set: { collectionId } },
+      { new: true }
+    );
+
+    if (!savedItem) {
+      return res.status(404).json({ success: false, message: 'Saved post not found' });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: savedItem,
+    });
+  } catch (error) {
+    console.error(`Error in moveSavedPost for post ${req.params.postId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Remove a post from saved
+// @route   DELETE /api/users/me/saved/:postId
+// @access  Private
+export const unsavePost = async (req: Request, res: Response) => {
+  try {
+    const result = await SavedItem.deleteOne({
+      user: req.user._id,
+      post: req.params.postId,
+    });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ success: false, message: 'Saved post not found' });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { postId: req.params.postId },
+    });
+  } catch (error) {
+    console.error(`Error in unsavePost for post ${req.params.postId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    List the user's collections with their item counts
+// @route   GET /api/users/me/saved/collections
+// @access  Private
+export const getCollections = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user._id;
+
+    const [collections, counts] = await Promise.all([
+      Collection.find({ user: userId }).sort({ name: 1 }).lean(),
+      SavedItem.aggregate([
+        { $match: { user: userId } },
+        { $group: { _id: '$collectionId', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const countByCollection = new Map<string, number>(
+      counts.map(entry => [entry._id ? entry._id.toString() : 'none', entry.count])
+    );
+
+    res.status(200).json({
+      success: true,
+      data: collections.map(collection => ({
+        ...collection,
+        itemsCount: countByCollection.get(collection._id.toString()) || 0,
+      })),
+      unsortedCount: countByCollection.get('none') || 0,
+    });
+  } catch (error) {
+    console.error('Error in getCollections:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Create a collection
+// @route   POST /api/users/me/saved/collections
+// @access  Private
+export const createCollection = async (req: Request, res: Response) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (!name) {
+      return res.status(400).json({ success: false, message: 'Collection name is required' });
+    }
+
+    if (await Collection.exists({ user: req.user._id, name })) {
+      return res.status(400).json({ success: false, message: 'A collection with this name already exists' });
+    }
+
+    const collection = await Collection.create({ user: req.user._id, name });
+
+    res.status(201).json({
+      success: true,
+      data: collection,
+    });
+  } catch (error) {
+    console.error('Error in createCollection:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Rename a collection
+// @route   PUT /api/users/me/saved/collections/:collectionId
+// @access  Private
+export const renameCollection = async (req: Request, res: Response) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (!name) {
+      return res.status(400).json({ success: false, message: 'Collection name is required' });
+    }
+
+    const collection = await Collection.findOne({ _id: req.params.collectionId, user: req.user._id });
+    if (!collection) {
+      return res.status(404).json({ success: false, message: 'Collection not found' });
+    }
+
+    if (await Collection.exists({ user: req.user._id, name, _id: { $ne: collection._id } })) {
+      return res.status(400).json({ success: false, message: 'A collection with this name already exists' });
+    }
+
+    collection.name = name;
+    await collection.save();
+
+    res.status(200).json({
+      success: true,
+      data: collection,
+    });
+  } catch (error) {
+    console.error(`Error in renameCollection for collection ${req.params.collectionId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
+
+// @desc    Delete a collection; its posts stay saved without a collection
+// @route   DELETE /api/users/me/saved/collections/:collectionId
+// @access  Private
+export const deleteCollection = async (req: Request, res: Response) => {
+  try {
+    const collection = await Collection.findOne({
+      _id: req.params.collectionId,
+      user: req.user._id,
+    });
+
+    if (!collection) {
+      return res.status(404).json({ success: false, message: 'Collection not found' });
+    }
+
+    await collection.deleteOne();
+    await SavedItem.updateMany(
+      { user: req.user._id, collectionId: collection._id },
+      { $set: { collectionId: null } }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { collectionId: collection._id },
+    });
+  } catch (error) {
+    console.error(`Error in deleteCollection for collection ${req.params.collectionId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error',
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    });
+  }
+};
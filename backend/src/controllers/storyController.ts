@@ -1,28 +1,65 @@
 import { Request, Response } from 'express';
 import Story from '../models/Story';
 import User from '../models/User';
-import { validationResult } from 'express-validator';
+import Highlight from '../models/Highlight';
 import mongoose from 'mongoose';
+import * as messageService from '../services/messageService';
+import { storyMediaFolder } from '../services/storyService';
+import { canSeeStoriesBy, canSeeStory, buildStoryAudienceFilter, isStoryAudience } from '../utils/storyAudience';
+import { decodeCursor, keysetFilter, keysetSort, parseLimit, paginate } from '../utils/pagination';
+import { uploadToCloudinary, deleteFromCloudinary } from '../config/cloudinary';
+import {
+  STORY_IMAGE_TYPES,
+  STORY_VIDEO_TYPES,
+  STORY_IMAGE_MAX_SIZE,
+  STORY_VIDEO_MAX_SIZE,
+} from '../middleware/upload';
 
-// @desc    Create a new story
+const STORY_REPLY_MAX_LENGTH = 1000;
+
+// @desc    Create a new story from an uploaded image or video
 // @route   POST /api/stories
 // @access  Private
 export const createStory = async (req: Request, res: Response) => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    return res.status(400).json({ errors: errors.array() });
-  }
-
   try {
-    const { mediaUrl, mediaType } = req.body;
+    const file = req.file;
+
+    // The upload middleware drops files of an unsupported type
+    if (!file) {
+      return res.status(400).json({
+        message: 'A story needs an image (JPEG, PNG, GIF, WebP) or a video (MP4, MOV)',
+      });
+    }
+
+    const audience = req.body.audience || 'followers';
+    if (!isStoryAudience(audience)) {
+      return res.status(400).json({ message: 'Story audience must be followers or closeFriends' });
+    }
+
+    const mediaType = STORY_VIDEO_TYPES.includes(file.mimetype) ? 'video' : 'image';
+
+    if (mediaType === 'image' && (!STORY_IMAGE_TYPES.includes(file.mimetype) || file.size > STORY_IMAGE_MAX_SIZE)) {
+      return res.status(400).json({ message: 'Story images must be 5MB or smaller' });
+    }
+
+    if (mediaType === 'video' && file.size > STORY_VIDEO_MAX_SIZE) {
+      return res.status(400).json({ message: 'Story videos must be 50MB or smaller' });
+    }
+
+    const result = await uploadToCloudinary(file.buffer, {
+      folder: storyMediaFolder(req.user._id),
+      resource_type: mediaType,
+    });
 
     const newStory = new Story({
       user: req.user._id,
-      mediaUrl,
+      mediaUrl: result.secure_url,
       mediaType,
+      audience,
     });
 
     const savedStory = await newStory.save();
+    await savedStory.populate('user', '_id username name profilePicture');
 
     res.status(201).json(savedStory);
   } catch (error) {
@@ -36,33 +73,58 @@ export const createStory = async (req: Request, res: Response) => {
 // @access  Private
 export const getStories = async (req: Request, res: Response) => {
   try {
-    // Get followed users
-    const followingUsers = req.user.following;
-    // Include user's own stories
-    followingUsers.push(req.user._id);
+    const viewerId = req.user._id.toString();
+    const authorIds = [...req.user.following, req.user._id];
 
-    // Find stories from followed users that haven't expired
+    // Find stories from followed users that haven't expired, oldest first so
+    // each user's stories play in the order they were posted. Close-friends
+    // stories only reach people on the author's list.
     const stories = await Story.find({
-      user: { $in: followingUsers },
+      user: { $in: authorIds },
       expiresAt: { $gt: new Date() },
+      ...(await buildStoryAudienceFilter(req.user)),
     })
-      .sort({ createdAt: -1 })
+      .sort({ createdAt: 1 })
       .populate('user', '_id username name profilePicture');
 
-    // Group stories by user
-    const userStories = stories.reduce((acc: any, story) => {
+    // Group stories by user. The author sees how many people watched each
+    // story; everyone else learns whether they have seen it. Groups holding a
+    // close-friends story are flagged so the tray can draw a distinct ring.
+    const userStories = stories.reduce((acc: Record<string, any>, story) => {
       const userId = story.user._id.toString();
+      const isOwn = userId === viewerId;
+      const viewed = story.viewers.some(view => view.user.toString() === viewerId);
+      const closeFriends = story.audience === 'closeFriends';
+
       if (!acc[userId]) {
         acc[userId] = {
           user: story.user,
+          isOwn,
           stories: [],
+          allViewed: true,
+          closeFriends: false,
+          latestAt: story.createdAt,
         };
       }
-      acc[userId].stories.push(story);
+
+      const { viewers, ...storyData } = story.toObject();
+      acc[userId].stories.push(
+        isOwn ? { ...storyData, viewerCount: viewers.length, viewed, closeFriends } : { ...storyData, viewed, closeFriends }
+      );
+      acc[userId].allViewed = acc[userId].allViewed && (isOwn || viewed);
+      acc[userId].closeFriends = acc[userId].closeFriends || closeFriends;
+      acc[userId].latestAt = story.createdAt;
       return acc;
     }, {});
 
-    res.json(Object.values(userStories));
+    // The viewer's own stories come first, then unseen trays, newest activity first
+    const groups = Object.values(userStories).sort((a: any, b: any) => {
+      if (a.isOwn !== b.isOwn) return a.isOwn ? -1 : 1;
+      if (a.allViewed !== b.allViewed) return a.allViewed ? 1 : -1;
+      return b.latestAt.getTime() - a.latestAt.getTime();
+    });
+
+    res.json(groups);
   } catch (error) {
     console.error('Get stories error:', error);
     res.status(500).json({ message: 'Server error' });
@@ -76,12 +138,18 @@ export const getUserStories = async (req: Request, res: Response) => {
   try {
     const userId = req.params.userId;
 
+    if (!mongoose.Types.ObjectId.isValid(userId) || !canSeeStoriesBy(new mongoose.Types.ObjectId(userId), req.user)) {
+      return res.status(404).json({ message: 'No stories found for this user' });
+    }
+
     // Find user's stories that haven't expired
     const stories = await Story.find({
       user: userId,
       expiresAt: { $gt: new Date() },
+      ...(await buildStoryAudienceFilter(req.user)),
     })
       .sort({ createdAt: -1 })
+      .select(userId === req.user._id.toString() ? '' : '-viewers')
       .populate('user', '_id username name profilePicture');
 
     if (stories.length === 0) {
@@ -95,6 +163,37 @@ export const getUserStories = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Get all of the current user's stories, including expired ones
+// @route   GET /api/stories/archive?cursor=&limit=
+// @access  Private
+export const getStoryArchive = async (req: Request, res: Response) => {
+  try {
+    const limit = parseLimit(req.query.limit, 30, 60);
+    const cursor = decodeCursor(req.query.cursor);
+
+    const stories = await Story.find({
+      user: req.user._id,
+      ...keysetFilter(cursor),
+    })
+      .sort(keysetSort())
+      .limit(limit + 1)
+      .lean();
+
+    const page = paginate(stories, limit);
+
+    res.status(200).json({
+      success: true,
+      count: page.data.length,
+      data: page.data.map(({ viewers, ...story }) => ({ ...story, viewerCount: viewers.length })),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    });
+  } catch (error) {
+    console.error('Get story archive error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 // @desc    View a story (add current user to viewers)
 // @route   PUT /api/stories/:id/view
 // @access  Private
@@ -102,7 +201,7 @@ export const viewStory = async (req: Request, res: Response) => {
   try {
     const story = await Story.findById(req.params.id);
 
-    if (!story) {
+    if (!story || !(await canSeeStory(story, req.user))) {
       return res.status(404).json({ message: 'Story not found' });
     }
 
@@ -111,10 +210,12 @@ export const viewStory = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Story has expired' });
     }
 
-    // Check if user already viewed the story
-    if (!story.viewers.some((viewerId: mongoose.Types.ObjectId) => viewerId.equals(req.user._id))) {
-      story.viewers.push(req.user._id);
-      await story.save();
+    // Record the first view only; the author's own views are not counted
+    if (!story.user.equals(req.user._id)) {
+      await Story.updateOne(
+        { _id: story._id, 'viewers.user': { $ne: req.user._id } },
+        { $push: { viewers: { user: req.user._id, viewedAt: new Date() } } }
+      );
     }
 
     res.json({ message: 'Story viewed successfully' });
@@ -124,6 +225,107 @@ export const viewStory = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Get who viewed a story, most recent first
+// @route   GET /api/stories/:id/viewers
+// @access  Private (story owner only)
+export const getStoryViewers = async (req: Request, res: Response) => {
+  try {
+    const story = await Story.findById(req.params.id)
+      .populate('viewers.user', '_id username name profilePicture');
+
+    if (!story) {
+      return res.status(404).json({ message: 'Story not found' });
+    }
+
+    if (!story.user.equals(req.user._id)) {
+      return res.status(403).json({ message: 'Only the author can see who viewed this story' });
+    }
+
+    // Accounts deleted since viewing come back unpopulated
+    const viewers = story.viewers
+      .filter(view => view.user)
+      .sort((a, b) => b.viewedAt.getTime() - a.viewedAt.getTime());
+
+    res.json({ count: viewers.length, viewers });
+  } catch (error) {
+    console.error('Get story viewers error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// @desc    Reply to a story with a direct message to its author
+// @route   POST /api/stories/:id/reply
+// @access  Private
+export const replyToStory = async (req: Request, res: Response) => {
+  try {
+    const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+
+    if (!text) {
+      return res.status(400).json({ message: 'Reply text is required' });
+    }
+
+    if (text.length > STORY_REPLY_MAX_LENGTH) {
+      return res.status(400).json({ message: `Replies can be at most ${STORY_REPLY_MAX_LENGTH} characters` });
+    }
+
+    const story = await Story.findById(req.params.id);
+
+    if (!story || !(await canSeeStory(story, req.user))) {
+      return res.status(404).json({ message: 'Story not found' });
+    }
+
+    if (story.expiresAt < new Date()) {
+      return res.status(400).json({ message: 'Story has expired' });
+    }
+
+    if (story.user.equals(req.user._id)) {
+      return res.status(400).json({ message: 'You cannot reply to your own story' });
+    }
+
+    const author = await User.findById(story.user).select('_id username name profilePicture');
+    if (!author) {
+      return res.status(404).json({ message: 'Story not found' });
+    }
+
+    const senderId = req.user._id.toString();
+    const recipientId = author._id.toString();
+    const conversation = await messageService.getOrCreateConversation(senderId, recipientId);
+
+    if (!conversation || !conversation.id) {
+      return res.status(500).json({ message: 'Failed to create conversation' });
+    }
+
+    // The message keeps a copy of the story's media so the chat can show a
+    // thumbnail; clients hide it once the story has expired
+    const savedMessage = await messageService.sendMessage({
+      sender_id: senderId,
+      recipient_id: recipientId,
+      conversation_id: conversation.id,
+      text,
+      story_id: story._id.toString(),
+      story_media_url: story.mediaUrl,
+      story_media_type: story.mediaType,
+      story_expires_at: story.expiresAt.toISOString(),
+    });
+
+    res.status(201).json({
+      message: {
+        ...savedMessage,
+        sender: {
+          _id: req.user._id,
+          username: req.user.username,
+          name: req.user.name,
+          profilePicture: req.user.profilePicture,
+        },
+        recipient: author,
+      },
+    });
+  } catch (error: any) {
+    console.error('Reply to story error:', error);
+    res.status(500).json({ message: error.message || 'Server error' });
+  }
+};
+
 // @desc    Delete a story
 // @route   DELETE /api/stories/:id
 // @access  Private
@@ -142,6 +344,13 @@ export const deleteStory = async (req: Request, res: Response) => {
 
     await Story.findByIdAndDelete(req.params.id);
 
+    // Take the story out of any highlight; highlights left empty are removed
+    await Highlight.updateMany({ stories: story._id }, { $pull: { stories: story._id } });
+    await Highlight.updateMany({ coverStory: story._id }, { $set: { coverStory: null } });
+    await Highlight.deleteMany({ user: story.user, stories: { $size: 0 } });
+
+    await deleteFromCloudinary([story.mediaUrl], storyMediaFolder(story.user));
+
     res.json({ message: 'Story deleted successfully' });
   } catch (error) {
     console.error('Delete story error:', error);
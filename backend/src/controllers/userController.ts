@@ -12,8 +12,11 @@ import { CloudinaryUploadResult } from '../config/cloudinary';
 // @access  Private
 export const getUserProfile = async (req: Request, res: Response) => {
   try {
+    // Who a user has blocked or put on their close-friends list is only
+    // visible to that user
+    const isSelf = req.user._id.toString() === req.params.id;
     const user = await User.findById(req.params.id)
-      .select('-password')
+      .select(isSelf ? '-password' : '-password -blockedUsers -closeFriends')
       .populate('followers', '_id username name profilePicture')
       .populate('following', '_id username name profilePicture');
 
@@ -678,6 +681,15 @@ export const blockUser = async (req: Request, res: Response) => {
       (id: mongoose.Types.ObjectId) => !id.equals(req.user._id)
     );
 
+    // Neither user stays on the other's close-friends list
+    currentUser.closeFriends = currentUser.closeFriends.filter(
+      (id: mongoose.Types.ObjectId) => !id.equals(blockUserId)
+    );
+
+    userToBlock.closeFriends = userToBlock.closeFriends.filter(
+      (id: mongoose.Types.ObjectId) => !id.equals(req.user._id)
+    );
+
     // Also remove any pending friend requests
     currentUser.friendRequests = currentUser.friendRequests.filter(
       (id: mongoose.Types.ObjectId) => !id.equals(blockUserId)
@@ -763,4 +775,83 @@ export const getUserFollowing = async (req: Request, res: Response) => {
     console.error('Get user following error:', error);
     res.status(500).json({ message: 'Server error' });
   }
-}; 
\ No newline at end of file
+};
+
+// @desc    Get the current user's close friends
+// @route   GET /api/users/me/close-friends
+// @access  Private
+export const getCloseFriends = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.user._id)
+      .select('closeFriends')
+      .populate('closeFriends', '_id username name profilePicture');
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json({
+      success: true,
+      closeFriends: user.closeFriends
+    });
+  } catch (error) {
+    console.error('Get close friends error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// @desc    Add a user to the current user's close friends
+// @route   POST /api/users/me/close-friends/:userId
+// @access  Private
+export const addCloseFriend = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (req.user._id.toString() === userId) {
+      return res.status(400).json({ message: 'Cannot add yourself to close friends' });
+    }
+
+    const friend = await User.findById(userId).select('_id username name profilePicture');
+    if (!friend) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    await User.updateOne({ _id: req.user._id }, { $addToSet: { closeFriends: friend._id } });
+
+    res.json({
+      success: true,
+      message: 'Added to close friends',
+      user: friend
+    });
+  } catch (error) {
+    console.error('Add close friend error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// @desc    Remove a user from the current user's close friends
+// @route   DELETE /api/users/me/close-friends/:userId
+// @access  Private
+export const removeCloseFriend = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    await User.updateOne({ _id: req.user._id }, { $pull: { closeFriends: userId } });
+
+    res.json({
+      success: true,
+      message: 'Removed from close friends'
+    });
+  } catch (error) {
+    console.error('Remove close friend error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
\ No newline at end of file
@@ -41,4 +41,13 @@ export const auth = async (req: Request, res: Response, next: NextFunction) => {
     console.error('Authentication error:', error);
     res.status(401).json({ message: 'Token is not valid' });
   }
-}; 
\ No newline at end of file
+};
+
+// Use after auth on routes that only administrators may call
+export const adminOnly = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user?.isAdmin) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+
+  next();
+};
\ No newline at end of file
@@ -49,6 +49,92 @@ const upload = multer({
   },
 });
 
+// Media accepted for stories; per-type size limits are checked by the story controller
+export const STORY_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const STORY_VIDEO_TYPES = ['video/mp4', 'video/quicktime'];
+export const STORY_IMAGE_MAX_SIZE = 5 * 1024 * 1024; // 5MB
+export const STORY_VIDEO_MAX_SIZE = 50 * 1024 * 1024; // 50MB
+
+// File filter for stories: a single image or short video
+const storyFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (![...STORY_IMAGE_TYPES, ...STORY_VIDEO_TYPES].includes(file.mimetype)) {
+    console.error('Invalid story file type:', file.mimetype);
+    return cb(null, false);
+  }
+
+  cb(null, true);
+};
+
+// Multer instance for story uploads
+export const storyUpload = multer({
+  storage: storage,
+  fileFilter: storyFileFilter,
+  limits: {
+    fileSize: STORY_VIDEO_MAX_SIZE,
+    files: 1,
+  },
+});
+
+// Attachments accepted in chat, by kind. The multer limit below is the largest
+// of these; the chat controller checks each file against its own kind's limit.
+export const CHAT_ATTACHMENT_KINDS = {
+  image: {
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic'],
+    maxSize: 10 * 1024 * 1024, // 10MB
+  },
+  video: {
+    mimeTypes: ['video/mp4', 'video/quicktime', 'video/webm'],
+    maxSize: 50 * 1024 * 1024, // 50MB
+  },
+  audio: {
+    mimeTypes: ['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/wav'],
+    maxSize: 20 * 1024 * 1024, // 20MB
+  },
+  file: {
+    mimeTypes: [
+      'application/pdf',
+      'text/plain',
+      'text/csv',
+      'application/zip',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+    maxSize: 25 * 1024 * 1024, // 25MB
+  },
+};
+
+export type ChatAttachmentKind = keyof typeof CHAT_ATTACHMENT_KINDS;
+
+// The kind of attachment a MIME type is sent as, or null if it isn't accepted
+export const chatAttachmentKind = (mimeType: string): ChatAttachmentKind | null => {
+  const kinds = Object.keys(CHAT_ATTACHMENT_KINDS) as ChatAttachmentKind[];
+  return kinds.find(kind => CHAT_ATTACHMENT_KINDS[kind].mimeTypes.includes(mimeType)) || null;
+};
+
+// File filter for chat attachments: any accepted image, video, audio or document
+const chatAttachmentFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (!chatAttachmentKind(file.mimetype)) {
+    console.error('Invalid chat attachment type:', file.mimetype);
+    return cb(null, false);
+  }
+
+  cb(null, true);
+};
+
+// Multer instance for chat attachment uploads
+export const chatAttachmentUpload = multer({
+  storage: storage,
+  fileFilter: chatAttachmentFileFilter,
+  limits: {
+    fileSize: Math.max(...Object.values(CHAT_ATTACHMENT_KINDS).map(kind => kind.maxSize)),
+    files: 1,
+  },
+});
+
 // Error handling middleware
 export const handleUploadError = (err: any, req: Request, res: Response, next: NextFunction) => {
   console.error('Upload error:', err);
@@ -62,7 +148,7 @@ export const handleUploadError = (err: any, req: Request, res: Response, next: N
     });
     
     if (err.code === 'LIMIT_FILE_SIZE') {
-      return res.status(400).json({ error: 'File size exceeds 5MB limit' });
+      return res.status(400).json({ error: 'File size exceeds the upload limit' });
     } else if (err.code === 'LIMIT_FILE_COUNT') {
       return res.status(400).json({ error: 'Too many files uploaded' });
     } else if (err.code === 'LIMIT_UNEXPECTED_FILE') {
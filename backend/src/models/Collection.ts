@@ -0,0 +1,34 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICollection extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const collectionSchema = new Schema<ICollection>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user cannot have two collections with the same name
+collectionSchema.index({ user: 1, name: 1 }, { unique: true });
+
+const Collection = mongoose.model<ICollection>('Collection', collectionSchema);
+
+export default Collection;
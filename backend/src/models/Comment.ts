@@ -4,6 +4,8 @@ export interface IComment extends Document {
   user: mongoose.Types.ObjectId;
   post: mongoose.Types.ObjectId;
   text: string;
+  parentComment?: mongoose.Types.ObjectId;
+  editedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,6 +25,16 @@ const commentSchema = new Schema<IComment>(
     text: {
       type: String,
       required: true,
+      trim: true,
+    },
+    // Replies point at a top-level comment; threads are one level deep
+    parentComment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null,
+    },
+    editedAt: {
+      type: Date,
     },
   },
   {
@@ -30,6 +42,9 @@ const commentSchema = new Schema<IComment>(
   }
 );
 
+// Index for paginating top-level comments and loading their replies
+commentSchema.index({ post: 1, parentComment: 1, createdAt: 1, _id: 1 });
+
 const Comment = mongoose.model<IComment>('Comment', commentSchema);
 
 export default Comment; 
\ No newline at end of file
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const HIGHLIGHT_TITLE_MAX_LENGTH = 30;
+
+export interface IHighlight extends Document {
+  user: mongoose.Types.ObjectId;
+  title: string;
+  // Played in array order
+  stories: mongoose.Types.ObjectId[];
+  // Story whose media is used as the cover; the first story when unset
+  coverStory: mongoose.Types.ObjectId | null;
+  // Position on the profile, lowest first
+  order: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const highlightSchema = new Schema<IHighlight>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: HIGHLIGHT_TITLE_MAX_LENGTH,
+    },
+    stories: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Story',
+      },
+    ],
+    coverStory: {
+      type: Schema.Types.ObjectId,
+      ref: 'Story',
+      default: null,
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+highlightSchema.index({ user: 1, order: 1 });
+highlightSchema.index({ stories: 1 });
+
+const Highlight = mongoose.model<IHighlight>('Highlight', highlightSchema);
+
+export default Highlight;
@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobStatus = 'idle' | 'running' | 'retrying' | 'failed';
+
+export interface IJob extends Document {
+  name: string;
+  status: JobStatus;
+  nextRunAt: Date;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+  attempts: number;
+  lastStartedAt?: Date | null;
+  lastFinishedAt?: Date | null;
+  lastSucceededAt?: Date | null;
+  lastError?: string | null;
+  lastResult?: Record<string, unknown> | null;
+  runCount: number;
+  failureCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Persisted state of one background job. The job's code lives in the runner;
+// this record makes runs visible and keeps instances from running it at once.
+const jobSchema = new Schema<IJob>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    status: {
+      type: String,
+      enum: ['idle', 'running', 'retrying', 'failed'],
+      default: 'idle',
+    },
+    nextRunAt: {
+      type: Date,
+      required: true,
+    },
+    // Instance holding the job; the lock is void once lockedUntil has passed
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    // Failed attempts since the last success
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastStartedAt: {
+      type: Date,
+      default: null,
+    },
+    lastFinishedAt: {
+      type: Date,
+      default: null,
+    },
+    lastSucceededAt: {
+      type: Date,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    // What the last successful run reported, e.g. how many records it removed
+    lastResult: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    runCount: {
+      type: Number,
+      default: 0,
+    },
+    failureCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+jobSchema.index({ nextRunAt: 1 });
+
+const Job = mongoose.model<IJob>('Job', jobSchema);
+
+export default Job;
@@ -3,7 +3,7 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface INotification extends Document {
   recipient: mongoose.Types.ObjectId;
   sender: mongoose.Types.ObjectId;
-  type: string; // 'like', 'comment', 'follow', 'friendRequest'
+  type: string; // 'like', 'comment', 'follow', 'friendRequest', 'mention', 'repost', 'postPublished'
   post?: mongoose.Types.ObjectId;
   comment?: mongoose.Types.ObjectId;
   read: boolean;
@@ -25,7 +25,7 @@ const notificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['like', 'comment', 'follow', 'friendRequest'],
+      enum: ['like', 'comment', 'follow', 'friendRequest', 'mention', 'repost', 'postPublished'],
       required: true,
     },
     post: {
@@ -49,6 +49,8 @@ const notificationSchema = new Schema<INotification>(
 // Create indexes for faster queries
 notificationSchema.index({ recipient: 1, createdAt: -1 });
 notificationSchema.index({ sender: 1 });
+// Used when pruning old read notifications
+notificationSchema.index({ read: 1, createdAt: 1 });
 
 const Notification = mongoose.model<INotification>('Notification', notificationSchema);
 
@@ -1,16 +1,68 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface IPollVote {
+  user: mongoose.Types.ObjectId;
+  option: number;
+}
+
+export interface IPoll {
+  options: { text: string }[];
+  votes: IPollVote[];
+  closesAt?: Date | null;
+}
+
 export interface IPost extends Document {
   user: mongoose.Types.ObjectId;
   description: string;
   images: string[];
   mood?: string;
+  visibility: 'public' | 'followers' | 'closeFriends';
   likes: mongoose.Types.ObjectId[];
   comments: mongoose.Types.ObjectId[];
+  hashtags: string[];
+  mentions: mongoose.Types.ObjectId[];
+  editedAt?: Date;
+  repostOf?: mongoose.Types.ObjectId | null;
+  poll?: IPoll | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const pollSchema = new Schema<IPoll>(
+  {
+    options: [
+      {
+        text: {
+          type: String,
+          required: true,
+          trim: true,
+        },
+        _id: false,
+      },
+    ],
+    // One entry per voter; the option is an index into options
+    votes: [
+      {
+        user: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        option: {
+          type: Number,
+          required: true,
+        },
+        _id: false,
+      },
+    ],
+    closesAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
 const postSchema = new Schema<IPost>(
   {
     user: {
@@ -18,9 +70,13 @@ const postSchema = new Schema<IPost>(
       ref: 'User',
       required: true,
     },
+    // Plain reposts have no text of their own
     description: {
       type: String,
-      required: true,
+      required: function (this: IPost) {
+        return !this.repostOf;
+      },
+      default: '',
     },
     images: [
       {
@@ -30,6 +86,11 @@ const postSchema = new Schema<IPost>(
     mood: {
       type: String,
     },
+    visibility: {
+      type: String,
+      enum: ['public', 'followers', 'closeFriends'],
+      default: 'public',
+    },
     likes: [
       {
         type: Schema.Types.ObjectId,
@@ -42,12 +103,46 @@ const postSchema = new Schema<IPost>(
         ref: 'Comment',
       },
     ],
+    // Parsed from the description on create and edit
+    hashtags: [
+      {
+        type: String,
+        lowercase: true,
+      },
+    ],
+    mentions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        index: true,
+      },
+    ],
+    editedAt: {
+      type: Date,
+    },
+    // Original post when this is a repost; the description holds the quote text, if any
+    repostOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      default: null,
+      index: true,
+    },
+    poll: {
+      type: pollSchema,
+      default: undefined,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Index for keyset-paginated feeds by author
+postSchema.index({ user: 1, createdAt: -1, _id: -1 });
+
+// Index for keyset-paginated tag feeds
+postSchema.index({ hashtags: 1, createdAt: -1, _id: -1 });
+
 const Post = mongoose.model<IPost>('Post', postSchema);
 
 export default Post; 
\ No newline at end of file
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IDraftPoll {
+  options: string[];
+  durationHours?: number | null;
+  closesAt?: Date | null;
+}
+
+export interface IPostDraft extends Document {
+  user: mongoose.Types.ObjectId;
+  description: string;
+  mood?: string;
+  visibility: 'public' | 'followers' | 'closeFriends';
+  images: string[];
+  poll?: IDraftPoll | null;
+  publishAt?: Date | null;
+  claimedAt?: Date | null;
+  publishError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const postDraftSchema = new Schema<IPostDraft>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    description: {
+      type: String,
+      default: '',
+    },
+    mood: {
+      type: String,
+    },
+    visibility: {
+      type: String,
+      enum: ['public', 'followers', 'closeFriends'],
+      default: 'public',
+    },
+    // Cloudinary URLs, uploaded when the draft was saved and reused on publish
+    images: [
+      {
+        type: String,
+      },
+    ],
+    // A poll given as a duration only starts its clock once the post is
+    // published; one given as a close time keeps it
+    poll: {
+      type: new Schema<IDraftPoll>(
+        {
+          options: [{ type: String, trim: true }],
+          durationHours: { type: Number, default: null },
+          closesAt: { type: Date, default: null },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    // Drafts without publishAt wait for the author; the rest are scheduled
+    publishAt: {
+      type: Date,
+      default: null,
+    },
+    // Set by the scheduler while it publishes the draft
+    claimedAt: {
+      type: Date,
+      default: null,
+    },
+    // Why the last scheduled publish failed, shown to the author
+    publishError: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+postDraftSchema.index({ user: 1, updatedAt: -1 });
+postDraftSchema.index({ publishAt: 1 });
+
+const PostDraft = mongoose.model<IPostDraft>('PostDraft', postDraftSchema);
+
+export default PostDraft;
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISavedItem extends Document {
+  user: mongoose.Types.ObjectId;
+  post: mongoose.Types.ObjectId;
+  collectionId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedItemSchema = new Schema<ISavedItem>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    // Saved posts outside any collection have no collectionId
+    collectionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Collection',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A post is saved at most once per user
+savedItemSchema.index({ user: 1, post: 1 }, { unique: true });
+// Index for keyset-paginated listings, optionally by collection
+savedItemSchema.index({ user: 1, collectionId: 1, createdAt: -1, _id: -1 });
+
+const SavedItem = mongoose.model<ISavedItem>('SavedItem', savedItemSchema);
+
+export default SavedItem;
@@ -1,10 +1,18 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { STORY_AUDIENCES, StoryAudience } from '../utils/storyAudience';
+
+export interface IStoryView {
+  user: mongoose.Types.ObjectId;
+  viewedAt: Date;
+}
 
 export interface IStory extends Document {
   user: mongoose.Types.ObjectId;
   mediaUrl: string;
   mediaType: 'image' | 'video';
-  viewers: mongoose.Types.ObjectId[];
+  // Who the story is shown to; closeFriends limits it to the author's list
+  audience: StoryAudience;
+  viewers: IStoryView[];
   expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -26,10 +34,23 @@ const storySchema = new Schema<IStory>(
       enum: ['image', 'video'],
       required: true,
     },
+    audience: {
+      type: String,
+      enum: STORY_AUDIENCES,
+      default: 'followers',
+    },
     viewers: [
       {
-        type: Schema.Types.ObjectId,
-        ref: 'User',
+        _id: false,
+        user: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        viewedAt: {
+          type: Date,
+          default: Date.now,
+        },
       },
     ],
     expiresAt: {
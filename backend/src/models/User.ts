@@ -12,6 +12,8 @@ export interface IUser extends Document {
   following: mongoose.Types.ObjectId[];
   friendRequests: mongoose.Types.ObjectId[];
   blockedUsers: mongoose.Types.ObjectId[];
+  closeFriends: mongoose.Types.ObjectId[];
+  isAdmin: boolean;
   posts: mongoose.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
@@ -75,6 +77,18 @@ const userSchema = new Schema<IUser>(
         ref: 'User',
       },
     ],
+    // Users allowed to see this user's close-friends posts and stories
+    closeFriends: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+    // Grants access to the /api/admin routes; only ever set in the database
+    isAdmin: {
+      type: Boolean,
+      default: false,
+    },
     posts: [
       {
         type: Schema.Types.ObjectId,
@@ -87,6 +101,9 @@ const userSchema = new Schema<IUser>(
   }
 );
 
+// Index for finding whose close-friends list a user is on
+userSchema.index({ closeFriends: 1 });
+
 // Hash password before saving
 userSchema.pre('save', async function (next) {
   if (!this.isModified('password')) return next();
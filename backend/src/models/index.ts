@@ -8,6 +8,11 @@ import Story from './Story';
 import Message from './Message';
 import Conversation from './Conversation';
 import Notification from './Notification';
+import Collection from './Collection';
+import SavedItem from './SavedItem';
+import PostDraft from './PostDraft';
+import Highlight from './Highlight';
+import Job from './Job';
 
 export {
   User,
@@ -16,5 +21,10 @@ export {
   Story,
   Message,
   Conversation,
-  Notification
+  Notification,
+  Collection,
+  SavedItem,
+  PostDraft,
+  Highlight,
+  Job
 }; 
\ No newline at end of file
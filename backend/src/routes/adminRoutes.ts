@@ -0,0 +1,20 @@
+import express from 'express';
+import { getJobs, runJob } from '../controllers/jobController';
+import { auth, adminOnly } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes in this file are limited to administrators
+router.use(auth, adminOnly);
+
+// @route   GET /api/admin/jobs
+// @desc    List background jobs
+// @access  Private (admin only)
+router.get('/jobs', getJobs);
+
+// @route   POST /api/admin/jobs/:name/run
+// @desc    Run a background job now
+// @access  Private (admin only)
+router.post('/jobs/:name/run', runJob);
+
+export default router;
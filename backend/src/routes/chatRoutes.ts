@@ -1,26 +1,91 @@
-import express from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import { 
   getConversations,
   getOrCreateConversation,
+  deleteConversation,
+  updateConversationSettings,
   sendMessage,
+  uploadAttachment,
   getMessages,
   getUnreadCount,
-  markMessagesAsRead
+  markMessagesAsRead,
+  searchMessages,
+  editMessage,
+  deleteMessage,
+  addReaction,
+  removeReaction,
+  markVoiceNoteListened,
+  createGroup,
+  getGroup,
+  updateGroup,
+  addGroupMembers,
+  removeGroupMember,
+  leaveGroup,
+  addGroupAdmin,
+  removeGroupAdmin
 } from '../controllers/chatController';
 import { auth } from '../middleware/auth';
-import { check } from 'express-validator';
+import upload, { chatAttachmentUpload, handleUploadError } from '../middleware/upload';
+import { body, check, param, validationResult, ValidationChain } from 'express-validator';
 
 const router = express.Router();
 
 // All chat routes are protected
 router.use(auth);
 
+// Answer 404 when an ID fails its check, since it names nothing, before it
+// reaches the database
+const notFoundUnless = (chain: ValidationChain, notFoundMessage: string) => [
+  chain,
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!validationResult(req).isEmpty()) {
+      return res.status(404).json({ message: notFoundMessage });
+    }
+    next();
+  },
+];
+
+// Conversation and message IDs are UUIDs
+const uuidParam = (name: string, notFoundMessage: string) => notFoundUnless(param(name).isUUID(), notFoundMessage);
+const messageIdParam = uuidParam('id', 'Message not found');
+const conversationIdParam = uuidParam('id', 'Conversation not found');
+const groupIdParam = uuidParam('id', 'Group not found');
+const conversationIdBody = notFoundUnless(
+  body(['conversationId', 'conversation_id']).optional({ values: 'falsy' }).isUUID(),
+  'Conversation not found'
+);
+
+// Users are stored in MongoDB
+const memberIdParam = notFoundUnless(param('userId').isMongoId(), 'User is not a member of this group');
+
+// A reaction is one emoji: a flag, a keycap, or a pictograph with optional
+// skin tone and presentation selector, possibly joined into a ZWJ sequence
+const SINGLE_EMOJI = /^(?:\p{Regional_Indicator}{2}|[0-9#*]\uFE0F?\u20E3|\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?(?:[\u{E0020}-\u{E007E}]+\u{E007F}|(?:\u200D\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?)*))$/u;
+
 // Get all conversations for current user
 router.get('/conversations', getConversations);
 
 // Get or create a conversation with another user
 router.get('/conversations/:userId', getOrCreateConversation);
 
+// Delete a conversation for the current user only
+router.delete('/conversations/:id', conversationIdParam, deleteConversation);
+
+// Archive, pin or mute a conversation for the current user; muted_until
+// is a time, or null to unmute
+router.put('/conversations/:id/settings', conversationIdParam, [
+  check('archived').optional().isBoolean().toBoolean(),
+  check('pinned').optional().isBoolean().toBoolean(),
+  check('muted_until', 'Mute end must be a date').optional({ values: 'null' }).isISO8601()
+], updateConversationSettings);
+
+// Search message text across all of the user's conversations, or within one
+const searchValidation = [
+  check('q', 'Search query is required').isString().trim().isLength({ min: 1, max: 200 })
+];
+router.get('/search', searchValidation, searchMessages);
+router.get('/conversations/:conversationId/search', uuidParam('conversationId', 'Conversation not found'), searchValidation, searchMessages);
+
 // Get unread message count (this route needs to be before dynamic routes)
 router.get('/messages/unread', getUnreadCount);
 
@@ -29,29 +94,76 @@ router.post('/messages/mark_as_read', [
   check('conversationId', 'Conversation ID is required').not().isEmpty()
 ], markMessagesAsRead);
 
-// Get messages for a conversation (this route should come after specific routes)
-router.get('/messages/:conversationId', getMessages);
+// Get messages for a conversation (this route should come after specific routes).
+// Page back or forward from a message with ?before= or ?after= its ID.
+router.get('/messages/:conversationId', uuidParam('conversationId', 'Conversation not found'), [
+  check(['before', 'after'], 'Message cursor must be a message ID').optional().isUUID()
+], getMessages);
+
+// Upload an attachment to send in a conversation; the message then sends
+// it by its ID
+router.post('/attachments', chatAttachmentUpload.single('file'), handleUploadError, conversationIdBody, uploadAttachment);
 
 // Send a message
 router.post(
   '/messages', 
+  conversationIdBody,
   [
     check(['recipientId', 'recipient_id'])
       .custom((value, { req }) => {
-        // Check if either recipientId or recipient_id exists
-        if (!req.body.recipientId && !req.body.recipient_id) {
-          throw new Error('Recipient ID is required');
+        // Direct messages name a recipient; group messages name the conversation
+        if (!req.body.recipientId && !req.body.recipient_id &&
+            !req.body.conversationId && !req.body.conversation_id) {
+          throw new Error('Recipient ID or conversation ID is required');
         }
         return true;
       }),
-    check('text', 'Text is required if no media').custom((value, { req }) => {
-      if (!req.body.mediaUrl && !value) {
-        throw new Error('Either text or media is required');
+    check('text', 'Text is required if no attachment').custom((value, { req }) => {
+      if (!req.body.attachmentId && !req.body.attachment_id && !value) {
+        throw new Error('Either text or an attachment is required');
       }
       return true;
     }),
+    check(['attachmentId', 'attachment_id'], 'Attachment ID must be a UUID').optional().isUUID(),
   ],
   sendMessage
 );
 
+// Edit or unsend one of your own messages
+router.put('/messages/:id', messageIdParam, [
+  check('text', 'Text is required').trim().not().isEmpty()
+], editMessage);
+router.delete('/messages/:id', messageIdParam, deleteMessage);
+
+// React to a message, or take a reaction back
+router.post('/messages/:id/reactions', messageIdParam, [
+  check('emoji', 'Emoji must be a single emoji').trim().matches(SINGLE_EMOJI)
+], addReaction);
+router.delete('/messages/:id/reactions/:emoji', messageIdParam, [
+  param('emoji', 'Emoji must be a single emoji').matches(SINGLE_EMOJI)
+], removeReaction);
+
+// Let a voice note's sender know it has been played
+router.post('/messages/:id/listened', messageIdParam, markVoiceNoteListened);
+
+// Create a group conversation, with an optional avatar image
+router.post('/groups', upload.single('avatar'), createGroup);
+
+// Get a group with its members
+router.get('/groups/:id', groupIdParam, getGroup);
+
+// Rename a group or change its avatar (admins only)
+router.put('/groups/:id', groupIdParam, upload.single('avatar'), updateGroup);
+
+// Add or remove group members (admins only)
+router.post('/groups/:id/members', groupIdParam, addGroupMembers);
+router.delete('/groups/:id/members/:userId', groupIdParam, memberIdParam, removeGroupMember);
+
+// Leave a group
+router.post('/groups/:id/leave', groupIdParam, leaveGroup);
+
+// Grant or revoke admin rights (admins only)
+router.post('/groups/:id/admins/:userId', groupIdParam, memberIdParam, addGroupAdmin);
+router.delete('/groups/:id/admins/:userId', groupIdParam, memberIdParam, removeGroupAdmin);
+
 export default router; 
\ No newline at end of file
@@ -1,5 +1,32 @@
 import express from 'express';
-import { createPost, getAllPosts, getPostById } from '../controllers/postController';
+import { check } from 'express-validator';
+import {
+  createPost,
+  getAllPosts,
+  getFeed,
+  getPostsByTag,
+  getPostById,
+  updatePost,
+  deletePost,
+  likePost,
+  unlikePost,
+  repostPost,
+  undoRepost,
+  votePoll,
+} from '../controllers/postController';
+import {
+  getComments,
+  addComment,
+  updateComment,
+  deleteComment,
+} from '../controllers/commentController';
+import {
+  getDrafts,
+  createDraft,
+  updateDraft,
+  deleteDraft,
+  publishDraftNow,
+} from '../controllers/draftController';
 import upload from '../middleware/upload';
 import { auth } from '../middleware/auth';
 import { optionalAuth } from '../middleware/optionalAuth';
@@ -12,7 +39,71 @@ router.post('/', auth, upload.array('images', 5), createPost);
 // Get all posts - use optional auth to still identify user if token exists
 router.get('/', optionalAuth, getAllPosts);
 
-// Get post by ID
-router.get('/:id', getPostById);
+// Get the personalized home feed (must be registered before /:id)
+router.get('/feed', auth, getFeed);
+
+// List drafts and scheduled posts (must be registered before /:id)
+router.get('/drafts', auth, getDrafts);
+
+// Save a draft, optionally with a publishAt time (up to 5 images)
+router.post('/drafts', auth, upload.array('images', 5), createDraft);
+
+// Edit a draft or scheduled post
+router.put('/drafts/:draftId', auth, upload.array('images', 5), updateDraft);
+
+// Discard a draft or cancel a scheduled post
+router.delete('/drafts/:draftId', auth, deleteDraft);
+
+// Publish a draft immediately
+router.post('/drafts/:draftId/publish', auth, publishDraftNow);
+
+// Get posts with a hashtag (cursor paginated)
+router.get('/tags/:tag', auth, getPostsByTag);
+
+// Get post by ID (auth needed to check the post's audience)
+router.get('/:id', auth, getPostById);
+
+// Edit a post's description, mood and images (up to 5 new images)
+router.put('/:id', auth, upload.array('images', 5), updatePost);
+
+// Delete a post
+router.delete('/:id', auth, deletePost);
+
+// Like a post (idempotent)
+router.post('/:id/like', auth, likePost);
+
+// Unlike a post (idempotent)
+router.delete('/:id/like', auth, unlikePost);
+
+// Repost a post, with optional quote text
+router.post('/:id/repost', auth, repostPost);
+
+// Undo a plain repost
+router.delete('/:id/repost', auth, undoRepost);
+
+// Vote in a post's poll (repeat to change the vote)
+router.post('/:id/poll/vote', auth, votePoll);
+
+// Get comments for a post (cursor paginated, with replies)
+router.get('/:id/comments', auth, getComments);
+
+// Add a comment or reply to a post
+router.post(
+  '/:id/comments',
+  auth,
+  [check('text', 'Comment text is required').trim().not().isEmpty()],
+  addComment
+);
+
+// Edit a comment
+router.put(
+  '/:id/comments/:commentId',
+  auth,
+  [check('text', 'Comment text is required').trim().not().isEmpty()],
+  updateComment
+);
+
+// Delete a comment
+router.delete('/:id/comments/:commentId', auth, deleteComment);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,98 @@
+import express from 'express';
+import {
+  createStory,
+  getStories,
+  getUserStories,
+  getStoryArchive,
+  viewStory,
+  getStoryViewers,
+  replyToStory,
+  deleteStory,
+} from '../controllers/storyController';
+import {
+  getUserHighlights,
+  getHighlight,
+  createHighlight,
+  updateHighlight,
+  reorderHighlights,
+  deleteHighlight,
+} from '../controllers/highlightController';
+import { storyUpload, handleUploadError } from '../middleware/upload';
+import { auth } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes in this file are protected with authentication
+router.use(auth);
+
+// @route   POST /api/stories
+// @desc    Create a story from a single image or video in the `media` field
+// @access  Private
+router.post('/', storyUpload.single('media'), handleUploadError, createStory);
+
+// @route   GET /api/stories
+// @desc    Get active stories from followed users and the current user, grouped by user
+// @access  Private
+router.get('/', getStories);
+
+// @route   GET /api/stories/user/:userId
+// @desc    Get a user's active stories
+// @access  Private
+router.get('/user/:userId', getUserStories);
+
+// @route   GET /api/stories/archive
+// @desc    Get all of the current user's stories, including expired ones
+// @access  Private
+router.get('/archive', getStoryArchive);
+
+// @route   POST /api/stories/highlights
+// @desc    Create a highlight from the current user's stories
+// @access  Private
+router.post('/highlights', createHighlight);
+
+// @route   PUT /api/stories/highlights/order
+// @desc    Reorder the current user's highlights (before /highlights/:highlightId)
+// @access  Private
+router.put('/highlights/order', reorderHighlights);
+
+// @route   GET /api/stories/highlights/user/:userId
+// @desc    Get a user's highlights
+// @access  Private
+router.get('/highlights/user/:userId', getUserHighlights);
+
+// @route   GET /api/stories/highlights/:highlightId
+// @desc    Get a highlight with its stories
+// @access  Private
+router.get('/highlights/:highlightId', getHighlight);
+
+// @route   PUT /api/stories/highlights/:highlightId
+// @desc    Rename a highlight, change its stories or cover
+// @access  Private
+router.put('/highlights/:highlightId', updateHighlight);
+
+// @route   DELETE /api/stories/highlights/:highlightId
+// @desc    Delete a highlight
+// @access  Private
+router.delete('/highlights/:highlightId', deleteHighlight);
+
+// @route   PUT /api/stories/:id/view
+// @desc    Mark a story as viewed
+// @access  Private
+router.put('/:id/view', viewStory);
+
+// @route   GET /api/stories/:id/viewers
+// @desc    Get who viewed a story and when
+// @access  Private (story owner only)
+router.get('/:id/viewers', getStoryViewers);
+
+// @route   POST /api/stories/:id/reply
+// @desc    Reply to a story in a direct message to its author
+// @access  Private
+router.post('/:id/reply', replyToStory);
+
+// @route   DELETE /api/stories/:id
+// @desc    Delete a story
+// @access  Private
+router.delete('/:id', deleteStory);
+
+export default router;
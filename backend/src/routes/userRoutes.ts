@@ -18,8 +18,21 @@ import {
   blockUser,
   getAllUsers,
   getUserFollowers,
-  getUserFollowing
+  getUserFollowing,
+  getCloseFriends,
+  addCloseFriend,
+  removeCloseFriend
 } from '../controllers/userController';
+import {
+  getSavedPosts,
+  savePost,
+  moveSavedPost,
+  unsavePost,
+  getCollections,
+  createCollection,
+  renameCollection,
+  deleteCollection
+} from '../controllers/savedController';
 import { auth } from '../middleware/auth';
 import upload from '../middleware/upload';
 
@@ -53,6 +66,61 @@ router.get('/sent-requests', getSentFriendRequests);
 // @access  Private
 router.post('/upload-profile-picture', upload.single('profilePicture'), uploadProfilePicture);
 
+// @route   GET /api/users/me/saved
+// @desc    Get saved posts, optionally filtered by collection
+// @access  Private
+router.get('/me/saved', getSavedPosts);
+
+// @route   POST /api/users/me/saved
+// @desc    Save a post
+// @access  Private
+router.post('/me/saved', savePost);
+
+// @route   GET /api/users/me/saved/collections
+// @desc    Get saved post collections
+// @access  Private
+router.get('/me/saved/collections', getCollections);
+
+// @route   POST /api/users/me/saved/collections
+// @desc    Create a collection
+// @access  Private
+router.post('/me/saved/collections', createCollection);
+
+// @route   PUT /api/users/me/saved/collections/:collectionId
+// @desc    Rename a collection
+// @access  Private
+router.put('/me/saved/collections/:collectionId', renameCollection);
+
+// @route   DELETE /api/users/me/saved/collections/:collectionId
+// @desc    Delete a collection
+// @access  Private
+router.delete('/me/saved/collections/:collectionId', deleteCollection);
+
+// @route   PUT /api/users/me/saved/:postId
+// @desc    Move a saved post to another collection
+// @access  Private
+router.put('/me/saved/:postId', moveSavedPost);
+
+// @route   DELETE /api/users/me/saved/:postId
+// @desc    Unsave a post
+// @access  Private
+router.delete('/me/saved/:postId', unsavePost);
+
+// @route   GET /api/users/me/close-friends
+// @desc    Get close friends
+// @access  Private
+router.get('/me/close-friends', getCloseFriends);
+
+// @route   POST /api/users/me/close-friends/:userId
+// @desc    Add a user to close friends
+// @access  Private
+router.post('/me/close-friends/:userId', addCloseFriend);
+
+// @route   DELETE /api/users/me/close-friends/:userId
+// @desc    Remove a user from close friends
+// @access  Private
+router.delete('/me/close-friends/:userId', removeCloseFriend);
+
 // @route   GET /api/users/:id
 // @desc    Get user profile
 // @access  Private
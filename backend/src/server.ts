@@ -7,7 +7,10 @@ import connectDB from './config/db';
 import path from 'path';
 import fs from 'fs';
 import supabase from './config/supabase';
-import { checkTablesExist } from './services/messageService';
+import { checkTablesExist, findSendableAttachment, getAttachment, getConversation, getReplyPreview, markMessagesAsRead, markMessagesDelivered } from './services/messageService';
+import { setSocketServer, userRoom } from './services/realtime';
+import { startJobRunner } from './services/jobRunner';
+import { backgroundJobs } from './services/jobs';
 import User from './models/User';
 
 // Import models to ensure schemas are registered at startup
@@ -18,8 +21,9 @@ import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import postRoutes from './routes/postRoutes';
 import notificationRoutes from './routes/notificationRoutes';
-// import storyRoutes from './routes/storyRoutes';
+import storyRoutes from './routes/storyRoutes';
 import chatRoutes from './routes/chatRoutes';
+import adminRoutes from './routes/adminRoutes';
 
 // Load environment variables
 dotenv.config();
@@ -50,6 +54,7 @@ const io = new SocketIoServer(server, {
   pingTimeout: 60000,
   pingInterval: 25000
 });
+setSocketServer(io);
 
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(__dirname, '..', 'uploads');
@@ -69,8 +74,9 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/posts', postRoutes);
 app.use('/api/notifications', notificationRoutes);
-// app.use('/api/stories', storyRoutes);
+app.use('/api/stories', storyRoutes);
 app.use('/api/chat', chatRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Default route
 app.get('/', (req: Request, res: Response) => {
@@ -86,6 +92,68 @@ const recentMessagesCache = new Map<string, Set<string>>();
 // Recent delivery receipts cache
 const deliveryReceiptsCache = new Map<string, Set<string>>();
 
+// Deliver a message to each recipient's active sockets, queueing it for
+// recipients who are offline. Returns whether anyone got it directly.
+const deliverToRecipients = (recipientIds: string[], message: any, fromDatabase = false) => {
+  const suffix = fromDatabase ? '_db' : '';
+  let delivered = false;
+
+  recipientIds.forEach(recipientId => {
+    let recipientDelivered = false;
+
+    userSocketMap.get(recipientId)?.forEach(socketId => {
+      const recipientSocket = io.sockets.sockets.get(socketId);
+      if (recipientSocket) {
+        recipientSocket.emit('receive_message', {
+          ...message,
+          _delivery_type: `direct${suffix}`
+        });
+        recipientDelivered = true;
+      }
+    });
+
+    // If direct delivery wasn't possible, queue the message
+    if (!recipientDelivered) {
+      console.log(`Recipient ${recipientId} not online, queueing message${fromDatabase ? ' from DB' : ''}`);
+
+      if (!messageQueue.has(recipientId)) {
+        messageQueue.set(recipientId, []);
+      }
+
+      messageQueue.get(recipientId)?.push({
+        ...message,
+        _delivery_type: `queued${suffix}`
+      });
+    }
+
+    delivered = delivered || recipientDelivered;
+  });
+
+  return delivered;
+};
+
+// Who a message goes to: the recipient of a direct message, or every other
+// member of a group. Returns null when the sender is not a member of the
+// conversation, or the named recipient is not another member of it.
+const resolveRecipients = async (conversationId: string, senderId: string, recipientId?: string | null) => {
+  const conversation = await getConversation(conversationId).catch(() => null);
+  if (!conversation || !conversation.participants.includes(senderId)) {
+    return null;
+  }
+
+  if (recipientId) {
+    return recipientId !== senderId && conversation.participants.includes(recipientId) ? [recipientId] : null;
+  }
+
+  return conversation.participants.filter(id => id !== senderId);
+};
+
+// Whether a user belongs to a conversation
+const isConversationMember = async (conversationId: string, userId: string) => {
+  const conversation = await getConversation(conversationId).catch(() => null);
+  return !!conversation && conversation.participants.includes(userId);
+};
+
 // Socket.IO connection
 io.on('connection', (socket) => {
   console.log('New client connected:', socket.id);
@@ -103,6 +171,7 @@ io.on('connection', (socket) => {
         userSocketMap.set(userId, new Set<string>());
       }
       userSocketMap.get(userId)?.add(socket.id);
+      socket.join(userRoom(userId));
       
       console.log(`User ${userId} authenticated with socket ${socket.id}`);
       
@@ -132,8 +201,11 @@ io.on('connection', (socket) => {
   };
 
   // Join a room (conversation)
-  socket.on('join_conversation', (conversationId) => {
-    if (!conversationId) return;
+  socket.on('join_conversation', async (conversationId) => {
+    if (!conversationId || !currentUserId) return;
+
+    // Only members may listen in on a conversation
+    if (!(await isConversationMember(conversationId, currentUserId))) return;
     
     socket.join(conversationId);
     console.log(`User ${currentUserId} joined conversation: ${conversationId}`);
@@ -192,15 +264,27 @@ io.on('connection', (socket) => {
   });
 
   // Handle immediate message preview (before database save)
-  socket.on('send_message', (message) => {
+  socket.on('send_message', async (message) => {
     const conversationId = message.conversation_id || message.conversation;
     const recipientId = message.recipientId || message.recipient_id;
-    const senderId = message.sender_id;
     
     if (!conversationId) {
       console.error('No conversation ID provided for message:', message);
       return;
     }
+
+    // Messages come from the authenticated user, whatever the client claims
+    if (!currentUserId) return;
+    const senderId = currentUserId;
+    message.sender_id = senderId;
+
+    // Only members may send, and only to other members of the conversation;
+    // group messages fan out to every other member
+    const recipientIds = await resolveRecipients(conversationId, senderId, recipientId);
+    if (!recipientIds) {
+      console.error(`Rejected message from ${senderId} to conversation ${conversationId}`);
+      return;
+    }
     
     // Generate a unique ID for this message if not provided
     const messageId = message.id || message._id || `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -226,6 +310,23 @@ io.on('connection', (socket) => {
     
     // Map recipientId to recipient_id for compatibility with both formats
     message.recipient_id = recipientId; 
+
+    // Quote the replied-to message from the database rather than trusting the client
+    const replyTo = message.reply_to_id ? await getReplyPreview(message.reply_to_id, conversationId) : null;
+    message.reply_to_id = replyTo ? replyTo.id : null;
+    message.reply_to = replyTo;
+
+    // Likewise take media from the uploaded attachment, never from the client,
+    // and only if the authenticated user may send it
+    const sentAttachment = message.attachment_id
+      ? (await findSendableAttachment(message.attachment_id, conversationId, senderId).catch(() => null))?.attachment || null
+      : null;
+    message.attachment_id = sentAttachment ? sentAttachment.id : null;
+    message.attachment = sentAttachment;
+    message.media_url = sentAttachment ? sentAttachment.url : null;
+    message.media_type = sentAttachment ? sentAttachment.media_type : null;
+    delete message.mediaUrl;
+    delete message.mediaType;
     
     // Track message metadata
     const messageWithMetadata = {
@@ -239,40 +340,9 @@ io.on('connection', (socket) => {
       _delivery_timestamp: new Date().toISOString()
     };
     
-    // First attempt: try to deliver directly to the recipient's active sockets
-    let directDeliverySuccessful = false;
-    
-    if (recipientId) {
-      const recipientSockets = userSocketMap.get(recipientId);
-      
-      if (recipientSockets && recipientSockets.size > 0) {
-        // Recipient has active sockets, try direct delivery
-        recipientSockets.forEach(socketId => {
-          const recipientSocket = io.sockets.sockets.get(socketId);
-          if (recipientSocket) {
-            recipientSocket.emit('receive_message', {
-              ...messageWithMetadata,
-              _delivery_type: 'direct'
-            });
-            directDeliverySuccessful = true;
-          }
-        });
-      }
-      
-      // If direct delivery wasn't possible, queue the message
-      if (!directDeliverySuccessful) {
-        console.log(`Recipient ${recipientId} not online, queueing message`);
-        
-        if (!messageQueue.has(recipientId)) {
-          messageQueue.set(recipientId, []);
-        }
-        
-        messageQueue.get(recipientId)?.push({
-          ...messageWithMetadata,
-          _delivery_type: 'queued'
-        });
-      }
-    }
+    // Deliver directly to the recipients' active sockets, queueing for
+    // anyone offline
+    const directDeliverySuccessful = deliverToRecipients(recipientIds, messageWithMetadata);
     
     // Always broadcast to the conversation room as well
     // This ensures delivery to any users currently viewing the conversation
@@ -292,10 +362,11 @@ io.on('connection', (socket) => {
   });
   
   // Handle explicit message delivery confirmations
-  socket.on('confirm_delivery', (data) => {
+  socket.on('confirm_delivery', async (data) => {
     const { messageId, conversationId, senderId } = data;
     
     if (!messageId || !conversationId || !senderId || !currentUserId) return;
+    const recipientId = currentUserId;
     
     // Deduplicate delivery confirmations
     const confirmKey = `${messageId}-${currentUserId}`;
@@ -312,6 +383,21 @@ io.on('connection', (socket) => {
     setTimeout(() => {
       deliveryReceiptsCache.get(conversationId)?.delete(confirmKey);
     }, 10 * 60 * 1000);
+
+    // Persist the delivery receipt, so it survives reloads and reaches the
+    // sender's other devices. Messages that already reached this user, or
+    // that aren't in a conversation they belong to, are skipped.
+    let deliveredAt: string;
+    try {
+      if (!(await isConversationMember(conversationId, recipientId))) return;
+
+      const result = await markMessagesDelivered(conversationId, recipientId, [messageId]);
+      if (result.deliveredMessages.length === 0) return;
+      deliveredAt = result.deliveredAt;
+    } catch (error) {
+      console.error('Error marking message as delivered:', error);
+      return;
+    }
     
     // Try to deliver confirmation to the sender directly
     const senderSockets = userSocketMap.get(senderId);
@@ -323,8 +409,8 @@ io.on('connection', (socket) => {
           senderSocket.emit('message_seen', {
             messageId,
             conversationId,
-            recipientId: currentUserId,
-            timestamp: new Date().toISOString()
+            recipientId,
+            timestamp: deliveredAt
           });
         }
       });
@@ -334,8 +420,8 @@ io.on('connection', (socket) => {
     socket.to(conversationId).emit('message_seen', {
       messageId,
       conversationId,
-      recipientId: currentUserId,
-      timestamp: new Date().toISOString()
+      recipientId,
+      timestamp: deliveredAt
     });
   });
   
@@ -343,69 +429,38 @@ io.on('connection', (socket) => {
   socket.on('mark_read', async (data) => {
     const { conversationId, messageIds } = data;
     
-    if (!conversationId) return;
+    if (!conversationId || !currentUserId) return;
+    const readerId = currentUserId;
     
     try {
-      // Update in Supabase
-      if (messageIds && messageIds.length > 0) {
-        // Mark specific messages as read
-        await supabase
-          .from('messages')
-          .update({ read: true })
-          .in('id', messageIds);
-          
-        // Send read receipts for each message
-        messageIds.forEach((messageId: string) => {
-          // Extract sender ID from local cache or message
-          const message = messageIds.length > 0 ? { id: messageId } : null;
-          if (message) {
-            socket.to(conversationId).emit('message_read', {
+      if (!(await isConversationMember(conversationId, readerId))) return;
+
+      // Record this user's receipts for the given messages, or for every
+      // unread message in the conversation
+      const { markedMessages, readAt } = await markMessagesAsRead(conversationId, readerId, messageIds);
+      if (markedMessages.length === 0) return;
+      
+      // Send a read receipt to the sender of each message
+      markedMessages.forEach(message => {
+        userSocketMap.get(message.sender_id)?.forEach(socketId => {
+          const senderSocket = io.sockets.sockets.get(socketId);
+          if (senderSocket) {
+            senderSocket.emit('message_read', {
               messageId: message.id,
               conversationId,
-              userId: currentUserId,
-              timestamp: new Date().toISOString()
+              userId: readerId,
+              timestamp: readAt
             });
           }
         });
-      } else {
-        // Mark all unread messages in conversation as read
-        const { data: messages } = await supabase
-          .from('messages')
-          .update({ read: true })
-          .eq('conversation_id', conversationId)
-          .eq('read', false)
-          .select('id, sender_id');
-        
-        // Send read receipts for each message
-        if (messages && messages.length > 0) {
-          messages.forEach(message => {
-            if (message.sender_id !== currentUserId) {
-              // Send read receipt to the sender
-              const senderSockets = userSocketMap.get(message.sender_id);
-              if (senderSockets && senderSockets.size > 0) {
-                senderSockets.forEach(socketId => {
-                  const senderSocket = io.sockets.sockets.get(socketId);
-                  if (senderSocket) {
-                    senderSocket.emit('message_read', {
-                      messageId: message.id,
-                      conversationId,
-                      userId: currentUserId,
-                      timestamp: new Date().toISOString()
-                    });
-                  }
-                });
-              }
-            }
-          });
-        }
-      }
+      });
       
       // Broadcast read receipts to conversation room
       socket.to(conversationId).emit('messages_read', {
         conversationId,
-        messageIds: messageIds || [],
-        userId: currentUserId,
-        timestamp: new Date().toISOString()
+        messageIds: markedMessages.map(message => message.id),
+        userId: readerId,
+        timestamp: readAt
       });
       
       console.log(`Messages marked as read in conversation ${conversationId}`);
@@ -514,11 +569,20 @@ const setupSupabaseRealtime = async () => {
           try {
             // Get sender info to populate the message
             const sender = await User.findById(messageData.sender_id);
-            const recipient = await User.findById(messageData.recipient_id);
+            const recipient = recipientId ? await User.findById(recipientId) : null;
             
+            const replyTo = messageData.reply_to_id
+              ? await getReplyPreview(messageData.reply_to_id, conversationId)
+              : null;
+            const attachment = messageData.attachment_id
+              ? await getAttachment(messageData.attachment_id)
+              : null;
+
             // Enrich message with user data
             const enrichedMessage = {
               ...messageData,
+              reply_to: replyTo,
+              attachment,
               sender: sender ? {
                 _id: sender._id,
                 name: sender.name,
@@ -535,39 +599,10 @@ const setupSupabaseRealtime = async () => {
               _processed_timestamp: new Date().toISOString()
             };
             
-            // First attempt: try to deliver directly to the recipient's active sockets
-            let directDeliverySuccessful = false;
-            
-            if (recipientId) {
-              const recipientSockets = userSocketMap.get(recipientId);
-              
-              if (recipientSockets && recipientSockets.size > 0) {
-                // Recipient has active sockets, try direct delivery
-                recipientSockets.forEach(socketId => {
-                  const recipientSocket = io.sockets.sockets.get(socketId);
-                  if (recipientSocket) {
-                    recipientSocket.emit('receive_message', {
-                      ...enrichedMessage,
-                      _delivery_type: 'direct_db'
-                    });
-                    directDeliverySuccessful = true;
-                  }
-                });
-              }
-              
-              // If direct delivery wasn't possible, queue the message
-              if (!directDeliverySuccessful) {
-                console.log(`Recipient ${recipientId} not online, queueing message from DB`);
-                
-                if (!messageQueue.has(recipientId)) {
-                  messageQueue.set(recipientId, []);
-                }
-                
-                messageQueue.get(recipientId)?.push({
-                  ...enrichedMessage,
-                  _delivery_type: 'queued_db'
-                });
-              }
+            // Deliver to the recipients' active sockets, queueing for anyone offline
+            const recipientIds = await resolveRecipients(conversationId, senderId, recipientId);
+            if (recipientIds) {
+              deliverToRecipients(recipientIds, enrichedMessage, true);
             }
             
             // Emit the message to all clients in the conversation room
@@ -623,6 +658,9 @@ const PORT_NUMBER = typeof PORT === 'string' ? parseInt(PORT, 10) : PORT;
 server.listen(PORT_NUMBER, '', () => {
   console.log(`Server running on port ${PORT_NUMBER}`);
   console.log(`Access the API at http://localhost:${PORT_NUMBER} or http://<your-ip>:${PORT_NUMBER}`);
+
+  // Scheduled posts and periodic cleanup of stories, attachments and notifications
+  startJobRunner(backgroundJobs);
 });
 
 
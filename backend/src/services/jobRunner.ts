@@ -0,0 +1,196 @@
+import os from 'os';
+import Job, { IJob } from '../models/Job';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000;
+// A lock older than this belongs to a run that crashed and may be taken over
+const DEFAULT_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Identifies this process in job locks
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+export interface JobDefinition {
+  name: string;
+  // Time between the end of one successful run and the start of the next
+  intervalMs: number;
+  // Retries after a failed run, with the delay doubling each time
+  maxRetries?: number;
+  retryDelayMs?: number;
+  lockTimeoutMs?: number;
+  // Resolves with a short summary of what the run did, kept on the job record
+  run: () => Promise<Record<string, unknown> | void>;
+}
+
+const registry = new Map<string, JobDefinition>();
+
+/**
+ * Create the persisted record for a job the first time it is registered.
+ * New jobs are due straight away.
+ */
+const ensureJobRecord = async (definition: JobDefinition) => {
+  try {
+    await Job.updateOne(
+      { name: definition.name },
+      { $setOnInsert: { name: definition.name, nextRunAt: new Date() } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // Another instance created the record first
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Lock a job for this instance if it is due and nobody else holds it
+ * @returns The locked job record, or null
+ */
+const claimJob = (definition: JobDefinition, now: Date) =>
+  Job.findOneAndUpdate(
+    {
+      name: definition.name,
+      nextRunAt: { $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }],
+    },
+    {
+      $set: {
+        status: 'running',
+        lockedBy: INSTANCE_ID,
+        lockedUntil: new Date(now.getTime() + (definition.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS)),
+        lastStartedAt: now,
+      },
+    },
+    { new: true }
+  );
+
+/**
+ * Run a claimed job and record the outcome. Failures are retried with
+ * backoff; once retries run out the job waits for its next regular run.
+ */
+const executeJob = async (definition: JobDefinition, job: IJob) => {
+  const maxRetries = definition.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = definition.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  // Only release the lock if it is still ours
+  const ownLock = { name: definition.name, lockedBy: INSTANCE_ID };
+
+  try {
+    const result = await definition.run();
+    const finishedAt = new Date();
+
+    await Job.updateOne(ownLock, {
+      $set: {
+        status: 'idle',
+        attempts: 0,
+        lockedBy: null,
+        lockedUntil: null,
+        lastFinishedAt: finishedAt,
+        lastSucceededAt: finishedAt,
+        lastError: null,
+        lastResult: result || null,
+        nextRunAt: new Date(finishedAt.getTime() + definition.intervalMs),
+      },
+      $inc: { runCount: 1 },
+    });
+  } catch (error) {
+    const finishedAt = new Date();
+    const attempts = job.attempts + 1;
+    const willRetry = attempts <= maxRetries;
+    console.error(`Job ${definition.name} failed (attempt ${attempts}):`, error);
+
+    await Job.updateOne(ownLock, {
+      $set: {
+        status: willRetry ? 'retrying' : 'failed',
+        attempts: willRetry ? attempts : 0,
+        lockedBy: null,
+        lockedUntil: null,
+        lastFinishedAt: finishedAt,
+        lastError: error instanceof Error ? error.message : 'Job failed',
+        nextRunAt: new Date(
+          finishedAt.getTime() + (willRetry ? retryDelayMs * 2 ** (attempts - 1) : definition.intervalMs)
+        ),
+      },
+      $inc: { runCount: 1, failureCount: 1 },
+    });
+  }
+};
+
+/**
+ * Run every registered job that is due, one at a time
+ * @returns Names of the jobs this instance ran
+ */
+export const runDueJobs = async (): Promise<string[]> => {
+  const ran: string[] = [];
+
+  for (const definition of registry.values()) {
+    const job = await claimJob(definition, new Date());
+    if (job) {
+      await executeJob(definition, job);
+      ran.push(definition.name);
+    }
+  }
+
+  return ran;
+};
+
+/**
+ * Register jobs and start running them in the background
+ * @returns The interval handle, for stopping the runner
+ */
+export const startJobRunner = (jobs: JobDefinition[], pollIntervalMs = POLL_INTERVAL_MS) => {
+  jobs.forEach(definition => registry.set(definition.name, definition));
+
+  let running = false;
+  let ready: Promise<unknown> | null = null;
+
+  const tick = async () => {
+    // Skip a tick while the previous one is still running jobs
+    if (running) return;
+    running = true;
+    try {
+      ready = ready || Promise.all(jobs.map(ensureJobRecord));
+      await ready;
+      await runDueJobs();
+    } catch (error) {
+      // Try creating the records again on the next tick
+      ready = null;
+      console.error('Job runner error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, pollIntervalMs);
+};
+
+/**
+ * Get every job record along with its schedule, for the admin listing
+ */
+export const listJobs = async () => {
+  const jobs = await Job.find().sort({ name: 1 }).lean();
+
+  return jobs.map(job => {
+    const definition = registry.get(job.name);
+    return {
+      ...job,
+      // Records of jobs that are no longer registered are kept but never run
+      registered: !!definition,
+      intervalMs: definition?.intervalMs ?? null,
+      maxRetries: definition ? definition.maxRetries ?? DEFAULT_MAX_RETRIES : null,
+    };
+  });
+};
+
+/**
+ * Make a job due now. It runs on the next tick of whichever instance claims it.
+ * @returns The updated job record, or null if no such job is registered
+ */
+export const triggerJob = async (name: string) => {
+  if (!registry.has(name)) {
+    return null;
+  }
+
+  return Job.findOneAndUpdate({ name }, { $set: { nextRunAt: new Date() } }, { new: true });
+};
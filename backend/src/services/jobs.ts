@@ -0,0 +1,58 @@
+import Notification from '../models/Notification';
+import { publishDueDrafts } from './postScheduler';
+import { migrateLegacyStoryViewers, purgeExpiredStories } from './storyService';
+import { purgeUnsentAttachments } from './messageService';
+import { JobDefinition } from './jobRunner';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Read a retention period in days from the environment
+const retentionDays = (variable: string, fallback: number) => {
+  const days = parseInt(process.env[variable] || '', 10);
+  return days > 0 ? days : fallback;
+};
+
+/**
+ * Delete read notifications older than retainedDays. Unread ones are kept.
+ */
+export const pruneReadNotifications = async (retainedDays: number) => {
+  const result = await Notification.deleteMany({
+    read: true,
+    createdAt: { $lt: new Date(Date.now() - retainedDays * DAY_MS) },
+  });
+
+  return { pruned: result.deletedCount, retainedDays };
+};
+
+// Jobs started with the server
+export const backgroundJobs: JobDefinition[] = [
+  {
+    name: 'publishScheduledPosts',
+    intervalMs: MINUTE_MS,
+    retryDelayMs: MINUTE_MS,
+    run: async () => ({ published: await publishDueDrafts() }),
+  },
+  {
+    // Runs straight away on first start; later runs find nothing left to convert
+    name: 'migrateLegacyStoryViewers',
+    intervalMs: DAY_MS,
+    run: migrateLegacyStoryViewers,
+  },
+  {
+    name: 'purgeExpiredStories',
+    intervalMs: HOUR_MS,
+    run: () => purgeExpiredStories(retentionDays('STORY_ARCHIVE_DAYS', 30)),
+  },
+  {
+    name: 'purgeUnsentAttachments',
+    intervalMs: HOUR_MS,
+    run: () => purgeUnsentAttachments(retentionDays('UNSENT_ATTACHMENT_RETENTION_DAYS', 1)),
+  },
+  {
+    name: 'pruneReadNotifications',
+    intervalMs: DAY_MS,
+    run: () => pruneReadNotifications(retentionDays('NOTIFICATION_RETENTION_DAYS', 30)),
+  },
+];
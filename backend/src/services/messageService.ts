@@ -1,25 +1,133 @@
 import supabase from '../config/supabase';
+import { deleteFromCloudinary } from '../config/cloudinary';
 
 // Define types
+export type MediaType = 'image' | 'video' | 'file' | 'audio' | 'voice';
+
 interface Message {
   id?: string;
   sender_id: string;
-  recipient_id: string;
+  // Only set on direct messages; group messages go to every participant
+  recipient_id?: string | null;
   conversation_id: string;
   text: string;
   media_url?: string;
-  media_type?: 'image' | 'video';
-  read: boolean;
+  media_type?: MediaType;
+  attachment_id?: string | null;
+  // Set on replies to a story
+  story_id?: string;
+  story_media_url?: string;
+  story_media_type?: 'image' | 'video';
+  story_expires_at?: string;
+  reply_to_id?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
   created_at?: string;
 }
 
-interface Conversation {
+export interface Conversation {
   id?: string;
   participants: string[];
+  is_group?: boolean;
+  // Group details; admins can rename the group and manage its members
+  name?: string | null;
+  avatar_url?: string | null;
+  admins?: string[];
+  created_by?: string | null;
   last_message_id?: string;
   created_at?: string;
 }
 
+// A participant's own settings for a conversation. Deleting a conversation
+// hides it and clears the messages sent before `cleared_before`; it shows
+// again, with only the newer messages, once a new message arrives.
+export interface ConversationSettings {
+  hidden: boolean;
+  cleared_before: string | null;
+  archived: boolean;
+  muted_until: string | null;
+  pinned: boolean;
+}
+
+const defaultSettings: ConversationSettings = {
+  hidden: false,
+  cleared_before: null,
+  archived: false,
+  muted_until: null,
+  pinned: false,
+};
+
+const settingsColumns = 'conversation_id, hidden, cleared_before, archived, muted_until, pinned';
+
+// When a message reached a participant and when they read it, and when
+// they first played it if it is a voice note
+interface MessageReceipt {
+  message_id: string;
+  user_id: string;
+  delivered_at: string;
+  read_at: string | null;
+  listened_at: string | null;
+}
+
+// The reactions on a message, one entry per emoji
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  user_ids: string[];
+}
+
+// A compact copy of the message a reply quotes
+export interface ReplyPreview {
+  id: string;
+  sender_id: string;
+  text: string;
+  media_type: MediaType | null;
+  deleted_at: string | null;
+}
+
+// Media uploaded to a conversation for a message to send. Files and audio
+// carry their name and size; audio and video their duration in seconds;
+// images and video their dimensions. Voice notes are recorded audio with a
+// waveform summary: loudness levels from 0 to 100.
+export interface Attachment {
+  id: string;
+  conversation_id: string;
+  uploader_id: string;
+  url: string;
+  media_type: MediaType;
+  mime_type: string;
+  file_name: string | null;
+  size: number;
+  duration: number | null;
+  width: number | null;
+  height: number | null;
+  waveform: number[] | null;
+  created_at: string;
+}
+
+// A message that matches a search, with the conversation it is in
+export interface MessageSearchResult {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  // Excerpt of the message text with each match wrapped in <mark></mark>
+  snippet: string;
+  created_at: string;
+  conversation: Pick<Conversation, 'id' | 'participants' | 'is_group' | 'name' | 'avatar_url'> | null;
+}
+
+// Where a page of messages starts: the message it pages back or forward from
+export interface MessageCursor {
+  id: string;
+  created_at: string;
+}
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+
+const REPLY_PREVIEW_LENGTH = 100;
+
+const replyPreviewColumns = 'id, conversation_id, sender_id, text, media_type, deleted_at';
+
 // Helper to handle Supabase errors
 const handleSupabaseError = (error: any, fallbackMsg: string): never => {
   // If it's a table doesn't exist error (42P01), throw a more helpful message
@@ -62,6 +170,203 @@ export const checkTablesExist = async (): Promise<boolean> => {
   }
 };
 
+// Group receipts by message ID
+const fetchReceipts = async (messageIds: string[]) => {
+  const receiptsByMessage = new Map<string, Array<Omit<MessageReceipt, 'message_id'>>>();
+  if (messageIds.length === 0) return receiptsByMessage;
+
+  const { data: receipts, error } = await supabase
+    .from('message_receipts')
+    .select('message_id, user_id, delivered_at, read_at, listened_at')
+    .in('message_id', messageIds);
+
+  if (error) {
+    console.error('Supabase error fetching message receipts:', error);
+  }
+
+  ((receipts || []) as MessageReceipt[]).forEach(({ message_id, ...receipt }) => {
+    const messageReceipts = receiptsByMessage.get(message_id) || [];
+    messageReceipts.push(receipt);
+    receiptsByMessage.set(message_id, messageReceipts);
+  });
+
+  return receiptsByMessage;
+};
+
+// The user's settings for each of the given conversations, with defaults
+// for conversations they never changed
+const fetchSettings = async (conversationIds: string[], userId: string) => {
+  const settingsByConversation = new Map<string, ConversationSettings>(
+    conversationIds.map(id => [id, defaultSettings])
+  );
+  if (conversationIds.length === 0) return settingsByConversation;
+
+  const { data: rows, error } = await supabase
+    .from('conversation_settings')
+    .select(settingsColumns)
+    .eq('user_id', userId)
+    .in('conversation_id', conversationIds);
+
+  if (error) {
+    console.error('Supabase error fetching conversation settings:', error);
+  }
+
+  (rows || []).forEach(({ conversation_id, ...settings }) => {
+    settingsByConversation.set(conversation_id, { ...defaultSettings, ...settings });
+  });
+
+  return settingsByConversation;
+};
+
+export const isMuted = (settings: ConversationSettings) =>
+  !!settings.muted_until && new Date(settings.muted_until).getTime() > Date.now();
+
+// Group reactions by message ID, then by emoji in the order they were first used
+const fetchReactions = async (messageIds: string[]) => {
+  const reactionsByMessage = new Map<string, ReactionSummary[]>();
+  if (messageIds.length === 0) return reactionsByMessage;
+
+  const { data: reactions, error } = await supabase
+    .from('message_reactions')
+    .select('message_id, user_id, emoji')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error fetching message reactions:', error);
+  }
+
+  ((reactions || []) as Array<{ message_id: string; user_id: string; emoji: string }>).forEach(reaction => {
+    const summaries = reactionsByMessage.get(reaction.message_id) || [];
+    const summary = summaries.find(entry => entry.emoji === reaction.emoji);
+    if (summary) {
+      summary.count += 1;
+      summary.user_ids.push(reaction.user_id);
+    } else {
+      summaries.push({ emoji: reaction.emoji, count: 1, user_ids: [reaction.user_id] });
+    }
+    reactionsByMessage.set(reaction.message_id, summaries);
+  });
+
+  return reactionsByMessage;
+};
+
+const toReplyPreview = (message: any): ReplyPreview => ({
+  id: message.id,
+  sender_id: message.sender_id,
+  text: (message.text || '').slice(0, REPLY_PREVIEW_LENGTH),
+  media_type: message.media_type || null,
+  deleted_at: message.deleted_at || null,
+});
+
+// Attachments of a page of messages, by attachment ID
+const fetchAttachments = async (attachmentIds: string[]) => {
+  const attachments = new Map<string, Attachment>();
+  if (attachmentIds.length === 0) return attachments;
+
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .select('*')
+    .in('id', attachmentIds);
+
+  if (error) {
+    console.error('Supabase error fetching message attachments:', error);
+  }
+
+  ((data || []) as Attachment[]).forEach(attachment => attachments.set(attachment.id, attachment));
+  return attachments;
+};
+
+// Previews of quoted messages, by message ID
+const fetchReplyPreviews = async (messageIds: string[]) => {
+  const previews = new Map<string, ReplyPreview>();
+  if (messageIds.length === 0) return previews;
+
+  const { data: quoted, error } = await supabase
+    .from('messages')
+    .select(replyPreviewColumns)
+    .in('id', messageIds);
+
+  if (error) {
+    console.error('Supabase error fetching quoted messages:', error);
+  }
+
+  (quoted || []).forEach(message => previews.set(message.id, toReplyPreview(message)));
+  return previews;
+};
+
+// Whether the given users cover a message for a user: the user themselves,
+// or for the user's own messages every other participant
+const coversMessageFor = (
+  message: { sender_id: string },
+  userIds: string[],
+  participants: string[],
+  userId: string
+) => {
+  if (message.sender_id !== userId) {
+    return userIds.includes(userId);
+  }
+
+  const otherMembers = participants.filter(id => id !== userId);
+  return otherMembers.length > 0 && otherMembers.every(id => userIds.includes(id));
+};
+
+// Who a message has been delivered to (`delivered_to`) and read by
+// (`read_by`), and whether that is complete for the user (`delivered`, `read`)
+const receiptStateFor = (
+  message: { sender_id: string },
+  receipts: Array<Omit<MessageReceipt, 'message_id'>>,
+  participants: string[],
+  userId: string
+) => {
+  const deliveredTo = receipts.map(({ user_id, delivered_at }) => ({ user_id, delivered_at }));
+  const readBy = receipts
+    .filter(receipt => receipt.read_at)
+    .map(({ user_id, read_at, listened_at }) => ({ user_id, read_at: read_at!, listened_at }));
+
+  return {
+    delivered_to: deliveredTo,
+    read_by: readBy,
+    delivered: coversMessageFor(message, deliveredTo.map(receipt => receipt.user_id), participants, userId),
+    read: coversMessageFor(message, readBy.map(receipt => receipt.user_id), participants, userId),
+  };
+};
+
+// Add the user's unread count to each conversation, and the read state to
+// its last message
+const withReadState = async (conversations: any[], userId: string) => {
+  const { data: unreadRows, error } = await supabase.rpc('get_unread_count', { user_id: userId });
+  if (error) {
+    console.error('Supabase error getting unread counts:', error);
+  }
+
+  const unreadByConversation = new Map<string, number>(
+    ((unreadRows || []) as Array<{ conversation_id: string; unread_count: number }>)
+      .map(row => [row.conversation_id, Number(row.unread_count)])
+  );
+
+  const receiptsByMessage = await fetchReceipts(
+    conversations.filter(conversation => conversation.last_message).map(conversation => conversation.last_message.id)
+  );
+
+  return conversations.map(conversation => {
+    const unread_count = unreadByConversation.get(conversation.id) || 0;
+    if (!conversation.last_message) {
+      return { ...conversation, unread_count };
+    }
+
+    const receipts = receiptsByMessage.get(conversation.last_message.id) || [];
+    return {
+      ...conversation,
+      unread_count,
+      last_message: {
+        ...conversation.last_message,
+        ...receiptStateFor(conversation.last_message, receipts, conversation.participants, userId),
+      },
+    };
+  });
+};
+
 // Get all conversations for a user
 export const getConversations = async (userId: string) => {
   try {
@@ -117,11 +422,19 @@ export const getConversations = async (userId: string) => {
       return [];
     }
 
+    // Leave out the ones the user deleted, and attach the user's settings
+    const settingsByConversation = await fetchSettings(conversations.map(conversation => conversation.id), userId);
+    const visibleConversations = conversations.filter(conversation =>
+      !settingsByConversation.get(conversation.id)!.hidden
+    );
+
     // For each conversation, get the last message if one exists
     const enrichedConversations = await Promise.all(
-      conversations.map(async (conversation) => {
+      visibleConversations.map(async (conversation) => {
         // console.log(`Processing conversation: ${conversation.id}`);
-        
+        const { hidden, cleared_before, ...settings } = settingsByConversation.get(conversation.id)!;
+        conversation = { ...conversation, ...settings };
+
         if (conversation.last_message_id) {
           const { data: lastMessage, error: msgError } = await supabase
             .from('messages')
@@ -133,7 +446,10 @@ export const getConversations = async (userId: string) => {
             console.error(`Error fetching last message for conversation ${conversation.id}:`, msgError);
           }
 
-          if (!msgError && lastMessage) {
+          const isCleared = !!lastMessage && !!cleared_before &&
+            new Date(lastMessage.created_at).getTime() <= new Date(cleared_before).getTime();
+
+          if (!msgError && lastMessage && !isCleared) {
             return {
               ...conversation,
               last_message: lastMessage
@@ -145,7 +461,7 @@ export const getConversations = async (userId: string) => {
       })
     );
 
-    return enrichedConversations;
+    return await withReadState(enrichedConversations, userId);
   } catch (error: any) {
     console.error('Error in getConversations:', error);
     
@@ -154,7 +470,8 @@ export const getConversations = async (userId: string) => {
   }
 };
 
-// Get or create a conversation between two users
+// Get or create the direct conversation between two users. Groups that
+// happen to contain both users are never returned.
 export const getOrCreateConversation = async (userId1: string, userId2: string) => {
   try {
     // console.log(`Looking for conversation between users ${userId1} and ${userId2}`);
@@ -179,6 +496,7 @@ export const getOrCreateConversation = async (userId1: string, userId2: string)
         .from('conversations')
         .select('*')
         .contains('participants', [userId1, userId2])
+        .eq('is_group', false)
         .order('created_at', { ascending: false });
         
       existingConversations = result.data;
@@ -198,6 +516,7 @@ export const getOrCreateConversation = async (userId1: string, userId2: string)
           .from('conversations')
           .select('*')
           .contains('participants', [userId2, userId1])
+          .eq('is_group', false)
           .order('created_at', { ascending: false });
           
         existingConversations = result.data;
@@ -218,6 +537,7 @@ export const getOrCreateConversation = async (userId1: string, userId2: string)
           .from('conversations')
           .select('*')
           .or(`participants.cs.{${userId1},${userId2}},participants.cs.{${userId2},${userId1}}`)
+          .eq('is_group', false)
           .order('created_at', { ascending: false });
           
         existingConversations = result.data;
@@ -265,6 +585,103 @@ export const getOrCreateConversation = async (userId1: string, userId2: string)
   }
 };
 
+// Get a conversation by ID, or null if it does not exist
+export const getConversation = async (conversationId: string): Promise<Conversation | null> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    return handleSupabaseError(error, `Error fetching conversation: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const isParticipant = (conversation: Conversation, userId: string) =>
+  conversation.participants.includes(userId);
+
+export const isGroupAdmin = (conversation: Conversation, userId: string) =>
+  !!conversation.is_group && (conversation.admins || []).includes(userId);
+
+// Create a group conversation; the creator is its first admin
+export const createGroupConversation = async (
+  creatorId: string,
+  memberIds: string[],
+  name: string,
+  avatarUrl?: string | null
+): Promise<Conversation> => {
+  const newConversation: Conversation = {
+    participants: Array.from(new Set([creatorId, ...memberIds])),
+    is_group: true,
+    name,
+    avatar_url: avatarUrl || null,
+    admins: [creatorId],
+    created_by: creatorId,
+  };
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert(newConversation)
+    .select()
+    .single();
+
+  if (error) {
+    return handleSupabaseError(error, `Error creating group: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Update a group's name, avatar, members or admins
+export const updateGroupConversation = async (
+  conversationId: string,
+  changes: Partial<Pick<Conversation, 'name' | 'avatar_url' | 'participants' | 'admins'>>
+): Promise<Conversation> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', conversationId)
+    .eq('is_group', true)
+    .select()
+    .single();
+
+  if (error) {
+    return handleSupabaseError(error, `Error updating group: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Add members to a group
+export const addGroupMembers = (conversation: Conversation, userIds: string[]) =>
+  updateGroupConversation(conversation.id!, {
+    participants: Array.from(new Set([...conversation.participants, ...userIds])),
+  });
+
+// Remove a member from a group, whether they left or an admin removed them.
+// When the last admin goes, the longest-standing remaining member takes over.
+export const removeGroupMember = (conversation: Conversation, userId: string) => {
+  const participants = conversation.participants.filter(id => id !== userId);
+  let admins = (conversation.admins || []).filter(id => id !== userId);
+
+  if (admins.length === 0 && participants.length > 0) {
+    admins = [participants[0]];
+  }
+
+  return updateGroupConversation(conversation.id!, { participants, admins });
+};
+
+// Make a group member an admin, or take admin rights away
+export const setGroupAdmin = (conversation: Conversation, userId: string, isAdmin: boolean) => {
+  const admins = (conversation.admins || []).filter(id => id !== userId);
+  return updateGroupConversation(conversation.id!, {
+    admins: isAdmin ? [...admins, userId] : admins,
+  });
+};
+
 // Send a message
 export const sendMessage = async (message: Message) => {
   try {
@@ -319,6 +736,17 @@ export const sendMessage = async (message: Message) => {
       console.log(`Updated conversation ${message.conversation_id} with last_message_id: ${newMessage.id}`);
     }
 
+    // Bring the conversation back for participants who deleted it
+    const { error: settingsError } = await supabase
+      .from('conversation_settings')
+      .update({ hidden: false, updated_at: new Date().toISOString() })
+      .eq('conversation_id', message.conversation_id)
+      .eq('hidden', true);
+
+    if (settingsError) {
+      console.error('Supabase error showing deleted conversation:', settingsError);
+    }
+
     return newMessage;
   } catch (error: any) {
     console.error('Error in sendMessage:', error);
@@ -327,76 +755,500 @@ export const sendMessage = async (message: Message) => {
   }
 };
 
-// Get messages for a conversation
-export const getMessages = async (conversationId: string, page = 1, limit = 100) => {
+// Store an uploaded attachment until a message sends it
+export const createAttachment = async (attachment: Omit<Attachment, 'id' | 'created_at'>): Promise<Attachment> => {
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .insert(attachment)
+    .select()
+    .single();
+
+  if (error) {
+    return handleSupabaseError(error, `Error saving attachment: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Get a single attachment
+export const getAttachment = async (attachmentId: string): Promise<Attachment | null> => {
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .select('*')
+    .eq('id', attachmentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error fetching attachment:', error);
+    return null;
+  }
+
+  return data;
+};
+
+// Whether a message has already sent an attachment
+export const isAttachmentUsed = async (attachmentId: string) => {
+  const { count, error } = await supabase
+    .from('messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('attachment_id', attachmentId);
+
+  if (error) {
+    return handleSupabaseError(error, `Error checking attachment: ${error.message}`);
+  }
+
+  return (count || 0) > 0;
+};
+
+// Look up an attachment a user is sending in a conversation. An attachment is
+// sent once, by whoever uploaded it, in its conversation.
+export const findSendableAttachment = async (
+  attachmentId: string,
+  conversationId: string,
+  senderId: string
+): Promise<{ attachment?: Attachment; error?: string }> => {
+  const attachment = await getAttachment(attachmentId);
+  if (!attachment || attachment.conversation_id !== conversationId || attachment.uploader_id !== senderId) {
+    return { error: 'Attachment not found in this conversation' };
+  }
+
+  if (await isAttachmentUsed(attachment.id)) {
+    return { error: 'This attachment has already been sent' };
+  }
+
+  return { attachment };
+};
+
+// Attachments are stored per conversation
+export const chatAttachmentFolder = (conversationId: string) => `social-app/chat/conversations/${conversationId}`;
+
+const ATTACHMENT_PURGE_BATCH_SIZE = 200;
+
+/**
+ * Delete attachments that were uploaded more than retainedDays ago but never
+ * sent, such as when the user cancelled after picking a file, along with
+ * their uploads.
+ * @returns Number of attachments deleted
+ */
+export const purgeUnsentAttachments = async (retainedDays: number) => {
+  const cutoff = new Date(Date.now() - retainedDays * 24 * 60 * 60 * 1000).toISOString();
+  let purged = 0;
+
+  for (;;) {
+    const { data, error } = await supabase.rpc('purge_unsent_attachments', {
+      created_before: cutoff,
+      max_count: ATTACHMENT_PURGE_BATCH_SIZE,
+    });
+
+    if (error) {
+      return handleSupabaseError(error, `Error purging unsent attachments: ${error.message}`);
+    }
+
+    const attachments = (data || []) as Array<Pick<Attachment, 'id' | 'conversation_id' | 'url'>>;
+    if (attachments.length === 0) {
+      return { purged, retainedDays };
+    }
+
+    // Uploads live in one folder per conversation
+    const urlsByConversation = new Map<string, string[]>();
+    attachments.forEach(attachment => {
+      urlsByConversation.set(attachment.conversation_id, [
+        ...(urlsByConversation.get(attachment.conversation_id) || []),
+        attachment.url,
+      ]);
+    });
+
+    for (const [conversationId, urls] of urlsByConversation) {
+      await deleteFromCloudinary(urls, chatAttachmentFolder(conversationId));
+    }
+
+    purged += attachments.length;
+  }
+};
+
+// Delete an attachment, returning it so its upload can be destroyed too
+export const deleteAttachment = async (attachmentId: string): Promise<Attachment | null> => {
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .delete()
+    .eq('id', attachmentId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error deleting attachment:', error);
+    return null;
+  }
+
+  return data;
+};
+
+// Get a single message
+export const getMessage = async (messageId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) {
+    return handleSupabaseError(error, `Error fetching message: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Preview of a message to quote in a reply, or null when it is not in the
+// given conversation
+export const getReplyPreview = async (messageId: string, conversationId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(replyPreviewColumns)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error fetching quoted message:', error);
+    return null;
+  }
+
+  return data && data.conversation_id === conversationId ? toReplyPreview(data) : null;
+};
+
+// Replace the text of a message that has not been unsent
+export const editMessage = async (messageId: string, text: string) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('messages')
+    .update({ text, edited_at: now, updated_at: now })
+    .eq('id', messageId)
+    .is('deleted_at', null)
+    .select()
+    .single();
+
+  if (error) {
+    return handleSupabaseError(error, `Error editing message: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Unsend a message for everyone. The row stays as a tombstone so the
+// conversation keeps its order and last message; only its content goes.
+export const deleteMessage = async (messageId: string) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('messages')
+    .update({
+      text: '',
+      media_url: null,
+      media_type: null,
+      attachment_id: null,
+      story_id: null,
+      story_media_url: null,
+      story_media_type: null,
+      story_expires_at: null,
+      deleted_at: now,
+      updated_at: now,
+    })
+    .eq('id', messageId)
+    .select()
+    .single();
+
+  if (error) {
+    return handleSupabaseError(error, `Error deleting message: ${error.message}`);
+  }
+
+  // Reactions go with the content
+  const { error: reactionsError } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('message_id', messageId);
+
+  if (reactionsError) {
+    console.error('Supabase error clearing reactions of an unsent message:', reactionsError);
+  }
+
+  return data;
+};
+
+// Record that a user has played a voice note, which also reads it. Only the
+// first listen is kept. Returns the message's read receipts after the change.
+export const markVoiceNoteListened = async (message: { id: string; conversation_id: string }, userId: string) => {
+  const now = new Date().toISOString();
+
+  const { error: deliverError } = await supabase
+    .from('message_receipts')
+    .upsert(
+      { message_id: message.id, conversation_id: message.conversation_id, user_id: userId, delivered_at: now },
+      { onConflict: 'message_id,user_id', ignoreDuplicates: true }
+    );
+
+  if (deliverError) {
+    return handleSupabaseError(deliverError, `Error marking voice note as delivered: ${deliverError.message}`);
+  }
+
+  const { error: readError } = await supabase
+    .from('message_receipts')
+    .update({ read_at: now })
+    .eq('message_id', message.id)
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (readError) {
+    return handleSupabaseError(readError, `Error marking voice note as read: ${readError.message}`);
+  }
+
+  const { error: listenError } = await supabase
+    .from('message_receipts')
+    .update({ listened_at: now })
+    .eq('message_id', message.id)
+    .eq('user_id', userId)
+    .is('listened_at', null);
+
+  if (listenError) {
+    return handleSupabaseError(listenError, `Error marking voice note as listened: ${listenError.message}`);
+  }
+
+  const receipts = (await fetchReceipts([message.id])).get(message.id) || [];
+  return receipts
+    .filter(receipt => receipt.read_at)
+    .map(({ user_id, read_at, listened_at }) => ({ user_id, read_at: read_at!, listened_at }));
+};
+
+// Get the reactions on a message
+export const getMessageReactions = async (messageId: string) => {
+  const reactionsByMessage = await fetchReactions([messageId]);
+  return reactionsByMessage.get(messageId) || [];
+};
+
+// React to a message with an emoji; reacting twice with the same emoji is a no-op
+export const addReaction = async (message: { id: string; conversation_id: string }, userId: string, emoji: string) => {
+  const { error } = await supabase
+    .from('message_reactions')
+    .upsert(
+      { message_id: message.id, conversation_id: message.conversation_id, user_id: userId, emoji },
+      { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    return handleSupabaseError(error, `Error adding reaction: ${error.message}`);
+  }
+
+  return getMessageReactions(message.id);
+};
+
+// Take back a reaction
+export const removeReaction = async (messageId: string, userId: string, emoji: string) => {
+  const { error } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+    .eq('emoji', emoji);
+
+  if (error) {
+    return handleSupabaseError(error, `Error removing reaction: ${error.message}`);
+  }
+
+  return getMessageReactions(messageId);
+};
+
+// Get a page of messages for a conversation, oldest first. Without a
+// cursor this is the newest page; `before` and
+// `after` page back or forward from a message, so messages arriving in the
+// meantime never shift a page. `hasMore` says whether there are more
+// messages beyond the page in that direction. Each message carries a
+// preview of the message it replies to, its attachment, its reactions and its
+// receipts: when it reached each participant (`delivered_to`) and when they
+// read it (`read_by`). `delivered` and `read` mean it has reached or been read
+// by the user, or for the user's own messages by every other participant.
+export const getMessages = async (
+  conversation: Conversation,
+  userId: string,
+  options: { limit?: number; before?: MessageCursor; after?: MessageCursor } = {}
+) => {
+  const conversationId = conversation.id!;
+  const { limit = DEFAULT_MESSAGE_PAGE_SIZE, before, after } = options;
+
   try {
-    // console.log(`Getting messages for conversation ${conversationId} (page ${page}, limit ${limit})`);
-    
     // Check if tables exist first
     if (!(await checkTablesExist())) {
-      return {
-        messages: [],
-        totalMessages: 0,
-        currentPage: page,
-        totalPages: 0,
-      };
+      return { messages: [], hasMore: false };
     }
-    
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
+
+    const { cleared_before } = (await fetchSettings([conversationId], userId)).get(conversationId)!;
 
     // Get messages - specify enough columns to avoid overflow
-    const { data: messages, error: messagesError, count } = await supabase
+    let query = supabase
       .from('messages')
-      .select('id, conversation_id, sender_id, recipient_id, text, media_url, media_type, read, created_at, updated_at', { count: 'exact' })
-      .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true })
-      .range(from, to);
+      .select('id, conversation_id, sender_id, recipient_id, text, media_url, media_type, attachment_id, story_id, story_media_url, story_media_type, story_expires_at, reply_to_id, edited_at, deleted_at, created_at, updated_at')
+      .eq('conversation_id', conversationId);
+
+    // Messages from before the user deleted the conversation stay cleared
+    if (cleared_before) {
+      query = query.gt('created_at', cleared_before);
+    }
+
+    // Order by (created_at, id) so messages sent at the same instant still
+    // page in a stable order. Fetch one extra to tell whether there are more.
+    if (after) {
+      query = query
+        .or(`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+    } else {
+      if (before) {
+        query = query.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+      }
+      query = query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
+    }
+
+    const { data: messages, error: messagesError } = await query.limit(limit + 1);
 
     if (messagesError) {
       console.error('Supabase error fetching messages:', messagesError);
-      return {
-        messages: [],
-        totalMessages: 0,
-        currentPage: page,
-        totalPages: 0,
-      };
+      return { messages: [], hasMore: false };
     }
 
-    // console.log(`Found ${messages?.length || 0} messages for conversation ${conversationId}`);
-
-    // Mark messages as read
-    try {
-      await supabase
-        .from('messages')
-        .update({ read: true })
-        .eq('conversation_id', conversationId)
-        .eq('read', false);
-    } catch (updateError) {
-      console.error('Error marking messages as read:', updateError);
-      // Continue even if marking as read fails
+    const hasMore = (messages || []).length > limit;
+    const pageMessages = (messages || []).slice(0, limit);
+    // Pages going back are fetched newest first; return every page oldest first
+    if (!after) {
+      pageMessages.reverse();
     }
 
+    const messageIds = pageMessages.map(message => message.id);
+    const replyToIds = Array.from(new Set(
+      pageMessages.map(message => message.reply_to_id).filter((id): id is string => !!id)
+    ));
+    const attachmentIds = pageMessages
+      .map(message => message.attachment_id)
+      .filter((id): id is string => !!id);
+    const [receiptsByMessage, reactionsByMessage, replyPreviews, attachments] = await Promise.all([
+      fetchReceipts(messageIds),
+      fetchReactions(messageIds),
+      fetchReplyPreviews(replyToIds),
+      fetchAttachments(attachmentIds),
+    ]);
+
     return {
-      messages: messages || [],
-      totalMessages: count || 0,
-      currentPage: page,
-      totalPages: Math.ceil((count || 0) / limit),
+      messages: pageMessages.map(message => {
+        const receipts = receiptsByMessage.get(message.id) || [];
+        return {
+          ...message,
+          reply_to: message.reply_to_id ? replyPreviews.get(message.reply_to_id) || null : null,
+          attachment: message.attachment_id ? attachments.get(message.attachment_id) || null : null,
+          reactions: reactionsByMessage.get(message.id) || [],
+          ...receiptStateFor(message, receipts, conversation.participants, userId),
+        };
+      }),
+      hasMore,
     };
   } catch (error: any) {
     console.error('Error in getMessages:', error);
     
     // Return empty results instead of throwing
+    return { messages: [], hasMore: false };
+  }
+};
+
+// Change some of the user's settings for a conversation
+export const updateConversationSettings = async (
+  conversationId: string,
+  userId: string,
+  changes: Partial<ConversationSettings>
+): Promise<ConversationSettings> => {
+  const { data, error } = await supabase
+    .from('conversation_settings')
+    .upsert(
+      { conversation_id: conversationId, user_id: userId, ...changes, updated_at: new Date().toISOString() },
+      { onConflict: 'conversation_id,user_id' }
+    )
+    .select(settingsColumns)
+    .single();
+
+  if (error) {
+    return handleSupabaseError(error, `Error updating conversation settings: ${error.message}`);
+  }
+
+  const { conversation_id, ...settings } = data;
+  return { ...defaultSettings, ...settings };
+};
+
+// Delete a conversation for the user only: hide it and clear its history
+export const clearConversation = (conversationId: string, userId: string) =>
+  updateConversationSettings(conversationId, userId, {
+    hidden: true,
+    cleared_before: new Date().toISOString(),
+    archived: false,
+    pinned: false,
+  });
+
+// Full-text search over the messages in a user's conversations, or in one
+// conversation, newest first. Unsent messages never match.
+export const searchMessages = async (
+  userId: string,
+  query: string,
+  options: { conversationId?: string; page?: number; limit?: number } = {}
+) => {
+  const { conversationId, page = 1, limit = 20 } = options;
+
+  if (!(await checkTablesExist())) {
     return {
-      messages: [],
-      totalMessages: 0,
+      results: [] as MessageSearchResult[],
+      totalResults: 0,
       currentPage: page,
       totalPages: 0,
     };
   }
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    user_id: userId,
+    search_query: query,
+    in_conversation: conversationId || null,
+    result_limit: limit,
+    result_offset: (page - 1) * limit,
+  });
+
+  if (error) {
+    return handleSupabaseError(error, 'Error searching messages');
+  }
+
+  const rows = (data || []) as Array<Omit<MessageSearchResult, 'conversation'> & { total_count: number }>;
+  const totalResults = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+  // Attach the conversation each match is in, so results can be shown without a lookup
+  const conversationIds = Array.from(new Set(rows.map(row => row.conversation_id)));
+  const conversationsById = new Map<string, MessageSearchResult['conversation']>();
+  if (conversationIds.length > 0) {
+    const { data: conversations, error: convoError } = await supabase
+      .from('conversations')
+      .select('id, participants, is_group, name, avatar_url')
+      .in('id', conversationIds);
+
+    if (convoError) {
+      console.error('Supabase error fetching searched conversations:', convoError);
+    }
+
+    (conversations || []).forEach(conversation => conversationsById.set(conversation.id, conversation));
+  }
+
+  return {
+    results: rows.map(({ total_count, ...row }): MessageSearchResult => ({
+      ...row,
+      conversation: conversationsById.get(row.conversation_id) || null,
+    })),
+    totalResults,
+    currentPage: page,
+    totalPages: Math.ceil(totalResults / limit),
+  };
 };
 
-// Get unread message count for a user
+// Get unread message count for a user: messages from other participants
+// in the user's conversations that the user has no read receipt for
 export const getUnreadCount = async (userId: string) => {
   try {
     // console.log(`Getting unread message count for user ${userId}`);
@@ -406,72 +1258,122 @@ export const getUnreadCount = async (userId: string) => {
       return { unreadCount: 0 };
     }
     
-    const { count, error } = await supabase
-      .from('messages')
-      .select('*', { count: 'exact', head: true })
-      .eq('recipient_id', userId)
-      .eq('read', false);
+    const { data, error } = await supabase.rpc('get_unread_count', { user_id: userId });
 
     if (error) {
       console.error('Supabase error getting unread count:', error);
       return { unreadCount: 0 };
     }
 
-    // console.log(`User ${userId} has ${count || 0} unread messages`);
-    return { unreadCount: count || 0 };
+    // Muted and archived conversations keep their own counts but don't add to the total
+    const rows = (data || []) as Array<{ conversation_id: string; unread_count: number }>;
+    const settingsByConversation = await fetchSettings(rows.map(row => row.conversation_id), userId);
+    const unreadCount = rows
+      .filter(row => {
+        const settings = settingsByConversation.get(row.conversation_id)!;
+        return !settings.archived && !isMuted(settings);
+      })
+      .reduce((total, row) => total + Number(row.unread_count), 0);
+
+    // console.log(`User ${userId} has ${unreadCount} unread messages`);
+    return { unreadCount };
   } catch (error: any) {
     console.error('Error in getUnreadCount:', error);
     return { unreadCount: 0 };
   }
 };
 
-// Mark messages as read in a conversation for a user
-export const markMessagesAsRead = async (conversationId: string, userId: string) => {
+// Record read receipts for a user in a conversation, for the given messages
+// or for every message from other participants. Only messages that were not
+// already read are returned.
+export const markMessagesAsRead = async (conversationId: string, userId: string, messageIds?: string[]) => {
   try {
     // console.log(`Marking messages as read in conversation ${conversationId} for user ${userId}`);
     
     // Check if tables exist first
     if (!(await checkTablesExist())) {
-      return { markedMessageIds: [] };
-    }
-    
-    // Find all unread messages in this conversation where the user is the recipient
-    const { data: messagesToMark, error: findError } = await supabase
-      .from('messages')
-      .select('id')
-      .eq('conversation_id', conversationId)
-      .eq('recipient_id', userId)
-      .eq('read', false);
-      
-    if (findError) {
-      console.error('Error finding messages to mark as read:', findError);
-      return { markedMessageIds: [] };
+      return { markedMessageIds: [], markedMessages: [] };
     }
     
-    if (!messagesToMark || messagesToMark.length === 0) {
-      // console.log('No unread messages to mark as read');
-      return { markedMessageIds: [] };
-    }
-    
-    // Extract the message IDs
-    const messageIds = messagesToMark.map(msg => msg.id);
-    // console.log(`Found ${messageIds.length} messages to mark as read`);
-    
-    // Update the messages to mark them as read
-    const { error: updateError } = await supabase
-      .from('messages')
-      .update({ read: true })
-      .in('id', messageIds);
-      
-    if (updateError) {
-      console.error('Error marking messages as read:', updateError);
-      return { markedMessageIds: [] };
+    // Find and mark the unread messages in the database, so long
+    // conversations are never cut short by a row limit. Reading a message
+    // also delivers it, if it had not reached the user yet.
+    const readAt = new Date().toISOString();
+    const { data: marked, error } = await supabase.rpc('mark_messages_read', {
+      conversation_id: conversationId,
+      user_id: userId,
+      read_at: readAt,
+      message_ids: messageIds && messageIds.length > 0 ? messageIds : null,
+    });
+
+    if (error) {
+      console.error('Error marking messages as read:', error);
+      return { markedMessageIds: [], markedMessages: [] };
     }
+
+    const markedMessages = (marked || []) as Array<{ id: string; sender_id: string }>;
     
-    // console.log(`Successfully marked ${messageIds.length} messages as read`);
-    return { markedMessageIds: messageIds };
+    // console.log(`Successfully marked ${markedMessages.length} messages as read`);
+    return {
+      markedMessageIds: markedMessages.map(message => message.id),
+      markedMessages,
+      readAt,
+    };
   } catch (error: any) {
     console.error('Error in markMessagesAsRead:', error);
-    return { markedMessageIds: [] };
+    return { markedMessageIds: [], markedMessages: [] };
+  }
+};
+
+// Record delivery receipts for a user in a conversation: the given messages
+// from other participants have reached one of the user's devices. Only
+// messages that had not already reached the user are returned.
+export const markMessagesDelivered = async (conversationId: string, userId: string, messageIds: string[]) => {
+  const { data: messages, error: findError } = await supabase
+    .from('messages')
+    .select('id, sender_id')
+    .eq('conversation_id', conversationId)
+    .neq('sender_id', userId)
+    .in('id', messageIds);
+
+  if (findError) {
+    return handleSupabaseError(findError, `Error finding messages to mark as delivered: ${findError.message}`);
+  }
+
+  const { data: receipts, error: receiptsError } = await supabase
+    .from('message_receipts')
+    .select('message_id')
+    .eq('user_id', userId)
+    .in('message_id', messageIds);
+
+  if (receiptsError) {
+    return handleSupabaseError(receiptsError, `Error finding delivery receipts: ${receiptsError.message}`);
   }
-}; 
\ No newline at end of file
+
+  const alreadyDelivered = new Set((receipts || []).map(receipt => receipt.message_id));
+  const deliveredMessages: Array<{ id: string; sender_id: string }> =
+    (messages || []).filter(message => !alreadyDelivered.has(message.id));
+  const deliveredAt = new Date().toISOString();
+
+  if (deliveredMessages.length === 0) {
+    return { deliveredMessages, deliveredAt };
+  }
+
+  const { error: insertError } = await supabase
+    .from('message_receipts')
+    .upsert(
+      deliveredMessages.map(message => ({
+        message_id: message.id,
+        conversation_id: conversationId,
+        user_id: userId,
+        delivered_at: deliveredAt,
+      })),
+      { onConflict: 'message_id,user_id', ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    return handleSupabaseError(insertError, `Error marking messages as delivered: ${insertError.message}`);
+  }
+
+  return { deliveredMessages, deliveredAt };
+};
\ No newline at end of file
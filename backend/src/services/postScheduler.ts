@@ -0,0 +1,48 @@
+import PostDraft from '../models/PostDraft';
+import { publishDraft } from './postService';
+
+// A claim older than this belongs to a publish that crashed and may be retried
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Publish every scheduled draft that is due. Each draft is claimed atomically
+ * before publishing, so overlapping runs or server instances never publish it twice.
+ * @returns Number of posts published
+ */
+export const publishDueDrafts = async (): Promise<number> => {
+  let published = 0;
+
+  for (;;) {
+    const now = new Date();
+    const draft = await PostDraft.findOneAndUpdate(
+      {
+        publishAt: { $lte: now },
+        $or: [{ claimedAt: null }, { claimedAt: { $lt: new Date(now.getTime() - CLAIM_TIMEOUT_MS) } }],
+      },
+      { $set: { claimedAt: now } },
+      { new: true, sort: { publishAt: 1 } }
+    );
+
+    if (!draft) {
+      return published;
+    }
+
+    try {
+      await publishDraft(draft, { notifyAuthor: true });
+      published += 1;
+    } catch (error) {
+      // Unschedule the draft so it is not retried forever; the author sees why it failed
+      console.error(`Failed to publish scheduled draft ${draft._id}:`, error);
+      await PostDraft.updateOne(
+        { _id: draft._id },
+        {
+          $set: {
+            publishAt: null,
+            claimedAt: null,
+            publishError: error instanceof Error ? error.message : 'Publishing failed',
+          },
+        }
+      );
+    }
+  }
+};
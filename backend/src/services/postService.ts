@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import Post from '../models/Post';
+import PostDraft, { IPostDraft } from '../models/PostDraft';
+import User from '../models/User';
+import { createNotification } from '../controllers/notificationController';
+import { extractHashtags, extractMentions, escapeRegex } from '../utils/textEntities';
+import { PostVisibility } from '../utils/postVisibility';
+import { parsePollInput } from '../utils/polls';
+
+export const MAX_POST_IMAGES = 5;
+
+// Cloudinary folder holding a user's post images
+export const postImageFolder = (userId: mongoose.Types.ObjectId | string) => `social-app/posts/${userId}`;
+
+// Resolve @usernames in a description to the IDs of users that exist
+export const resolveMentions = async (description: string): Promise<mongoose.Types.ObjectId[]> => {
+  const usernames = extractMentions(description);
+  if (usernames.length === 0) {
+    return [];
+  }
+
+  return User.find({
+    username: { $in: usernames.map(username => new RegExp(`^${escapeRegex(username)}$`, 'i')) },
+  }).distinct('_id');
+};
+
+// Send a 'mention' notification to each mentioned user except the author
+export const notifyMentions = async (
+  mentionedIds: mongoose.Types.ObjectId[],
+  authorId: mongoose.Types.ObjectId,
+  postId: mongoose.Types.ObjectId
+) => {
+  await Promise.all(
+    mentionedIds
+      .filter(id => !id.equals(authorId))
+      .map(id => createNotification(id.toString(), authorId.toString(), 'mention', postId.toString()))
+  );
+};
+
+interface NewPost {
+  userId: mongoose.Types.ObjectId;
+  description: string;
+  mood?: string;
+  images: string[];
+  visibility?: PostVisibility;
+  poll?: { options: { text: string }[]; closesAt: Date | null };
+}
+
+/**
+ * Create a post from already uploaded images, add it to the author's posts
+ * and notify mentioned users. Used for immediate and scheduled publishing.
+ */
+export const publishPost = async ({ userId, description, mood, images, visibility, poll }: NewPost) => {
+  const mentions = await resolveMentions(description);
+
+  const post = await Post.create({
+    user: userId,
+    description,
+    mood,
+    images,
+    visibility: visibility || 'public',
+    hashtags: extractHashtags(description),
+    mentions,
+    poll,
+  });
+
+  await notifyMentions(mentions, userId, post._id);
+  await User.findByIdAndUpdate(userId, { $push: { posts: post._id } });
+
+  return post;
+};
+
+/**
+ * Turn a draft into a live post and delete the draft. Scheduled drafts also
+ * notify their author, who is not around to see the post go out.
+ * @throws If the draft's poll no longer validates or the post cannot be saved
+ */
+export const publishDraft = async (draft: IPostDraft, { notifyAuthor = false } = {}) => {
+  let poll;
+  if (draft.poll) {
+    const { options, durationHours, closesAt } = draft.poll;
+    const parsed = parsePollInput({ options, durationHours, closesAt });
+    if (parsed.error) {
+      throw new Error(parsed.error);
+    }
+    poll = parsed.poll;
+  }
+
+  const post = await publishPost({
+    userId: draft.user,
+    description: draft.description,
+    mood: draft.mood,
+    images: draft.images,
+    visibility: draft.visibility,
+    poll,
+  });
+
+  await PostDraft.deleteOne({ _id: draft._id });
+
+  if (notifyAuthor) {
+    await createNotification(draft.user.toString(), draft.user.toString(), 'postPublished', post._id.toString());
+  }
+
+  return post;
+};
@@ -0,0 +1,33 @@
+import { Server as SocketIoServer } from 'socket.io';
+
+// Socket.IO server, registered by server.ts once it is created
+let io: SocketIoServer | null = null;
+
+export const setSocketServer = (server: SocketIoServer) => {
+  io = server;
+};
+
+// Every authenticated socket joins a room for its user
+export const userRoom = (userId: string) => `user:${userId}`;
+
+/**
+ * Emit an event to all connected sockets of the given users. Users who are
+ * offline simply miss it; clients refetch on reconnect.
+ */
+export const emitToUsers = (userIds: string[], event: string, payload: unknown) => {
+  if (!io || userIds.length === 0) return;
+  io.to(userIds.map(userRoom)).emit(event, payload);
+};
+
+// Take users' sockets out of a conversation's room, such as when they leave
+// a group, so room events stop reaching them
+export const removeUsersFromConversation = (userIds: string[], conversationId: string) => {
+  if (!io || userIds.length === 0) return;
+  io.in(userIds.map(userRoom)).socketsLeave(conversationId);
+};
+
+// Emit an event to every socket that has joined a conversation's room
+export const emitToConversation = (conversationId: string, event: string, payload: unknown) => {
+  if (!io) return;
+  io.to(conversationId).emit(event, payload);
+};
@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import Story from '../models/Story';
+import Highlight from '../models/Highlight';
+import { deleteFromCloudinary } from '../config/cloudinary';
+
+const STORY_PURGE_BATCH_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cloudinary folder holding a user's story media
+export const storyMediaFolder = (userId: mongoose.Types.ObjectId | string) => `social-app/stories/${userId}`;
+
+/**
+ * Convert story viewers saved as bare user ids, from before view times were
+ * recorded, to { user, viewedAt }. Their view time is taken to be when the
+ * story was posted.
+ * @returns Number of stories converted
+ */
+export const migrateLegacyStoryViewers = async () => {
+  const result = await Story.updateMany({ viewers: { $type: 'objectId' } }, [
+    {
+      $set: {
+        viewers: {
+          $map: {
+            input: '$viewers',
+            as: 'view',
+            in: {
+              $cond: [
+                { $eq: [{ $type: '$$view' }, 'objectId'] },
+                { user: '$$view', viewedAt: '$createdAt' },
+                '$$view',
+              ],
+            },
+          },
+        },
+      },
+    },
+  ]);
+
+  return { migrated: result.modifiedCount };
+};
+
+/**
+ * Delete stories that expired more than archiveDays ago, along with their
+ * media. Until then they stay in the author's archive; stories saved to a
+ * highlight are never purged.
+ * @returns Number of stories deleted
+ */
+export const purgeExpiredStories = async (archiveDays: number) => {
+  const cutoff = new Date(Date.now() - archiveDays * DAY_MS);
+  const highlighted = await Highlight.distinct('stories');
+  let purged = 0;
+
+  for (;;) {
+    const stories = await Story.find({ expiresAt: { $lt: cutoff }, _id: { $nin: highlighted } })
+      .select('_id user mediaUrl')
+      .limit(STORY_PURGE_BATCH_SIZE)
+      .lean();
+
+    if (stories.length === 0) {
+      return { purged, archiveDays };
+    }
+
+    // Media lives in one folder per author
+    const urlsByUser = new Map<string, string[]>();
+    stories.forEach(story => {
+      const userId = story.user.toString();
+      urlsByUser.set(userId, [...(urlsByUser.get(userId) || []), story.mediaUrl]);
+    });
+
+    for (const [userId, urls] of urlsByUser) {
+      await deleteFromCloudinary(urls, storyMediaFolder(userId));
+    }
+
+    const result = await Story.deleteMany({ _id: { $in: stories.map(story => story._id) } });
+    purged += result.deletedCount;
+  }
+};
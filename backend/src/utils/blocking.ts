@@ -0,0 +1,15 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+
+/**
+ * Get every user blocked by, or blocking, the given user
+ * @param user The viewer (needs _id and blockedUsers)
+ * @returns IDs of users whose content must be hidden from the viewer
+ */
+export const getBlockedUserIds = async (user: {
+  _id: mongoose.Types.ObjectId;
+  blockedUsers?: mongoose.Types.ObjectId[];
+}): Promise<mongoose.Types.ObjectId[]> => {
+  const blockedBy = await User.find({ blockedUsers: user._id }).distinct('_id');
+  return [...(user.blockedUsers || []), ...blockedBy];
+};
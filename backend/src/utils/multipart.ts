@@ -0,0 +1,8 @@
+/**
+ * Normalize a repeatable multipart field. Fields arrive as a string when sent
+ * once and as an array when repeated.
+ */
+export const toArray = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+};
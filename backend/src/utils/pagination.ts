@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+
+export type SortDirection = 'asc' | 'desc';
+
+interface KeysetPosition {
+  createdAt: Date;
+  id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Encode a document's position as an opaque cursor string
+ * @param doc Document with createdAt and _id
+ * @returns Base64 cursor
+ */
+export const encodeCursor = (doc: { createdAt: Date; _id: any }): string => {
+  return Buffer.from(`${doc.createdAt.toISOString()}|${doc._id.toString()}`).toString('base64');
+};
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @param cursor Cursor from the query string
+ * @returns The decoded position, or null if the cursor is missing or malformed
+ */
+export const decodeCursor = (cursor: unknown): KeysetPosition | null => {
+  if (!cursor || typeof cursor !== 'string') {
+    return null;
+  }
+
+  const [createdAt, id] = Buffer.from(cursor, 'base64').toString('utf8').split('|');
+  const date = new Date(createdAt);
+
+  if (isNaN(date.getTime()) || !id || !mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  return { createdAt: date, id: new mongoose.Types.ObjectId(id) };
+};
+
+/**
+ * Build the filter that selects documents after a cursor position
+ * @param cursor Decoded cursor (no filter when null)
+ * @param direction Sort direction of the listing
+ * @param field Date field the listing is sorted on
+ * @returns Mongo filter to merge into the query
+ */
+export const keysetFilter = (
+  cursor: KeysetPosition | null,
+  direction: SortDirection = 'desc',
+  field = 'createdAt'
+) => {
+  if (!cursor) {
+    return {};
+  }
+
+  const op = direction === 'desc' ? '$lt' : '$gt';
+
+  return {
+    $or: [
+      { [field]: { [op]: cursor.createdAt } },
+      { [field]: cursor.createdAt, _id: { [op]: cursor.id } },
+    ],
+  };
+};
+
+/**
+ * Sort spec matching keysetFilter
+ * @param direction Sort direction of the listing
+ * @param field Date field the listing is sorted on
+ */
+export const keysetSort = (direction: SortDirection = 'desc', field = 'createdAt'): Record<string, 1 | -1> => {
+  const order = direction === 'desc' ? -1 : 1;
+  return { [field]: order, _id: order };
+};
+
+/**
+ * Parse a limit query parameter, clamped to [1, max]
+ */
+export const parseLimit = (value: unknown, defaultLimit = 20, max = 50): number => {
+  const limit = parseInt(value as string);
+  if (isNaN(limit) || limit < 1) {
+    return defaultLimit;
+  }
+  return Math.min(limit, max);
+};
+
+/**
+ * Trim a result fetched with limit + 1 and compute the next cursor
+ * @param docs Documents fetched with one extra row
+ * @param limit Page size requested
+ * @param field Date field the listing is sorted on
+ */
+export const paginate = <T extends { _id: any }>(docs: T[], limit: number, field = 'createdAt') => {
+  const hasMore = docs.length > limit;
+  const page = hasMore ? docs.slice(0, limit) : docs;
+  const last = page[page.length - 1] as any;
+
+  return {
+    data: page,
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor({ createdAt: last[field], _id: last._id }) : null,
+  };
+};
@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 4;
+const POLL_OPTION_MAX_LENGTH = 80;
+export const POLL_MAX_DURATION_HOURS = 7 * 24;
+
+interface PollInput {
+  options: { text: string }[];
+  closesAt: Date | null;
+}
+
+interface ParsedPoll {
+  poll?: PollInput;
+  // Set when the poll was given as a duration rather than a close time
+  durationHours?: number;
+  error?: string;
+}
+
+interface StoredPoll {
+  options: { text: string }[];
+  votes: { user: mongoose.Types.ObjectId; option: number }[];
+  closesAt?: Date | null;
+}
+
+/**
+ * Validate a poll sent with a new post.
+ * Multipart requests send the poll as a JSON string, JSON requests as an object.
+ * The poll may end at an absolute closesAt or durationHours after it starts.
+ * @param raw Value of the `poll` field
+ * @param startsAt When the poll goes live, which differs from now for scheduled posts
+ * @returns The poll to store, or an error message for the client
+ */
+export const parsePollInput = (raw: unknown, startsAt: Date = new Date()): ParsedPoll => {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { error: 'Invalid poll' };
+    }
+  }
+
+  if (!value || typeof value !== 'object' || !Array.isArray((value as any).options)) {
+    return { error: 'Invalid poll' };
+  }
+
+  const options = ((value as any).options as unknown[]).map(option =>
+    typeof option === 'string' ? option.trim() : ''
+  );
+
+  if (options.length < POLL_MIN_OPTIONS || options.length > POLL_MAX_OPTIONS) {
+    return { error: `A poll needs between ${POLL_MIN_OPTIONS} and ${POLL_MAX_OPTIONS} options` };
+  }
+
+  if (options.some(option => !option || option.length > POLL_OPTION_MAX_LENGTH)) {
+    return { error: `Poll options must be 1 to ${POLL_OPTION_MAX_LENGTH} characters` };
+  }
+
+  if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+    return { error: 'Poll options must be different' };
+  }
+
+  let closesAt: Date | null = null;
+  let hours: number | undefined;
+  const rawClosesAt = (value as any).closesAt;
+  const durationHours = (value as any).durationHours;
+  if (durationHours !== undefined && durationHours !== null) {
+    hours = Number(durationHours);
+    if (!Number.isFinite(hours) || hours <= 0 || hours > POLL_MAX_DURATION_HOURS) {
+      return { error: `Poll duration must be at most ${POLL_MAX_DURATION_HOURS} hours` };
+    }
+    closesAt = new Date(startsAt.getTime() + hours * 60 * 60 * 1000);
+  } else if (rawClosesAt) {
+    closesAt = new Date(rawClosesAt);
+    if (isNaN(closesAt.getTime()) || closesAt.getTime() <= Date.now()) {
+      return { error: 'Poll close time must be in the future' };
+    }
+  }
+
+  return { poll: { options: options.map(text => ({ text })), closesAt }, durationHours: hours };
+};
+
+/**
+ * Whether votes are still accepted
+ */
+export const isPollOpen = (poll: { closesAt?: Date | null }): boolean =>
+  !poll.closesAt || poll.closesAt.getTime() > Date.now();
+
+/**
+ * Aggregate a poll for a client. Individual votes are never exposed, only
+ * per-option counts and the viewer's own choice.
+ * @param poll Poll as stored on the post
+ * @param viewerId The requesting user, if any
+ */
+export const summarizePoll = (poll: StoredPoll, viewerId?: mongoose.Types.ObjectId | string) => {
+  const counts = poll.options.map(() => 0);
+  let myVote: number | null = null;
+
+  poll.votes.forEach(vote => {
+    if (counts[vote.option] !== undefined) {
+      counts[vote.option] += 1;
+    }
+    if (viewerId && vote.user.toString() === viewerId.toString()) {
+      myVote = vote.option;
+    }
+  });
+
+  return {
+    options: poll.options.map((option, index) => ({ text: option.text, votes: counts[index] })),
+    totalVotes: poll.votes.length,
+    closesAt: poll.closesAt || null,
+    closed: !isPollOpen(poll),
+    myVote,
+  };
+};
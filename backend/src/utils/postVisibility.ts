@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { getBlockedUserIds } from './blocking';
+
+export const POST_VISIBILITIES = ['public', 'followers', 'closeFriends'] as const;
+
+export type PostVisibility = typeof POST_VISIBILITIES[number];
+
+/**
+ * Check that a client-supplied value is a valid post audience
+ */
+export const isPostVisibility = (value: unknown): value is PostVisibility =>
+  typeof value === 'string' && (POST_VISIBILITIES as readonly string[]).includes(value);
+
+/**
+ * Build the filter matching every post the viewer is allowed to see.
+ * Combine it with other conditions through $and, since it uses $or.
+ * @param viewer The authenticated user, or undefined for anonymous requests
+ * @returns Mongo filter on the Post collection
+ */
+export const buildVisibilityFilter = async (viewer?: {
+  _id: mongoose.Types.ObjectId;
+  following: mongoose.Types.ObjectId[];
+  blockedUsers?: mongoose.Types.ObjectId[];
+}) => {
+  // Posts created before audiences existed have no visibility and are public
+  const isPublic = { visibility: { $in: ['public', null] } };
+
+  if (!viewer) {
+    return isPublic;
+  }
+
+  const [blockedIds, closeFriendOf] = await Promise.all([
+    getBlockedUserIds(viewer),
+    User.find({ closeFriends: viewer._id }).distinct('_id'),
+  ]);
+
+  return {
+    user: { $nin: blockedIds },
+    $or: [
+      isPublic,
+      { user: viewer._id },
+      { visibility: 'followers', user: { $in: viewer.following } },
+      { visibility: 'closeFriends', user: { $in: closeFriendOf } },
+    ],
+  };
+};
@@ -0,0 +1,73 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+
+export const STORY_AUDIENCES = ['followers', 'closeFriends'] as const;
+
+export type StoryAudience = typeof STORY_AUDIENCES[number];
+
+interface StoryViewer {
+  _id: mongoose.Types.ObjectId;
+  following: mongoose.Types.ObjectId[];
+}
+
+/**
+ * Check that a client-supplied value is a valid story audience
+ */
+export const isStoryAudience = (value: unknown): value is StoryAudience =>
+  typeof value === 'string' && (STORY_AUDIENCES as readonly string[]).includes(value);
+
+/**
+ * Whether the viewer may watch a story or highlight by the given author.
+ * Stories are shown to their author and the author's followers.
+ * @param authorId Author of the story
+ * @param viewer The authenticated user (needs _id and following)
+ */
+export const canSeeStoriesBy = (
+  authorId: mongoose.Types.ObjectId,
+  viewer: StoryViewer
+): boolean =>
+  authorId.equals(viewer._id) || viewer.following.some(id => id.equals(authorId));
+
+/**
+ * Whether the viewer is on the author's close-friends list
+ */
+export const isCloseFriendOf = async (
+  authorId: mongoose.Types.ObjectId,
+  viewerId: mongoose.Types.ObjectId
+): Promise<boolean> => !!(await User.exists({ _id: authorId, closeFriends: viewerId }));
+
+/**
+ * Whether the viewer may watch one particular story, taking a close-friends
+ * audience into account
+ */
+export const canSeeStory = async (
+  story: { user: mongoose.Types.ObjectId; audience?: StoryAudience },
+  viewer: StoryViewer
+): Promise<boolean> => {
+  if (!canSeeStoriesBy(story.user, viewer)) {
+    return false;
+  }
+
+  if (story.audience !== 'closeFriends' || story.user.equals(viewer._id)) {
+    return true;
+  }
+
+  return isCloseFriendOf(story.user, viewer._id);
+};
+
+/**
+ * Build the filter that hides close-friends stories from viewers who are not
+ * on the author's list. Combine it with other conditions through $and.
+ * @param viewer The authenticated user
+ * @returns Mongo filter on the Story collection
+ */
+export const buildStoryAudienceFilter = async (viewer: StoryViewer) => {
+  const closeFriendOf = await User.find({ closeFriends: viewer._id }).distinct('_id');
+
+  return {
+    $or: [
+      { audience: { $ne: 'closeFriends' } },
+      { user: { $in: [viewer._id, ...closeFriendOf] } },
+    ],
+  };
+};
@@ -0,0 +1,32 @@
+const HASHTAG_REGEX = /(^|[^\w#])#(\w{1,50})/g;
+const MENTION_REGEX = /(^|[^\w@])@([\w.]{3,30})/g;
+
+const collect = (text: string, regex: RegExp): string[] => {
+  const values = new Set<string>();
+  const pattern = new RegExp(regex.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    values.add(match[2].toLowerCase());
+  }
+  return Array.from(values);
+};
+
+/**
+ * Extract unique hashtags from a post description
+ * @param text Post description
+ * @returns Lowercased tags without the leading #
+ */
+export const extractHashtags = (text = ''): string[] => collect(text, HASHTAG_REGEX);
+
+/**
+ * Extract unique @mentions from a post description
+ * @param text Post description
+ * @returns Lowercased usernames without the leading @
+ */
+export const extractMentions = (text = ''): string[] =>
+  collect(text, MENTION_REGEX).map(username => username.replace(/\.+$/, ''));
+
+/**
+ * Escape a string for literal use inside a RegExp
+ */
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,99 @@
+// Bars in a voice note's waveform summary
+export const WAVEFORM_BARS = 48;
+
+// Voice notes are decoded at this rate to summarize them; plenty for loudness
+export const WAVEFORM_SAMPLE_RATE = 8000;
+
+// Uncompressed audio read from a WAV file
+export interface PcmAudio {
+  sampleRate: number;
+  channels: number;
+  // Interleaved 16-bit little-endian samples
+  data: Buffer;
+}
+
+/**
+ * Read the format and samples of a 16-bit PCM WAV file
+ * @param buffer File contents
+ * @returns The audio, or null if it is not a WAV file this can read
+ */
+export const parseWav = (buffer: Buffer): PcmAudio | null => {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= buffer.length) {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format || format.audioFormat !== 1 || format.bitsPerSample !== 16 || format.channels === 0) {
+        return null;
+      }
+      // Streamed files may not know their data size, so read to the end
+      return {
+        sampleRate: format.sampleRate,
+        channels: format.channels,
+        data: buffer.subarray(body, Math.min(body + chunkSize, buffer.length)),
+      };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+};
+
+/**
+ * Length of some audio
+ * @param audio Decoded audio
+ * @returns Duration in seconds
+ */
+export const pcmDuration = (audio: PcmAudio): number =>
+  audio.data.length / (2 * audio.channels) / audio.sampleRate;
+
+/**
+ * Summarize audio as the loudness of equal slices of it, for drawing a waveform
+ * @param audio Decoded audio
+ * @param bars Number of slices
+ * @returns Levels from 0 to 100, scaled so the loudest slice is 100
+ */
+export const summarizeWaveform = (audio: PcmAudio, bars = WAVEFORM_BARS): number[] => {
+  const frameSize = 2 * audio.channels;
+  const frames = Math.floor(audio.data.length / frameSize);
+  if (frames === 0) {
+    return [];
+  }
+
+  // Root mean square of the first channel over each slice
+  const levels: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar * frames) / bars);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * frames) / bars));
+    let sumOfSquares = 0;
+    let count = 0;
+
+    for (let frame = start; frame < end && frame < frames; frame++) {
+      const sample = audio.data.readInt16LE(frame * frameSize) / 32768;
+      sumOfSquares += sample * sample;
+      count++;
+    }
+
+    levels.push(count > 0 ? Math.sqrt(sumOfSquares / count) : 0);
+  }
+
+  const loudest = Math.max(...levels);
+  return levels.map(level => (loudest > 0 ? Math.round((level / loudest) * 100) : 0));
+};
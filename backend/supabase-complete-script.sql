@@ -5,35 +5,172 @@
 CREATE TABLE IF NOT EXISTS conversations (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   participants TEXT[] NOT NULL,
+  -- Group conversations have a name, an avatar and admins; direct
+  -- conversations always have exactly two participants
+  is_group BOOLEAN DEFAULT FALSE,
+  name TEXT,
+  avatar_url TEXT,
+  admins TEXT[] DEFAULT '{}',
+  created_by TEXT,
   last_message_id UUID,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create message attachments table: media uploaded to a conversation, which a
+-- message then references. Files and audio carry a name, size and duration;
+-- voice notes also carry a waveform summary, levels from 0 to 100.
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  uploader_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video', 'file', 'audio', 'voice')),
+  mime_type TEXT NOT NULL,
+  file_name TEXT,
+  size BIGINT NOT NULL,
+  duration REAL,
+  width INT,
+  height INT,
+  waveform INT[],
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create messages table
 CREATE TABLE IF NOT EXISTS messages (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
   sender_id TEXT NOT NULL,
-  recipient_id TEXT NOT NULL,
+  -- Only set on direct messages; group messages go to every participant
+  recipient_id TEXT,
   text TEXT,
   media_url TEXT,
-  media_type TEXT CHECK (media_type IN ('image', 'video') OR media_type IS NULL),
+  media_type TEXT CHECK (media_type IN ('image', 'video', 'file', 'audio', 'voice') OR media_type IS NULL),
+  -- The uploaded attachment that media_url and media_type were taken from
+  attachment_id UUID REFERENCES message_attachments(id) ON DELETE SET NULL,
+  story_id TEXT,
+  story_media_url TEXT,
+  story_media_type TEXT CHECK (story_media_type IN ('image', 'video') OR story_media_type IS NULL),
+  story_expires_at TIMESTAMP WITH TIME ZONE,
+  -- The earlier message in the same conversation that this one replies to
+  reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  -- Superseded by message_receipts, kept for databases created before it
   read BOOLEAN DEFAULT FALSE,
+  -- Set when the sender edits the text or unsends the message. Unsent
+  -- messages are kept as tombstones with their content cleared.
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  -- Full-text index of the message text, for message search
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', COALESCE(text, ''))) STORED,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create message receipts table: per-member delivery and read state, one
+-- row for each message that has reached a participant
+CREATE TABLE IF NOT EXISTS message_receipts (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  delivered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Null until the participant reads the message
+  read_at TIMESTAMP WITH TIME ZONE,
+  -- Set when the participant first plays a voice note
+  listened_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (message_id, user_id)
+);
+
+-- Create message reactions table: one row per user per emoji on a message
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+-- Create conversation settings table: each participant's own view of a
+-- conversation. Deleting a conversation hides it and clears the messages
+-- sent before then, until a new message arrives.
+CREATE TABLE IF NOT EXISTS conversation_settings (
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  hidden BOOLEAN DEFAULT FALSE,
+  cleared_before TIMESTAMP WITH TIME ZONE,
+  archived BOOLEAN DEFAULT FALSE,
+  muted_until TIMESTAMP WITH TIME ZONE,
+  pinned BOOLEAN DEFAULT FALSE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+-- Columns added after the first release, for databases created before them
+-- Story replies reference the story they answer
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS story_id TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS story_media_url TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS story_media_type TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS story_expires_at TIMESTAMP WITH TIME ZONE;
+-- Group conversations
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS is_group BOOLEAN DEFAULT FALSE;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS name TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS admins TEXT[] DEFAULT '{}';
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS created_by TEXT;
+ALTER TABLE messages ALTER COLUMN recipient_id DROP NOT NULL;
+-- Edited and unsent messages
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+-- Replies
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+-- Message search
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', COALESCE(text, ''))) STORED;
+-- Attachments, and the file and audio media types
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_id UUID REFERENCES message_attachments(id) ON DELETE SET NULL;
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_media_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_media_type_check
+  CHECK (media_type IN ('image', 'video', 'file', 'audio', 'voice') OR media_type IS NULL);
+-- Voice notes
+ALTER TABLE message_attachments ADD COLUMN IF NOT EXISTS waveform INT[];
+ALTER TABLE message_attachments DROP CONSTRAINT IF EXISTS message_attachments_media_type_check;
+ALTER TABLE message_attachments ADD CONSTRAINT message_attachments_media_type_check
+  CHECK (media_type IN ('image', 'video', 'file', 'audio', 'voice'));
+ALTER TABLE message_receipts ADD COLUMN IF NOT EXISTS listened_at TIMESTAMP WITH TIME ZONE;
+
+-- Delivery receipts
+ALTER TABLE message_receipts ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE message_receipts ALTER COLUMN read_at DROP DEFAULT;
+
+-- Receipts from before delivery was recorded were all for read messages
+UPDATE message_receipts SET delivered_at = read_at WHERE read_at IS NOT NULL AND delivered_at > read_at;
+
+-- Carry over read state from the messages.read flag
+INSERT INTO message_receipts (message_id, conversation_id, user_id, delivered_at, read_at)
+SELECT id, conversation_id, recipient_id, updated_at, updated_at
+FROM messages
+WHERE read = TRUE AND recipient_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_order ON messages(conversation_id, created_at DESC, id DESC);
 CREATE INDEX IF NOT EXISTS idx_conversations_participants ON conversations USING GIN (participants);
 CREATE INDEX IF NOT EXISTS idx_unread_messages ON messages(recipient_id) WHERE read = FALSE;
+CREATE INDEX IF NOT EXISTS idx_message_receipts_user ON message_receipts(user_id, conversation_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING GIN (search_vector);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_attachment ON messages(attachment_id) WHERE attachment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_attachments_created ON message_attachments(created_at);
 CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations(updated_at DESC);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
 
 -- Create policies to restrict access based on user authentication
 CREATE POLICY conversations_policy ON conversations
@@ -50,6 +187,44 @@ CREATE POLICY messages_policy ON messages
     )
   );
 
+-- Create policy for message receipts: users can only see receipts from conversations they are part of
+CREATE POLICY message_receipts_policy ON message_receipts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE id = message_receipts.conversation_id
+      AND participants @> array[auth.uid()::text]
+    )
+  );
+
+-- Create policy for message reactions: users can only see reactions in conversations they are part of
+CREATE POLICY message_reactions_policy ON message_reactions
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE id = message_reactions.conversation_id
+      AND participants @> array[auth.uid()::text]
+    )
+  );
+
+-- Create policy for conversation settings: users can only see their own
+CREATE POLICY conversation_settings_policy ON conversation_settings
+  FOR ALL
+  USING (user_id = auth.uid()::text);
+
+-- Create policy for message attachments: users can only see attachments in conversations they are part of
+CREATE POLICY message_attachments_policy ON message_attachments
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE id = message_attachments.conversation_id
+      AND participants @> array[auth.uid()::text]
+    )
+  );
+
 -- Setup realtime functionality for messages
 DROP PUBLICATION IF EXISTS supabase_realtime;
 CREATE PUBLICATION supabase_realtime FOR TABLE messages;
@@ -72,15 +247,137 @@ CREATE TRIGGER update_conversation_on_message
   FOR EACH ROW
   EXECUTE FUNCTION update_conversation_timestamp();
 
--- Add function to get unread message count for a user
+-- Add function to get unread message counts for a user, per conversation
 CREATE OR REPLACE FUNCTION get_unread_count(user_id TEXT)
 RETURNS TABLE (conversation_id UUID, unread_count BIGINT) AS $$
 BEGIN
   RETURN QUERY
   SELECT m.conversation_id, COUNT(*) as unread_count
   FROM messages m
-  WHERE m.recipient_id = user_id
-  AND m.read = FALSE
+  JOIN conversations c ON c.id = m.conversation_id
+  LEFT JOIN conversation_settings s
+    ON s.conversation_id = m.conversation_id
+    AND s.user_id = get_unread_count.user_id
+  WHERE c.participants @> ARRAY[get_unread_count.user_id]
+  AND m.sender_id <> get_unread_count.user_id
+  AND m.deleted_at IS NULL
+  AND (s.cleared_before IS NULL OR m.created_at > s.cleared_before)
+  AND NOT EXISTS (
+    SELECT 1 FROM message_receipts r
+    WHERE r.message_id = m.id
+    AND r.user_id = get_unread_count.user_id
+    AND r.read_at IS NOT NULL
+  )
   GROUP BY m.conversation_id;
 END;
+$$ LANGUAGE plpgsql;
+
+-- Record a user's read receipts in a conversation, for the given messages or
+-- for every message from other participants, delivering any that had not
+-- reached the user yet. Returns the messages that were not already read,
+-- with their senders.
+CREATE OR REPLACE FUNCTION mark_messages_read(
+  conversation_id UUID,
+  user_id TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  message_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (id UUID, sender_id TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  WITH unread AS (
+    SELECT m.id, m.sender_id
+    FROM messages m
+    WHERE m.conversation_id = mark_messages_read.conversation_id
+    AND m.sender_id <> mark_messages_read.user_id
+    AND (mark_messages_read.message_ids IS NULL OR m.id = ANY(mark_messages_read.message_ids))
+    AND NOT EXISTS (
+      SELECT 1 FROM message_receipts r
+      WHERE r.message_id = m.id
+      AND r.user_id = mark_messages_read.user_id
+      AND r.read_at IS NOT NULL
+    )
+  ), marked AS (
+    INSERT INTO message_receipts AS r (message_id, conversation_id, user_id, delivered_at, read_at)
+    SELECT u.id, mark_messages_read.conversation_id, mark_messages_read.user_id,
+      mark_messages_read.read_at, mark_messages_read.read_at
+    FROM unread u
+    ON CONFLICT ON CONSTRAINT message_receipts_pkey
+    DO UPDATE SET read_at = EXCLUDED.read_at
+    WHERE r.read_at IS NULL
+    RETURNING r.message_id
+  )
+  SELECT u.id, u.sender_id
+  FROM unread u
+  JOIN marked ON marked.message_id = u.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Delete up to max_count attachments uploaded before created_before that no
+-- message has sent, returning them so their uploads can be destroyed too
+CREATE OR REPLACE FUNCTION purge_unsent_attachments(created_before TIMESTAMP WITH TIME ZONE, max_count INT)
+RETURNS TABLE (id UUID, conversation_id UUID, url TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  WITH purged AS (
+    DELETE FROM message_attachments a
+    WHERE a.id IN (
+      SELECT u.id
+      FROM message_attachments u
+      WHERE u.created_at < purge_unsent_attachments.created_before
+      AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.attachment_id = u.id)
+      ORDER BY u.created_at
+      LIMIT purge_unsent_attachments.max_count
+    )
+    RETURNING a.id, a.conversation_id, a.url
+  )
+  SELECT p.id, p.conversation_id, p.url FROM purged p;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Search the text of messages in a user's conversations, or in one of them,
+-- newest first, skipping messages the user cleared by deleting the
+-- conversation. Snippets wrap each match in <mark></mark>; total_count is
+-- the number of matches across all pages.
+CREATE OR REPLACE FUNCTION search_messages(
+  user_id TEXT,
+  search_query TEXT,
+  in_conversation UUID DEFAULT NULL,
+  result_limit INT DEFAULT 20,
+  result_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  sender_id TEXT,
+  snippet TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+) AS $$
+DECLARE
+  parsed_query TSQUERY := websearch_to_tsquery('simple', search_query);
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    ts_headline('simple', m.text, parsed_query,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=5, MaxWords=20, MaxFragments=2, FragmentDelimiter=" ... "'),
+    m.created_at,
+    COUNT(*) OVER ()
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  LEFT JOIN conversation_settings s
+    ON s.conversation_id = m.conversation_id
+    AND s.user_id = search_messages.user_id
+  WHERE c.participants @> ARRAY[search_messages.user_id]
+  AND (in_conversation IS NULL OR m.conversation_id = in_conversation)
+  AND m.deleted_at IS NULL
+  AND (s.cleared_before IS NULL OR m.created_at > s.cleared_before)
+  AND m.search_vector @@ parsed_query
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
 $$ LANGUAGE plpgsql; 
\ No newline at end of file
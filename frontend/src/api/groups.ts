@@ -0,0 +1,133 @@
+import axios from 'axios';
+import { API_URL } from '../utils/config';
+import { User } from '../types/User';
+
+const GROUPS_ENDPOINT = `${API_URL}/api/chat/groups`;
+
+// A group conversation with its member profiles
+export interface Group {
+  id: string;
+  is_group: true;
+  name: string;
+  avatar_url: string | null;
+  participants: string[];
+  admins: string[];
+  created_by: string;
+  created_at: string;
+  members: User[];
+}
+
+// A picked image for a group avatar
+export interface GroupAvatar {
+  uri: string;
+  mimeType?: string;
+  fileName?: string | null;
+}
+
+const appendAvatar = (formData: FormData, avatar: GroupAvatar) => {
+  const fileName = avatar.fileName || avatar.uri.split('/').pop() || 'avatar.jpg';
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  formData.append('avatar', {
+    uri: avatar.uri,
+    type: avatar.mimeType || `image/${extension === 'jpg' || !extension ? 'jpeg' : extension}`,
+    name: fileName,
+  } as any);
+};
+
+// Create a group with the current user as its admin
+export const createGroup = async (name: string, participantIds: string[], avatar?: GroupAvatar | null): Promise<Group> => {
+  try {
+    const formData = new FormData();
+    formData.append('name', name);
+    participantIds.forEach(id => formData.append('participantIds', id));
+    if (avatar) {
+      appendAvatar(formData, avatar);
+    }
+
+    const response = await axios.post(GROUPS_ENDPOINT, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error creating group:', error);
+    throw error;
+  }
+};
+
+// Get a group with its members
+export const getGroup = async (id: string): Promise<Group> => {
+  try {
+    const response = await axios.get(`${GROUPS_ENDPOINT}/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching group ${id}:`, error);
+    throw error;
+  }
+};
+
+// Rename a group or change its avatar (admins only)
+export const updateGroup = async (id: string, changes: { name?: string; avatar?: GroupAvatar | null }): Promise<Group> => {
+  try {
+    const formData = new FormData();
+    if (changes.name !== undefined) {
+      formData.append('name', changes.name);
+    }
+    if (changes.avatar) {
+      appendAvatar(formData, changes.avatar);
+    }
+
+    const response = await axios.put(`${GROUPS_ENDPOINT}/${id}`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating group ${id}:`, error);
+    throw error;
+  }
+};
+
+// Add members to a group (admins only)
+export const addGroupMembers = async (id: string, userIds: string[]): Promise<Group> => {
+  try {
+    const response = await axios.post(`${GROUPS_ENDPOINT}/${id}/members`, { userIds });
+    return response.data;
+  } catch (error) {
+    console.error(`Error adding members to group ${id}:`, error);
+    throw error;
+  }
+};
+
+// Remove a member from a group (admins only)
+export const removeGroupMember = async (id: string, userId: string): Promise<Group> => {
+  try {
+    const response = await axios.delete(`${GROUPS_ENDPOINT}/${id}/members/${userId}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error removing member from group ${id}:`, error);
+    throw error;
+  }
+};
+
+// Leave a group
+export const leaveGroup = async (id: string) => {
+  try {
+    const response = await axios.post(`${GROUPS_ENDPOINT}/${id}/leave`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error leaving group ${id}:`, error);
+    throw error;
+  }
+};
+
+// Make a member an admin, or take admin rights away (admins only)
+export const setGroupAdmin = async (id: string, userId: string, isAdmin: boolean): Promise<Group> => {
+  try {
+    const url = `${GROUPS_ENDPOINT}/${id}/admins/${userId}`;
+    const response = isAdmin ? await axios.post(url) : await axios.delete(url);
+    return response.data;
+  } catch (error) {
+    console.error(`Error changing admins of group ${id}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { API_URL } from '../utils/config';
+import { User } from '../types/User';
+
+const CHAT_ENDPOINT = `${API_URL}/api/chat`;
+
+// A message matching a search, with what is needed to show where it was sent
+export interface MessageSearchResult {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  snippet: string; // Excerpt of the text with each match wrapped in <mark></mark>
+  created_at: string;
+  sender: User | null;
+  other_participant: User | null; // Only set for direct conversations
+  conversation: {
+    id: string;
+    participants: string[];
+    is_group?: boolean;
+    name?: string | null;
+    avatar_url?: string | null;
+  } | null;
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchResult[];
+  totalResults: number;
+  currentPage: number;
+  totalPages: number;
+}
+
+// Search message text across the user's conversations, or within one
+export const searchMessages = async (
+  query: string,
+  options: { conversationId?: string; page?: number } = {}
+): Promise<MessageSearchPage> => {
+  try {
+    const url = options.conversationId
+      ? `${CHAT_ENDPOINT}/conversations/${options.conversationId}/search`
+      : `${CHAT_ENDPOINT}/search`;
+    const response = await axios.get(url, { params: { q: query, page: options.page || 1 } });
+    return response.data;
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    throw error;
+  }
+};
+
+export type MessageMediaType = 'image' | 'video' | 'file' | 'audio' | 'voice';
+
+// Media uploaded to a conversation, which a message then sends by its id
+export interface MessageAttachment {
+  id: string;
+  conversation_id: string;
+  uploader_id: string;
+  url: string;
+  media_type: MessageMediaType;
+  mime_type: string;
+  file_name: string | null;
+  size: number; // Bytes
+  duration: number | null; // Seconds, for audio and video
+  width: number | null;
+  height: number | null;
+  waveform: number[] | null; // Voice notes only: loudness levels from 0 to 100
+  created_at: string;
+}
+
+// A picked file to upload as an attachment
+export interface AttachmentFile {
+  uri: string;
+  mimeType: string;
+  fileName: string;
+  duration?: number | null; // Seconds, for audio and video
+  voiceNote?: boolean; // Recorded in the app rather than picked
+}
+
+// Upload a file to send in a conversation, or in a new direct conversation
+// with a recipient
+export const uploadAttachment = async (
+  file: AttachmentFile,
+  target: { conversationId?: string | null; recipientId?: string | null }
+): Promise<MessageAttachment> => {
+  try {
+    const formData = new FormData();
+    formData.append('file', {
+      uri: file.uri,
+      type: file.mimeType,
+      name: file.fileName,
+    } as any);
+    if (target.conversationId) {
+      formData.append('conversationId', target.conversationId);
+    } else if (target.recipientId) {
+      formData.append('recipientId', target.recipientId);
+    }
+    if (file.duration) {
+      formData.append('duration', String(file.duration));
+    }
+    if (file.voiceNote) {
+      formData.append('voiceNote', 'true');
+    }
+
+    const response = await axios.post(`${CHAT_ENDPOINT}/attachments`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data.attachment;
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+};
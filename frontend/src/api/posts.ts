@@ -35,10 +35,21 @@ api.interceptors.request.use(
   }
 );
 
+// Who can see a post
+export type PostVisibility = 'public' | 'followers' | 'closeFriends';
+
+// Poll attached to a new post; it closes durationHours after the post goes live
+export interface PollInput {
+  options: string[];
+  durationHours?: number | null;
+}
+
 // Create a post with image
 export const createPost = async (postData: {
   description: string;
   mood?: string;
+  visibility?: PostVisibility;
+  poll?: PollInput;
   images?: any[];
 }) => {
   try {
@@ -50,6 +61,15 @@ export const createPost = async (postData: {
     if (postData.mood) {
       formData.append('mood', postData.mood);
     }
+
+    if (postData.visibility) {
+      formData.append('visibility', postData.visibility);
+    }
+
+    // Multipart bodies are flat, so the poll travels as JSON
+    if (postData.poll) {
+      formData.append('poll', JSON.stringify(postData.poll));
+    }
     
     // Add images if they exist
     if (postData.images && postData.images.length > 0) {
@@ -103,4 +123,229 @@ export const getPostById = async (id: string) => {
     console.error(`Error fetching post ${id}:`, error);
     throw error;
   }
-}; 
\ No newline at end of file
+}; 
+// Update a post: description, mood, new images and images to remove
+export const updatePost = async (id: string, postData: {
+  description?: string;
+  mood?: string;
+  images?: string[];
+  removeImages?: string[];
+}) => {
+  try {
+    const formData = new FormData();
+
+    if (postData.description !== undefined) {
+      formData.append('description', postData.description);
+    }
+
+    if (postData.mood !== undefined) {
+      formData.append('mood', postData.mood);
+    }
+
+    postData.removeImages?.forEach(url => {
+      formData.append('removeImages', url);
+    });
+
+    // Add new local images
+    postData.images?.forEach((image, index) => {
+      const imageName = image.split('/').pop();
+      const fileExtension = (imageName && imageName.split('.').pop()) || 'jpg';
+      const imageType = `image/${fileExtension === 'jpg' ? 'jpeg' : fileExtension}`;
+
+      formData.append('images', {
+        uri: image,
+        type: imageType,
+        name: imageName || `image_${index}.jpg`,
+      } as any);
+    });
+
+    const response = await api.put(`/posts/${id}`, formData);
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating post ${id}:`, error);
+    throw error;
+  }
+};
+
+// Delete a post
+export const deletePost = async (id: string) => {
+  try {
+    const response = await api.delete(`/posts/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error deleting post ${id}:`, error);
+    throw error;
+  }
+};
+
+// Like a post
+export const likePost = async (id: string) => {
+  try {
+    const response = await api.post(`/posts/${id}/like`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error liking post ${id}:`, error);
+    throw error;
+  }
+};
+
+// Unlike a post
+export const unlikePost = async (id: string) => {
+  try {
+    const response = await api.delete(`/posts/${id}/like`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error unliking post ${id}:`, error);
+    throw error;
+  }
+};
+
+// Repost a post, optionally with quote text
+export const repostPost = async (id: string, text?: string) => {
+  try {
+    const response = await api.post(
+      `/posts/${id}/repost`,
+      { text },
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+    return response.data;
+  } catch (error) {
+    console.error(`Error reposting post ${id}:`, error);
+    throw error;
+  }
+};
+
+// Undo a plain repost
+export const undoRepost = async (id: string) => {
+  try {
+    const response = await api.delete(`/posts/${id}/repost`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error undoing repost of post ${id}:`, error);
+    throw error;
+  }
+};
+
+// Vote in a poll, or change the vote while it is open
+export const votePoll = async (id: string, option: number) => {
+  try {
+    const response = await api.post(
+      `/posts/${id}/poll/vote`,
+      { option },
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+    return response.data;
+  } catch (error) {
+    console.error(`Error voting in poll ${id}:`, error);
+    throw error;
+  }
+};
+
+// A saved draft; drafts with publishAt are scheduled posts
+export interface PostDraft {
+  _id: string;
+  description: string;
+  mood?: string;
+  visibility: PostVisibility;
+  images: string[];
+  poll?: PollInput | null;
+  publishAt?: string | null;
+  publishError?: string;
+  updatedAt: string;
+}
+
+// List drafts; pass scheduled to get only scheduled posts or only plain drafts
+export const getDrafts = async (scheduled?: boolean) => {
+  try {
+    const response = await api.get('/posts/drafts', {
+      params: scheduled === undefined ? undefined : { scheduled },
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching drafts:', error);
+    throw error;
+  }
+};
+
+// Create a draft, or update one when draftId is given. A publishAt schedules
+// the post; an empty publishAt turns it back into a plain draft.
+export const saveDraft = async (draftData: {
+  description?: string;
+  mood?: string;
+  visibility?: PostVisibility;
+  poll?: PollInput | null;
+  publishAt?: string | null;
+  images?: string[];
+  removeImages?: string[];
+}, draftId?: string) => {
+  try {
+    const formData = new FormData();
+
+    if (draftData.description !== undefined) {
+      formData.append('description', draftData.description);
+    }
+
+    if (draftData.mood !== undefined) {
+      formData.append('mood', draftData.mood);
+    }
+
+    if (draftData.visibility) {
+      formData.append('visibility', draftData.visibility);
+    }
+
+    if (draftData.poll !== undefined) {
+      formData.append('poll', draftData.poll ? JSON.stringify(draftData.poll) : '');
+    }
+
+    if (draftData.publishAt !== undefined) {
+      formData.append('publishAt', draftData.publishAt || '');
+    }
+
+    draftData.removeImages?.forEach(url => {
+      formData.append('removeImages', url);
+    });
+
+    // Add new local images
+    draftData.images?.forEach((image, index) => {
+      const imageName = image.split('/').pop();
+      const fileExtension = (imageName && imageName.split('.').pop()) || 'jpg';
+      const imageType = `image/${fileExtension === 'jpg' ? 'jpeg' : fileExtension}`;
+
+      formData.append('images', {
+        uri: image,
+        type: imageType,
+        name: imageName || `image_${index}.jpg`,
+      } as any);
+    });
+
+    const response = draftId
+      ? await api.put(`/posts/drafts/${draftId}`, formData)
+      : await api.post('/posts/drafts', formData);
+    return response.data;
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    throw error;
+  }
+};
+
+// Discard a draft or cancel a scheduled post
+export const deleteDraft = async (id: string) => {
+  try {
+    const response = await api.delete(`/posts/drafts/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error deleting draft ${id}:`, error);
+    throw error;
+  }
+};
+
+// Publish a draft right away
+export const publishDraft = async (id: string) => {
+  try {
+    const response = await api.post(`/posts/drafts/${id}/publish`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error publishing draft ${id}:`, error);
+    throw error;
+  }
+};
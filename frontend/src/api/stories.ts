@@ -0,0 +1,232 @@
+import axios from 'axios';
+import { API_URL } from '../utils/config';
+
+const STORIES_ENDPOINT = `${API_URL}/api/stories`;
+
+export type StoryMediaType = 'image' | 'video';
+
+// Who a story is shown to: all followers, or only the close-friends list
+export type StoryAudience = 'followers' | 'closeFriends';
+
+export interface Story {
+  _id: string;
+  mediaUrl: string;
+  mediaType: StoryMediaType;
+  audience: StoryAudience;
+  createdAt: string;
+  expiresAt: string;
+  viewed: boolean;
+  // Set on stories in the tray that were shared to close friends only
+  closeFriends?: boolean;
+  // Only present on the current user's own stories
+  viewerCount?: number;
+}
+
+export interface StoryView {
+  user: {
+    _id: string;
+    username: string;
+    name: string;
+    profilePicture?: string;
+  };
+  viewedAt: string;
+}
+
+// One user's active stories, as shown in the story tray
+export interface StoryGroup {
+  user: {
+    _id: string;
+    username: string;
+    name: string;
+    profilePicture?: string;
+  };
+  isOwn: boolean;
+  allViewed: boolean;
+  // Whether any of the group's stories are for close friends only
+  closeFriends?: boolean;
+  stories: Story[];
+}
+
+// Picked media for a new story
+export interface StoryMedia {
+  uri: string;
+  mediaType: StoryMediaType;
+  mimeType?: string;
+  fileName?: string | null;
+}
+
+// Get the story tray: the current user's stories first, then followed users
+export const getStories = async (): Promise<StoryGroup[]> => {
+  try {
+    const response = await axios.get(STORIES_ENDPOINT);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching stories:', error);
+    throw error;
+  }
+};
+
+// Upload an image or video as a new story
+export const createStory = async (media: StoryMedia, audience: StoryAudience = 'followers') => {
+  try {
+    const fileName = media.fileName || media.uri.split('/').pop() || 'story';
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    const fallbackType = media.mediaType === 'video'
+      ? (extension === 'mov' ? 'video/quicktime' : 'video/mp4')
+      : `image/${extension === 'jpg' || !extension ? 'jpeg' : extension}`;
+
+    const formData = new FormData();
+    formData.append('media', {
+      uri: media.uri,
+      type: media.mimeType || fallbackType,
+      name: fileName,
+    } as any);
+    formData.append('audience', audience);
+
+    const response = await axios.post(STORIES_ENDPOINT, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error creating story:', error);
+    throw error;
+  }
+};
+
+// Record that the current user has seen a story
+export const viewStory = async (id: string) => {
+  try {
+    const response = await axios.put(`${STORIES_ENDPOINT}/${id}/view`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error marking story ${id} as viewed:`, error);
+    throw error;
+  }
+};
+
+// Get who has viewed one of the current user's stories, most recent first
+export const getStoryViewers = async (id: string): Promise<{ count: number; viewers: StoryView[] }> => {
+  try {
+    const response = await axios.get(`${STORIES_ENDPOINT}/${id}/viewers`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching viewers of story ${id}:`, error);
+    throw error;
+  }
+};
+
+// Reply to a story; the reply is sent to the author as a direct message
+export const replyToStory = async (id: string, text: string) => {
+  try {
+    const response = await axios.post(`${STORIES_ENDPOINT}/${id}/reply`, { text });
+    return response.data;
+  } catch (error) {
+    console.error(`Error replying to story ${id}:`, error);
+    throw error;
+  }
+};
+
+// Delete one of the current user's stories
+export const deleteStory = async (id: string) => {
+  try {
+    const response = await axios.delete(`${STORIES_ENDPOINT}/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error deleting story ${id}:`, error);
+    throw error;
+  }
+};
+
+// A highlight as shown in a profile's highlight row
+export interface HighlightSummary {
+  _id: string;
+  title: string;
+  order: number;
+  coverUrl: string | null;
+  coverStory: string | null;
+  storiesCount: number;
+}
+
+// A highlight with its stories in play order
+export interface HighlightDetail extends HighlightSummary {
+  user: StoryGroup['user'];
+  stories: Omit<Story, 'viewed'>[];
+}
+
+// One of the current user's stories in the archive
+export interface ArchivedStory extends Omit<Story, 'viewed'> {
+  viewerCount: number;
+}
+
+// Get the current user's stories, including expired ones, newest first
+export const getStoryArchive = async (cursor?: string | null) => {
+  try {
+    const response = await axios.get(`${STORIES_ENDPOINT}/archive`, {
+      params: cursor ? { cursor } : {},
+    });
+    return response.data as { data: ArchivedStory[]; nextCursor: string | null; hasMore: boolean };
+  } catch (error) {
+    console.error('Error fetching story archive:', error);
+    throw error;
+  }
+};
+
+// Get a user's highlights in profile order
+export const getUserHighlights = async (userId: string): Promise<HighlightSummary[]> => {
+  try {
+    const response = await axios.get(`${STORIES_ENDPOINT}/highlights/user/${userId}`);
+    return response.data.data;
+  } catch (error) {
+    console.error(`Error fetching highlights for user ${userId}:`, error);
+    throw error;
+  }
+};
+
+// Get a highlight with its stories
+export const getHighlight = async (id: string): Promise<HighlightDetail> => {
+  try {
+    const response = await axios.get(`${STORIES_ENDPOINT}/highlights/${id}`);
+    return response.data.data;
+  } catch (error) {
+    console.error(`Error fetching highlight ${id}:`, error);
+    throw error;
+  }
+};
+
+// Create a highlight, or update one when an ID is given
+export const saveHighlight = async (
+  highlight: { title: string; storyIds: string[]; coverStoryId?: string | null },
+  highlightId?: string
+): Promise<HighlightSummary> => {
+  try {
+    const response = highlightId
+      ? await axios.put(`${STORIES_ENDPOINT}/highlights/${highlightId}`, highlight)
+      : await axios.post(`${STORIES_ENDPOINT}/highlights`, highlight);
+    return response.data.data;
+  } catch (error) {
+    console.error('Error saving highlight:', error);
+    throw error;
+  }
+};
+
+// Set the order of all of the current user's highlights
+export const reorderHighlights = async (highlightIds: string[]) => {
+  try {
+    const response = await axios.put(`${STORIES_ENDPOINT}/highlights/order`, { highlightIds });
+    return response.data;
+  } catch (error) {
+    console.error('Error reordering highlights:', error);
+    throw error;
+  }
+};
+
+// Delete a highlight; its stories stay in the archive
+export const deleteHighlight = async (id: string) => {
+  try {
+    const response = await axios.delete(`${STORIES_ENDPOINT}/highlights/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error deleting highlight ${id}:`, error);
+    throw error;
+  }
+};
@@ -48,7 +48,11 @@ export const checkAuthentication = async () => {
 /**
  * Test function for file uploads
  */
-export const testImageUpload = async (imageUri: string, description: string) => {
+export const testImageUpload = async (
+  imageUri: string,
+  description: string,
+  extraFields: Record<string, string | undefined> = {}
+) => {
   try {
     // Get user token
     const userString = await AsyncStorage.getItem('user');
@@ -66,6 +70,13 @@ export const testImageUpload = async (imageUri: string, description: string) =>
     // Create FormData
     const formData = new FormData();
     formData.append('description', description);
+
+    // Optional post fields such as mood and visibility
+    Object.entries(extraFields).forEach(([key, value]) => {
+      if (value !== undefined) {
+        formData.append(key, value);
+      }
+    });
     
     // Get file info
     const fileInfo = await FileSystem.getInfoAsync(imageUri);
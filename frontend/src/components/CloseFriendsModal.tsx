@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import axios from 'axios';
+import { API_URL, DEFAULT_AVATAR, CLOSE_FRIENDS_COLOR } from '../utils/config';
+import { useAuthContext } from '../context/AuthContext';
+
+interface ListUser {
+  _id: string;
+  username: string;
+  name: string;
+  profilePicture?: string;
+}
+
+interface CloseFriendsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Manage the close-friends list. Members see posts and stories shared to
+ * close friends; the list is picked from the user's followers.
+ */
+const CloseFriendsModal = ({ visible, onClose }: CloseFriendsModalProps) => {
+  const { user } = useAuthContext();
+  const [closeFriends, setCloseFriends] = useState<ListUser[]>([]);
+  const [followers, setFollowers] = useState<ListUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (!visible || !user) return;
+
+    setQuery('');
+    fetchLists();
+  }, [visible]);
+
+  const fetchLists = async () => {
+    try {
+      setLoading(true);
+      const [closeFriendsResponse, followersResponse] = await Promise.all([
+        axios.get(`${API_URL}/api/users/me/close-friends`),
+        axios.get(`${API_URL}/api/users/${user?._id}/followers`),
+      ]);
+      setCloseFriends(closeFriendsResponse.data.closeFriends || []);
+      setFollowers(followersResponse.data.followers || []);
+    } catch (error) {
+      console.error('Error fetching close friends:', error);
+      Alert.alert('Error', 'Failed to load your close friends');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCloseFriend = async (member: ListUser) => {
+    const isMember = closeFriends.some(friend => friend._id === member._id);
+    const previous = closeFriends;
+
+    // Update the list straight away and roll back if the request fails
+    setCloseFriends(isMember
+      ? closeFriends.filter(friend => friend._id !== member._id)
+      : [...closeFriends, member]);
+
+    try {
+      if (isMember) {
+        await axios.delete(`${API_URL}/api/users/me/close-friends/${member._id}`);
+      } else {
+        await axios.post(`${API_URL}/api/users/me/close-friends/${member._id}`);
+      }
+    } catch (error: any) {
+      setCloseFriends(previous);
+      Alert.alert('Error', error.response?.data?.message || 'Failed to update close friends');
+    }
+  };
+
+  // Members first, then followers who could be added
+  const search = query.trim().toLowerCase();
+  const people = [
+    ...closeFriends,
+    ...followers.filter(follower => !closeFriends.some(friend => friend._id === follower._id)),
+  ].filter(person =>
+    !search ||
+    person.username.toLowerCase().includes(search) ||
+    person.name.toLowerCase().includes(search)
+  );
+
+  const renderPerson = ({ item }: { item: ListUser }) => {
+    const isMember = closeFriends.some(friend => friend._id === item._id);
+
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => toggleCloseFriend(item)}>
+        <Image source={{ uri: item.profilePicture || DEFAULT_AVATAR }} style={styles.avatar} />
+        <View style={styles.rowText}>
+          <Text style={styles.username}>{item.username}</Text>
+          <Text style={styles.name}>{item.name}</Text>
+        </View>
+        <Ionicons
+          name={isMember ? 'star' : 'star-outline'}
+          size={22}
+          color={isMember ? CLOSE_FRIENDS_COLOR : '#8E8E8E'}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={26} color="#000" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Close friends</Text>
+          <Text style={styles.count}>{closeFriends.length}</Text>
+        </View>
+
+        <Text style={styles.hint}>
+          Only people on this list see posts and stories you share to close friends. We don't tell them when you add
+          or remove them.
+        </Text>
+
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search followers"
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+        />
+
+        {loading ? (
+          <ActivityIndicator style={styles.loader} color="#405DE6" />
+        ) : (
+          <FlatList
+            data={people}
+            keyExtractor={item => item._id}
+            renderItem={renderPerson}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                {search ? 'No followers match your search' : 'People who follow you will appear here'}
+              </Text>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  count: {
+    minWidth: 26,
+    textAlign: 'right',
+    color: '#8E8E8E',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E8E',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  searchInput: {
+    margin: 12,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+    fontSize: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  name: {
+    fontSize: 13,
+    color: '#8E8E8E',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    marginTop: 40,
+  },
+});
+
+export default CloseFriendsModal;
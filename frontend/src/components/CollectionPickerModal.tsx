@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import axios from 'axios';
+import { API_URL } from '../utils/config';
+
+export interface SavedCollection {
+  _id: string;
+  name: string;
+  itemsCount: number;
+}
+
+interface CollectionPickerModalProps {
+  visible: boolean;
+  collections: SavedCollection[];
+  currentCollectionId?: string | null;
+  onClose: () => void;
+  onSelect: (collectionId: string | null) => void;
+  onCreated: (collection: SavedCollection) => void;
+}
+
+/**
+ * Bottom sheet for choosing, or creating, the collection a saved post belongs to
+ */
+const CollectionPickerModal = ({
+  visible,
+  collections,
+  currentCollectionId = null,
+  onClose,
+  onSelect,
+  onCreated,
+}: CollectionPickerModalProps) => {
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    try {
+      setCreating(true);
+      const response = await axios.post(`${API_URL}/api/users/me/saved/collections`, { name });
+      onCreated({ ...response.data.data, itemsCount: 0 });
+      setNewName('');
+    } catch (error: any) {
+      console.error('Error creating collection:', error);
+      Alert.alert('Error', error.response?.data?.message || 'Failed to create collection');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const options = [{ _id: null, name: 'No collection' }, ...collections];
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Move to collection</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <FlatList
+            data={options}
+            keyExtractor={item => item._id || 'none'}
+            renderItem={({ item }) => (
+              <TouchableOpacity style={styles.option} onPress={() => onSelect(item._id)}>
+                <Text style={styles.optionText}>{item.name}</Text>
+                {item._id === currentCollectionId && (
+                  <Ionicons name="checkmark" size={20} color="#405DE6" />
+                )}
+              </TouchableOpacity>
+            )}
+          />
+
+          <View style={styles.createRow}>
+            <TextInput
+              style={styles.input}
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="New collection"
+              maxLength={50}
+            />
+            <TouchableOpacity onPress={handleCreate} disabled={creating || !newName.trim()}>
+              {creating ? (
+                <ActivityIndicator size="small" color="#405DE6" />
+              ) : (
+                <Text style={[styles.createText, !newName.trim() && styles.createTextDisabled]}>Create</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '60%',
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E0E0E0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  optionText: {
+    fontSize: 15,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E0E0E0',
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 8,
+    marginRight: 12,
+  },
+  createText: {
+    color: '#405DE6',
+    fontWeight: '600',
+  },
+  createTextDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default CollectionPickerModal;
@@ -0,0 +1,387 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import axios from 'axios';
+import { API_URL, DEFAULT_AVATAR } from '../utils/config';
+
+export interface Comment {
+  _id: string;
+  text: string;
+  parentComment?: string | null;
+  editedAt?: string;
+  user: {
+    _id: string;
+    username: string;
+    name: string;
+    profilePicture?: string;
+  };
+  createdAt: string;
+  replies?: Comment[];
+}
+
+interface CommentThreadProps {
+  postId: string;
+  postOwnerId: string;
+  currentUserId?: string;
+  onUserPress: (userId: string) => void;
+  onCommentsChanged?: (addedIds: string[], removedIds: string[]) => void;
+}
+
+/**
+ * Comments for a single post, with one level of replies
+ */
+const CommentThread = ({
+  postId,
+  postOwnerId,
+  currentUserId,
+  onUserPress,
+  onCommentsChanged,
+}: CommentThreadProps) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [replyTo, setReplyTo] = useState<{ commentId: string; username: string } | null>(null);
+  const [editing, setEditing] = useState<Comment | null>(null);
+
+  const fetchComments = useCallback(async (cursor?: string | null) => {
+    try {
+      const response = await axios.get(`${API_URL}/api/posts/${postId}/comments`, {
+        params: cursor ? { cursor } : {},
+      });
+      const { data, nextCursor: newCursor, hasMore: more } = response.data;
+
+      setComments(prev => (cursor ? [...prev, ...data] : data));
+      setNextCursor(newCursor);
+      setHasMore(more);
+    } catch (error) {
+      console.error('Fetch comments error:', error);
+      Alert.alert('Error', 'Failed to load comments');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchComments();
+  }, [fetchComments]);
+
+  const handleLoadMore = () => {
+    if (!hasMore || loadingMore) return;
+    setLoadingMore(true);
+    fetchComments(nextCursor);
+  };
+
+  const resetComposer = () => {
+    setText('');
+    setReplyTo(null);
+    setEditing(null);
+  };
+
+  // Replace a comment (top-level or reply) wherever it sits in the thread
+  const replaceComment = (updated: Comment) => {
+    setComments(prev =>
+      prev.map(comment => {
+        if (comment._id === updated._id) {
+          return { ...updated, replies: comment.replies };
+        }
+        return {
+          ...comment,
+          replies: comment.replies?.map(reply => (reply._id === updated._id ? updated : reply)),
+        };
+      })
+    );
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = text.trim();
+    if (!trimmed || submitting) return;
+
+    setSubmitting(true);
+    try {
+      if (editing) {
+        const response = await axios.put(
+          `${API_URL}/api/posts/${postId}/comments/${editing._id}`,
+          { text: trimmed }
+        );
+        replaceComment(response.data.data);
+      } else {
+        const response = await axios.post(`${API_URL}/api/posts/${postId}/comments`, {
+          text: trimmed,
+          ...(replyTo && { parentComment: replyTo.commentId }),
+        });
+        const created: Comment = response.data.data;
+
+        if (created.parentComment) {
+          setComments(prev =>
+            prev.map(comment =>
+              comment._id === created.parentComment
+                ? { ...comment, replies: [...(comment.replies || []), created] }
+                : comment
+            )
+          );
+        } else if (!hasMore) {
+          // Only append when the last page is loaded, otherwise it arrives with pagination
+          setComments(prev => [...prev, { ...created, replies: [] }]);
+        }
+
+        onCommentsChanged?.([created._id], []);
+      }
+      resetComposer();
+    } catch (error) {
+      console.error('Submit comment error:', error);
+      Alert.alert('Error', editing ? 'Could not edit comment.' : 'Could not post comment.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    try {
+      const response = await axios.delete(`${API_URL}/api/posts/${postId}/comments/${comment._id}`);
+      const deletedIds: string[] = response.data.data.deletedIds;
+
+      setComments(prev =>
+        prev
+          .filter(c => !deletedIds.includes(c._id))
+          .map(c => ({ ...c, replies: c.replies?.filter(reply => !deletedIds.includes(reply._id)) }))
+      );
+      onCommentsChanged?.([], deletedIds);
+    } catch (error) {
+      console.error('Delete comment error:', error);
+      Alert.alert('Error', 'Could not delete comment.');
+    }
+  };
+
+  const handleLongPress = (comment: Comment) => {
+    const isAuthor = comment.user._id === currentUserId;
+    const isPostOwner = postOwnerId === currentUserId;
+    if (!isAuthor && !isPostOwner) return;
+
+    const options: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+    if (isAuthor) {
+      options.push({
+        text: 'Edit',
+        onPress: () => {
+          setReplyTo(null);
+          setEditing(comment);
+          setText(comment.text);
+        },
+      });
+    }
+    options.push({ text: 'Delete', style: 'destructive', onPress: () => handleDelete(comment) });
+    options.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert('Comment', undefined, options);
+  };
+
+  const renderComment = (comment: Comment, isReply = false) => (
+    <View key={comment._id}>
+      <TouchableOpacity
+        style={[styles.commentRow, isReply && styles.replyRow]}
+        onLongPress={() => handleLongPress(comment)}
+        activeOpacity={0.8}
+      >
+        <TouchableOpacity onPress={() => onUserPress(comment.user._id)}>
+          <Image
+            source={{ uri: comment.user.profilePicture || DEFAULT_AVATAR }}
+            style={isReply ? styles.replyAvatar : styles.avatar}
+          />
+        </TouchableOpacity>
+        <View style={styles.commentBody}>
+          <Text style={styles.commentText}>
+            <Text style={styles.commentUsername}>{comment.user.username} </Text>
+            {comment.text}
+          </Text>
+          <View style={styles.commentMeta}>
+            <Text style={styles.metaText}>
+              {new Date(comment.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </Text>
+            {comment.editedAt && <Text style={styles.metaText}>Edited</Text>}
+            <TouchableOpacity
+              onPress={() => {
+                setEditing(null);
+                setReplyTo({
+                  commentId: comment.parentComment || comment._id,
+                  username: comment.user.username,
+                });
+              }}
+            >
+              <Text style={styles.replyButton}>Reply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+      {comment.replies?.map(reply => renderComment(reply, true))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {loading ? (
+        <ActivityIndicator size="small" color="#4B0082" style={styles.loader} />
+      ) : (
+        <>
+          {comments.length === 0 && <Text style={styles.emptyText}>No comments yet.</Text>}
+          {comments.map(comment => renderComment(comment))}
+          {hasMore && (
+            <TouchableOpacity onPress={handleLoadMore} style={styles.loadMore}>
+              {loadingMore ? (
+                <ActivityIndicator size="small" color="#4B0082" />
+              ) : (
+                <Text style={styles.loadMoreText}>Load more comments</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+
+      {(replyTo || editing) && (
+        <View style={styles.composerBanner}>
+          <Text style={styles.bannerText}>
+            {editing ? 'Editing comment' : `Replying to @${replyTo?.username}`}
+          </Text>
+          <TouchableOpacity onPress={resetComposer}>
+            <Ionicons name="close" size={16} color="#666" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder={replyTo ? 'Add a reply...' : 'Add a comment...'}
+          value={text}
+          onChangeText={setText}
+          multiline
+        />
+        <TouchableOpacity onPress={handleSubmit} disabled={!text.trim() || submitting}>
+          {submitting ? (
+            <ActivityIndicator size="small" color="#4B0082" />
+          ) : (
+            <Text style={[styles.postButton, !text.trim() && styles.postButtonDisabled]}>
+              {editing ? 'Save' : 'Post'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 15,
+    paddingTop: 10,
+  },
+  loader: {
+    marginVertical: 10,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  commentRow: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  replyRow: {
+    marginLeft: 40,
+  },
+  avatar: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    marginRight: 10,
+  },
+  replyAvatar: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    marginRight: 8,
+  },
+  commentBody: {
+    flex: 1,
+  },
+  commentText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  commentUsername: {
+    fontWeight: '600',
+  },
+  commentMeta: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#888',
+    marginRight: 12,
+  },
+  replyButton: {
+    fontSize: 12,
+    color: '#555',
+    fontWeight: '600',
+  },
+  loadMore: {
+    paddingVertical: 6,
+    marginBottom: 6,
+  },
+  loadMoreText: {
+    color: '#4B0082',
+    fontSize: 13,
+  },
+  composerBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  bannerText: {
+    fontSize: 12,
+    color: '#555',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#efefef',
+    paddingTop: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 14,
+    maxHeight: 80,
+    paddingVertical: 6,
+    marginRight: 10,
+  },
+  postButton: {
+    color: '#4B0082',
+    fontWeight: '600',
+  },
+  postButtonDisabled: {
+    color: '#bbb',
+  },
+});
+
+export default CommentThread;
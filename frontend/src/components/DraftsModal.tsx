@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getDrafts, deleteDraft, PostDraft } from '../api/posts';
+
+interface DraftsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onOpen: (draft: PostDraft) => void;
+}
+
+/**
+ * List of the user's drafts and scheduled posts
+ */
+const DraftsModal = ({ visible, onClose, onOpen }: DraftsModalProps) => {
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const fetchDrafts = async () => {
+      try {
+        setLoading(true);
+        const response = await getDrafts();
+        setDrafts(response.data || []);
+      } catch (error) {
+        Alert.alert('Error', 'Failed to load drafts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDrafts();
+  }, [visible]);
+
+  const handleDelete = (draft: PostDraft) => {
+    Alert.alert(
+      draft.publishAt ? 'Cancel scheduled post' : 'Delete draft',
+      'This cannot be undone.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteDraft(draft._id);
+              setDrafts(prev => prev.filter(item => item._id !== draft._id));
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.message || 'Failed to delete draft');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDraft = ({ item }: { item: PostDraft }) => (
+    <TouchableOpacity style={styles.draftItem} onPress={() => onOpen(item)}>
+      {item.images.length > 0 ? (
+        <Image source={{ uri: item.images[0] }} style={styles.thumbnail} />
+      ) : (
+        <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+          <Ionicons name="document-text-outline" size={22} color="#999" />
+        </View>
+      )}
+      <View style={styles.draftInfo}>
+        <Text style={styles.draftText} numberOfLines={2}>
+          {item.description || 'No text yet'}
+        </Text>
+        {item.publishAt ? (
+          <Text style={styles.scheduledText}>
+            Scheduled for {new Date(item.publishAt).toLocaleString()}
+          </Text>
+        ) : (
+          <Text style={styles.metaText}>
+            Draft · {new Date(item.updatedAt).toLocaleDateString()}
+          </Text>
+        )}
+        {!!item.publishError && (
+          <Text style={styles.errorText}>Not published: {item.publishError}</Text>
+        )}
+      </View>
+      <TouchableOpacity onPress={() => handleDelete(item)} style={styles.deleteButton}>
+        <Ionicons name="trash-outline" size={20} color="#999" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={26} color="#000" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Drafts</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loader} size="large" color="#4A90E2" />
+        ) : (
+          <FlatList
+            data={drafts}
+            keyExtractor={item => item._id}
+            renderItem={renderDraft}
+            ListEmptyComponent={<Text style={styles.emptyText}>No drafts or scheduled posts</Text>}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E0E0E0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 26,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  draftItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#eee',
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: '#f0f2f5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  draftInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  draftText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  scheduledText: {
+    fontSize: 12,
+    color: '#4A90E2',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#E53935',
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: 6,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    marginTop: 40,
+  },
+});
+
+export default DraftsModal;
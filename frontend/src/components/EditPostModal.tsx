@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { updatePost } from '../api/posts';
+
+const MAX_POST_IMAGES = 5;
+
+interface EditablePost {
+  _id: string;
+  description: string;
+  images: string[];
+  mood?: string;
+}
+
+interface EditPostModalProps {
+  post: EditablePost | null;
+  onClose: () => void;
+  onSaved: (post: any) => void;
+}
+
+/**
+ * Modal for editing a post's description and images
+ */
+const EditPostModal = ({ post, onClose, onSaved }: EditPostModalProps) => {
+  const [description, setDescription] = useState('');
+  const [removedImages, setRemovedImages] = useState<string[]>([]);
+  const [newImages, setNewImages] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form whenever a different post is opened
+  useEffect(() => {
+    setDescription(post?.description || '');
+    setRemovedImages([]);
+    setNewImages([]);
+  }, [post]);
+
+  if (!post) return null;
+
+  const keptImages = post.images.filter(url => !removedImages.includes(url));
+  const imageCount = keptImages.length + newImages.length;
+
+  const handleAddImage = async () => {
+    if (imageCount >= MAX_POST_IMAGES) {
+      Alert.alert('Limit reached', `A post can have at most ${MAX_POST_IMAGES} images.`);
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      quality: 0.8,
+    });
+
+    if (!result.canceled) {
+      setNewImages(prev => [...prev, result.assets[0].uri]);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!description.trim()) {
+      Alert.alert('Error', 'Please enter some text for your post');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await updatePost(post._id, {
+        description: description.trim(),
+        images: newImages,
+        removeImages: removedImages,
+      });
+      onSaved(response.data);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to update post');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={saving}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Edit Post</Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving || !description.trim()}>
+            {saving ? (
+              <ActivityIndicator size="small" color="#4B0082" />
+            ) : (
+              <Text style={[styles.saveText, !description.trim() && styles.saveTextDisabled]}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <TextInput
+            style={styles.input}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="What's on your mind?"
+            multiline
+          />
+
+          <View style={styles.imageGrid}>
+            {keptImages.map(url => (
+              <View key={url} style={styles.imageWrapper}>
+                <Image source={{ uri: url }} style={styles.image} />
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => setRemovedImages(prev => [...prev, url])}
+                >
+                  <Ionicons name="close" size={16} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {newImages.map(uri => (
+              <View key={uri} style={styles.imageWrapper}>
+                <Image source={{ uri }} style={styles.image} />
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => setNewImages(prev => prev.filter(image => image !== uri))}
+                >
+                  <Ionicons name="close" size={16} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {imageCount < MAX_POST_IMAGES && (
+              <TouchableOpacity style={[styles.imageWrapper, styles.addImage]} onPress={handleAddImage}>
+                <Ionicons name="add" size={28} color="#888" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#efefef',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 15,
+    color: '#666',
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4B0082',
+  },
+  saveTextDisabled: {
+    color: '#bbb',
+  },
+  content: {
+    padding: 15,
+  },
+  input: {
+    fontSize: 16,
+    minHeight: 100,
+    textAlignVertical: 'top',
+    color: '#333',
+  },
+  imageGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 15,
+  },
+  imageWrapper: {
+    width: 96,
+    height: 96,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 10,
+    padding: 2,
+  },
+  addImage: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default EditPostModal;
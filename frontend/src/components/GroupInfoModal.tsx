@@ -0,0 +1,400 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import axios from 'axios';
+import { API_URL, DEFAULT_AVATAR } from '../utils/config';
+import { useAuthContext } from '../context/AuthContext';
+import {
+  Group,
+  getGroup,
+  updateGroup,
+  addGroupMembers,
+  removeGroupMember,
+  leaveGroup,
+  setGroupAdmin,
+} from '../api/groups';
+import { User } from '../types/User';
+
+interface GroupInfoModalProps {
+  visible: boolean;
+  groupId: string;
+  onClose: () => void;
+  onGroupChange: (group: Group) => void;
+  onLeave: () => void;
+}
+
+/**
+ * Members and settings of a group conversation. Admins can rename the group,
+ * change its photo and manage members; anyone can leave.
+ */
+const GroupInfoModal = ({ visible, groupId, onClose, onGroupChange, onLeave }: GroupInfoModalProps) => {
+  const { user } = useAuthContext();
+  const [group, setGroup] = useState<Group | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [addingMembers, setAddingMembers] = useState(false);
+  const [candidates, setCandidates] = useState<User[]>([]);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setAddingMembers(false);
+    setQuery('');
+    fetchGroup();
+  }, [visible, groupId]);
+
+  const isAdmin = !!group && !!user && group.admins.includes(user._id);
+
+  const fetchGroup = async () => {
+    try {
+      setLoading(true);
+      applyGroup(await getGroup(groupId));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load the group');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyGroup = (updated: Group) => {
+    setGroup(updated);
+    setName(updated.name);
+    onGroupChange(updated);
+  };
+
+  // Run a group change and show the server's reason if it is refused
+  const runChange = async (change: () => Promise<Group>, failure: string) => {
+    try {
+      setSaving(true);
+      applyGroup(await change());
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!group || !trimmed || trimmed === group.name) return;
+
+    runChange(() => updateGroup(groupId, { name: trimmed }), 'Failed to rename the group');
+  };
+
+  const pickAvatar = async () => {
+    const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permissionResult.granted) {
+      Alert.alert('Permission Required', 'Please allow access to your photo library to change the group photo.');
+      return;
+    }
+
+    const pickerResult = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.5,
+    });
+
+    if (!pickerResult.canceled) {
+      const asset = pickerResult.assets[0];
+      runChange(
+        () => updateGroup(groupId, { avatar: { uri: asset.uri, mimeType: asset.mimeType, fileName: asset.fileName } }),
+        'Failed to change the group photo'
+      );
+    }
+  };
+
+  const showAddMembers = async () => {
+    setAddingMembers(true);
+    try {
+      const response = await axios.get(`${API_URL}/api/users`);
+      setCandidates(response.data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      Alert.alert('Error', 'Failed to load users');
+    }
+  };
+
+  const addMember = (member: User) => {
+    runChange(() => addGroupMembers(groupId, [member._id]), 'Failed to add the member');
+  };
+
+  const showMemberActions = (member: User) => {
+    if (!group || !isAdmin || member._id === user?._id) return;
+
+    const memberIsAdmin = group.admins.includes(member._id);
+    Alert.alert(member.name, undefined, [
+      {
+        text: memberIsAdmin ? 'Remove as admin' : 'Make admin',
+        onPress: () => runChange(() => setGroupAdmin(groupId, member._id, !memberIsAdmin), 'Failed to change admins'),
+      },
+      {
+        text: 'Remove from group',
+        style: 'destructive',
+        onPress: () => runChange(() => removeGroupMember(groupId, member._id), 'Failed to remove the member'),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const confirmLeave = () => {
+    Alert.alert('Leave group', 'You will stop receiving messages from this group.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await leaveGroup(groupId);
+            onLeave();
+          } catch (error: any) {
+            Alert.alert('Error', error.response?.data?.message || 'Failed to leave the group');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderMember = ({ item }: { item: User }) => (
+    <TouchableOpacity style={styles.row} onPress={() => showMemberActions(item)} disabled={!isAdmin}>
+      <Image source={{ uri: item.profilePicture || DEFAULT_AVATAR }} style={styles.avatar} />
+      <View style={styles.rowText}>
+        <Text style={styles.username}>{item._id === user?._id ? 'You' : item.name}</Text>
+        <Text style={styles.name}>@{item.username}</Text>
+      </View>
+      {group?.admins.includes(item._id) && <Text style={styles.adminBadge}>Admin</Text>}
+    </TouchableOpacity>
+  );
+
+  const renderCandidate = ({ item }: { item: User }) => (
+    <TouchableOpacity style={styles.row} onPress={() => addMember(item)} disabled={saving}>
+      <Image source={{ uri: item.profilePicture || DEFAULT_AVATAR }} style={styles.avatar} />
+      <View style={styles.rowText}>
+        <Text style={styles.username}>{item.name}</Text>
+        <Text style={styles.name}>@{item.username}</Text>
+      </View>
+      <Ionicons name="add-circle-outline" size={24} color="#4B0082" />
+    </TouchableOpacity>
+  );
+
+  const search = query.trim().toLowerCase();
+  const addable = candidates.filter(candidate =>
+    !group?.participants.includes(candidate._id) &&
+    (!search ||
+      candidate.username.toLowerCase().includes(search) ||
+      candidate.name.toLowerCase().includes(search))
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={addingMembers ? () => setAddingMembers(false) : onClose}>
+            <Ionicons name={addingMembers ? 'arrow-back' : 'close'} size={26} color="#000" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{addingMembers ? 'Add members' : 'Group info'}</Text>
+          {saving ? <ActivityIndicator size="small" color="#4B0082" /> : <View style={styles.headerSpacer} />}
+        </View>
+
+        {loading || !group ? (
+          <ActivityIndicator style={styles.loader} color="#4B0082" />
+        ) : addingMembers ? (
+          <>
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search users"
+              value={query}
+              onChangeText={setQuery}
+              autoCapitalize="none"
+            />
+            <FlatList
+              data={addable}
+              keyExtractor={item => item._id}
+              renderItem={renderCandidate}
+              ListEmptyComponent={<Text style={styles.emptyText}>No users to add</Text>}
+            />
+          </>
+        ) : (
+          <FlatList
+            data={group.members}
+            keyExtractor={item => item._id}
+            renderItem={renderMember}
+            ListHeaderComponent={
+              <View style={styles.details}>
+                <TouchableOpacity onPress={pickAvatar} disabled={!isAdmin}>
+                  {group.avatar_url ? (
+                    <Image source={{ uri: group.avatar_url }} style={styles.groupAvatar} />
+                  ) : (
+                    <View style={[styles.groupAvatar, styles.groupAvatarPlaceholder]}>
+                      <Ionicons name="people" size={40} color="#fff" />
+                    </View>
+                  )}
+                </TouchableOpacity>
+                {isAdmin ? (
+                  <TextInput
+                    style={styles.nameInput}
+                    value={name}
+                    onChangeText={setName}
+                    onEndEditing={saveName}
+                    onSubmitEditing={saveName}
+                    maxLength={50}
+                    returnKeyType="done"
+                  />
+                ) : (
+                  <Text style={styles.groupName}>{group.name}</Text>
+                )}
+                <Text style={styles.memberCount}>{group.members.length} members</Text>
+                {isAdmin && (
+                  <TouchableOpacity style={styles.actionRow} onPress={showAddMembers}>
+                    <Ionicons name="person-add-outline" size={22} color="#4B0082" />
+                    <Text style={styles.actionText}>Add members</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            }
+            ListFooterComponent={
+              <TouchableOpacity style={styles.actionRow} onPress={confirmLeave}>
+                <Ionicons name="exit-outline" size={22} color="#ff3b30" />
+                <Text style={[styles.actionText, styles.leaveText]}>Leave group</Text>
+              </TouchableOpacity>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 26,
+  },
+  details: {
+    alignItems: 'center',
+    paddingTop: 20,
+  },
+  groupAvatar: {
+    width: 90,
+    height: 90,
+    borderRadius: 45,
+  },
+  groupAvatarPlaceholder: {
+    backgroundColor: '#4B0082',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  nameInput: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    minWidth: 160,
+    marginTop: 12,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  groupName: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  memberCount: {
+    fontSize: 13,
+    color: '#8E8E8E',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  actionText: {
+    fontSize: 15,
+    color: '#4B0082',
+    marginLeft: 12,
+  },
+  leaveText: {
+    color: '#ff3b30',
+  },
+  searchInput: {
+    margin: 12,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+    fontSize: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  name: {
+    fontSize: 13,
+    color: '#8E8E8E',
+  },
+  adminBadge: {
+    fontSize: 12,
+    color: '#4B0082',
+    fontWeight: '600',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    marginTop: 40,
+  },
+});
+
+export default GroupInfoModal;
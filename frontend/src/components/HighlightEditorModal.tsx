@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  ArchivedStory,
+  HighlightDetail,
+  HighlightSummary,
+  getStoryArchive,
+  saveHighlight,
+} from '../api/stories';
+
+interface HighlightEditorModalProps {
+  visible: boolean;
+  // The highlight being edited, or null to create a new one
+  highlight?: HighlightDetail | null;
+  onClose: () => void;
+  onSaved: (highlight: HighlightSummary) => void;
+}
+
+const thumbnailUrl = (story: { mediaUrl: string; mediaType: string }) =>
+  story.mediaType === 'video' ? story.mediaUrl.replace(/\.[^/.]+$/, '.jpg') : story.mediaUrl;
+
+/**
+ * Pick stories from the archive for a highlight. Stories play in the order
+ * they were picked; long press a picked story to use it as the cover.
+ */
+const HighlightEditorModal = ({ visible, highlight, onClose, onSaved }: HighlightEditorModalProps) => {
+  const [archive, setArchive] = useState<ArchivedStory[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [coverId, setCoverId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setTitle(highlight?.title || '');
+    setSelected(highlight ? highlight.stories.map(story => story._id) : []);
+    setCoverId(highlight?.coverStory || null);
+    setArchive([]);
+    fetchArchive();
+  }, [visible]);
+
+  const fetchArchive = async (cursor?: string | null) => {
+    try {
+      setLoading(true);
+      const response = await getStoryArchive(cursor);
+      setArchive(prev => (cursor ? [...prev, ...response.data] : response.data));
+      setNextCursor(response.nextCursor);
+      setHasMore(response.hasMore);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load your story archive');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleStory = (storyId: string) => {
+    if (!selected.includes(storyId)) {
+      setSelected([...selected, storyId]);
+      return;
+    }
+
+    setSelected(selected.filter(id => id !== storyId));
+    if (coverId === storyId) {
+      setCoverId(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      Alert.alert('Title needed', 'Give your highlight a name.');
+      return;
+    }
+    if (selected.length === 0) {
+      Alert.alert('No stories', 'Pick at least one story for this highlight.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveHighlight(
+        { title: title.trim(), storyIds: selected, coverStoryId: coverId },
+        highlight?._id
+      );
+      onSaved(saved);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to save highlight');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStory = ({ item }: { item: ArchivedStory }) => {
+    const position = selected.indexOf(item._id);
+    const isCover = coverId ? coverId === item._id : position === 0;
+
+    return (
+      <TouchableOpacity
+        style={styles.storyTile}
+        onPress={() => toggleStory(item._id)}
+        onLongPress={() => position >= 0 && setCoverId(item._id)}
+      >
+        <Image source={{ uri: thumbnailUrl(item) }} style={styles.storyImage} />
+        {item.mediaType === 'video' && (
+          <Ionicons name="videocam" size={14} color="#fff" style={styles.videoIcon} />
+        )}
+        <Text style={styles.storyDate}>
+          {new Date(item.createdAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+        </Text>
+        <View style={[styles.selectBadge, position >= 0 && styles.selectBadgeActive]}>
+          {position >= 0 && <Text style={styles.selectBadgeText}>{position + 1}</Text>}
+        </View>
+        {position >= 0 && isCover && (
+          <View style={styles.coverLabel}>
+            <Text style={styles.coverLabelText}>Cover</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={26} color="#000" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{highlight ? 'Edit highlight' : 'New highlight'}</Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving}>
+            {saving ? (
+              <ActivityIndicator size="small" color="#405DE6" />
+            ) : (
+              <Text style={styles.saveText}>Done</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <TextInput
+          style={styles.titleInput}
+          placeholder="Highlight name"
+          value={title}
+          onChangeText={setTitle}
+          maxLength={30}
+        />
+
+        <FlatList
+          data={archive}
+          keyExtractor={item => item._id}
+          renderItem={renderStory}
+          numColumns={3}
+          onEndReached={() => hasMore && !loading && fetchArchive(nextCursor)}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={loading ? <ActivityIndicator style={styles.loader} color="#405DE6" /> : null}
+          ListEmptyComponent={
+            loading ? null : <Text style={styles.emptyText}>Stories you share will appear here</Text>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const tileWidth = Dimensions.get('window').width / 3;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#405DE6',
+  },
+  titleInput: {
+    margin: 12,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+    fontSize: 15,
+  },
+  storyTile: {
+    width: tileWidth,
+    height: tileWidth * 1.6,
+    padding: 1,
+  },
+  storyImage: {
+    flex: 1,
+    backgroundColor: '#EFEFEF',
+  },
+  videoIcon: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+  },
+  storyDate: {
+    position: 'absolute',
+    bottom: 6,
+    left: 6,
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  selectBadge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 1.5,
+    borderColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  selectBadgeActive: {
+    backgroundColor: '#405DE6',
+  },
+  selectBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  coverLabel: {
+    position: 'absolute',
+    bottom: 6,
+    right: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
+  coverLabelText: {
+    color: '#fff',
+    fontSize: 10,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    marginTop: 40,
+  },
+});
+
+export default HighlightEditorModal;
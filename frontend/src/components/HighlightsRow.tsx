@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DEFAULT_AVATAR } from '../utils/config';
+import StoryViewer from './StoryViewer';
+import HighlightEditorModal from './HighlightEditorModal';
+import {
+  HighlightDetail,
+  HighlightSummary,
+  StoryGroup,
+  getUserHighlights,
+  getHighlight,
+  reorderHighlights,
+  deleteHighlight,
+} from '../api/stories';
+
+interface HighlightsRowProps {
+  userId: string;
+  // Own profiles get the "New" button and edit options
+  isOwn: boolean;
+}
+
+/**
+ * Story highlight rings on a profile. Highlights keep stories watchable after
+ * they expire from the story tray.
+ */
+const HighlightsRow = ({ userId, isOwn }: HighlightsRowProps) => {
+  const [highlights, setHighlights] = useState<HighlightSummary[]>([]);
+  const [playing, setPlaying] = useState<StoryGroup | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editing, setEditing] = useState<HighlightDetail | null>(null);
+
+  useEffect(() => {
+    if (userId) {
+      fetchHighlights();
+    }
+  }, [userId]);
+
+  const fetchHighlights = async () => {
+    try {
+      setHighlights(await getUserHighlights(userId));
+    } catch (error) {
+      console.error('Error fetching highlights:', error);
+    }
+  };
+
+  const handleOpen = async (highlight: HighlightSummary) => {
+    try {
+      const detail = await getHighlight(highlight._id);
+      setPlaying({
+        user: detail.user,
+        isOwn,
+        allViewed: true,
+        stories: detail.stories.map(story => ({ ...story, viewed: true })),
+      });
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to open highlight');
+    }
+  };
+
+  const handleEdit = async (highlight: HighlightSummary) => {
+    try {
+      setEditing(await getHighlight(highlight._id));
+      setEditorVisible(true);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to open highlight');
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= highlights.length) return;
+
+    const previous = highlights;
+    const reordered = [...highlights];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setHighlights(reordered);
+
+    try {
+      await reorderHighlights(reordered.map(highlight => highlight._id));
+    } catch (error: any) {
+      setHighlights(previous);
+      Alert.alert('Error', error.response?.data?.message || 'Failed to reorder highlights');
+    }
+  };
+
+  const handleDelete = (highlight: HighlightSummary) => {
+    Alert.alert('Delete highlight', `Delete "${highlight.title}"? Its stories stay in your archive.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteHighlight(highlight._id);
+            setHighlights(prev => prev.filter(item => item._id !== highlight._id));
+          } catch (error: any) {
+            Alert.alert('Error', error.response?.data?.message || 'Failed to delete highlight');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleOptions = (highlight: HighlightSummary, index: number) => {
+    if (!isOwn) return;
+
+    Alert.alert(highlight.title, undefined, [
+      { text: 'Edit', onPress: () => handleEdit(highlight) },
+      ...(index > 0 ? [{ text: 'Move left', onPress: () => handleMove(index, -1) }] : []),
+      ...(index < highlights.length - 1 ? [{ text: 'Move right', onPress: () => handleMove(index, 1) }] : []),
+      { text: 'Delete', style: 'destructive' as const, onPress: () => handleDelete(highlight) },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleSaved = () => {
+    setEditorVisible(false);
+    setEditing(null);
+    fetchHighlights();
+  };
+
+  const renderHighlight = ({ item, index }: { item: HighlightSummary; index: number }) => (
+    <TouchableOpacity
+      style={styles.highlightItem}
+      onPress={() => handleOpen(item)}
+      onLongPress={() => handleOptions(item, index)}
+    >
+      <View style={styles.highlightCircle}>
+        <Image source={{ uri: item.coverUrl || DEFAULT_AVATAR }} style={styles.highlightImage} />
+      </View>
+      <Text style={styles.highlightTitle} numberOfLines={1}>{item.title}</Text>
+    </TouchableOpacity>
+  );
+
+  if (!isOwn && highlights.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <FlatList
+        data={highlights}
+        renderItem={renderHighlight}
+        keyExtractor={item => item._id}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.container}
+        ListHeaderComponent={
+          isOwn ? (
+            <TouchableOpacity
+              style={styles.highlightItem}
+              onPress={() => {
+                setEditing(null);
+                setEditorVisible(true);
+              }}
+            >
+              <View style={styles.newButton}>
+                <Ionicons name="add" size={30} color="black" />
+              </View>
+              <Text style={styles.highlightTitle} numberOfLines={1}>New</Text>
+            </TouchableOpacity>
+          ) : null
+        }
+      />
+
+      <StoryViewer
+        groups={playing ? [playing] : []}
+        initialGroupIndex={playing ? 0 : null}
+        onClose={() => setPlaying(null)}
+        replayOnly
+      />
+
+      {isOwn && (
+        <HighlightEditorModal
+          visible={editorVisible}
+          highlight={editing}
+          onClose={() => {
+            setEditorVisible(false);
+            setEditing(null);
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+  },
+  highlightItem: {
+    alignItems: 'center',
+    marginRight: 15,
+    width: 75,
+  },
+  highlightCircle: {
+    width: 65,
+    height: 65,
+    borderRadius: 32.5,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  newButton: {
+    width: 65,
+    height: 65,
+    borderRadius: 32.5,
+    backgroundColor: '#F5F5F5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  highlightImage: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+  },
+  highlightTitle: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 5,
+  },
+});
+
+export default HighlightsRow;
@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, Linking } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Video, ResizeMode, Audio, AVPlaybackStatus } from 'expo-av';
+import { MessageAttachment } from '../api/messages';
+import VoiceNotePlayer, { formatDuration } from './VoiceNotePlayer';
+
+interface MessageAttachmentViewProps {
+  attachment: MessageAttachment;
+  isCurrentUser: boolean;
+  // Voice notes only: whether it has been listened to, and a callback when played
+  listened?: boolean;
+  onPlay?: () => void;
+}
+
+// Widest an image or video is drawn in a bubble; tall media is capped too
+const MEDIA_WIDTH = 220;
+const MEDIA_MAX_HEIGHT = 300;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Size media to the bubble, keeping its aspect ratio when it is known
+const mediaSize = (attachment: MessageAttachment) => {
+  if (!attachment.width || !attachment.height) {
+    return { width: MEDIA_WIDTH, height: MEDIA_WIDTH };
+  }
+  const height = Math.min(MEDIA_WIDTH * (attachment.height / attachment.width), MEDIA_MAX_HEIGHT);
+  return { width: MEDIA_WIDTH, height };
+};
+
+// Play and pause an audio attachment, showing the time left
+const AudioAttachment = ({ attachment, isCurrentUser }: MessageAttachmentViewProps) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(attachment.duration || 0);
+
+  useEffect(() => () => {
+    soundRef.current?.unloadAsync();
+  }, []);
+
+  const handleStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    setIsPlaying(status.isPlaying);
+    setPosition(status.positionMillis / 1000);
+    if (status.durationMillis) {
+      setDuration(status.durationMillis / 1000);
+    }
+    if (status.didJustFinish) {
+      setPosition(0);
+      soundRef.current?.setPositionAsync(0);
+    }
+  };
+
+  const togglePlayback = async () => {
+    try {
+      if (!soundRef.current) {
+        const { sound } = await Audio.Sound.createAsync(
+          { uri: attachment.url },
+          { shouldPlay: true },
+          handleStatus
+        );
+        soundRef.current = sound;
+        return;
+      }
+      if (isPlaying) {
+        await soundRef.current.pauseAsync();
+      } else {
+        await soundRef.current.playAsync();
+      }
+    } catch (error) {
+      console.error('Error playing audio attachment:', error);
+    }
+  };
+
+  const color = isCurrentUser ? '#fff' : '#4B0082';
+
+  return (
+    <View style={styles.fileRow}>
+      <TouchableOpacity onPress={togglePlayback} style={styles.fileIcon}>
+        <Ionicons name={isPlaying ? 'pause' : 'play'} size={22} color={color} />
+      </TouchableOpacity>
+      <View style={styles.fileDetails}>
+        <Text style={[styles.fileName, isCurrentUser && styles.currentUserText]} numberOfLines={1}>
+          {attachment.file_name || 'Audio'}
+        </Text>
+        <Text style={[styles.fileMeta, isCurrentUser && styles.currentUserMeta]}>
+          {formatDuration(isPlaying || position > 0 ? duration - position : duration)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * An attachment inside a message bubble: images and videos inline, audio
+ * with a play button, voice notes with their waveform, and other files as a
+ * row that opens the download.
+ */
+const MessageAttachmentView = ({ attachment, isCurrentUser, listened = false, onPlay }: MessageAttachmentViewProps) => {
+  if (attachment.media_type === 'image') {
+    return (
+      <Image
+        source={{ uri: attachment.url }}
+        style={[styles.media, mediaSize(attachment)]}
+        resizeMode="cover"
+      />
+    );
+  }
+
+  if (attachment.media_type === 'video') {
+    return (
+      <Video
+        source={{ uri: attachment.url }}
+        style={[styles.media, mediaSize(attachment)]}
+        resizeMode={ResizeMode.CONTAIN}
+        useNativeControls
+      />
+    );
+  }
+
+  if (attachment.media_type === 'voice') {
+    return (
+      <VoiceNotePlayer
+        attachment={attachment}
+        isCurrentUser={isCurrentUser}
+        listened={listened}
+        onPlay={onPlay}
+      />
+    );
+  }
+
+  if (attachment.media_type === 'audio') {
+    return <AudioAttachment attachment={attachment} isCurrentUser={isCurrentUser} />;
+  }
+
+  return (
+    <TouchableOpacity style={styles.fileRow} onPress={() => Linking.openURL(attachment.url)}>
+      <View style={styles.fileIcon}>
+        <Ionicons name="document-outline" size={22} color={isCurrentUser ? '#fff' : '#4B0082'} />
+      </View>
+      <View style={styles.fileDetails}>
+        <Text style={[styles.fileName, isCurrentUser && styles.currentUserText]} numberOfLines={1}>
+          {attachment.file_name || 'File'}
+        </Text>
+        <Text style={[styles.fileMeta, isCurrentUser && styles.currentUserMeta]}>
+          {formatFileSize(attachment.size)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  media: {
+    borderRadius: 12,
+    marginBottom: 4,
+    backgroundColor: '#ddd',
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 180,
+    marginBottom: 4,
+  },
+  fileIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0,0,0,0.08)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  fileDetails: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000',
+  },
+  fileMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  currentUserText: {
+    color: '#fff',
+  },
+  currentUserMeta: {
+    color: 'rgba(255,255,255,0.8)',
+  },
+});
+
+export default MessageAttachmentView;
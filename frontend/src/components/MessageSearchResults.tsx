@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DEFAULT_AVATAR } from '../utils/config';
+import { useAuthContext } from '../context/AuthContext';
+import { MessageSearchResult, searchMessages } from '../api/messages';
+
+interface MessageSearchResultsProps {
+  query: string;
+  // Only search this conversation, showing who sent each match
+  conversationId?: string;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 500;
+
+const MARK_PATTERN = /(<mark>.*?<\/mark>)/g;
+
+// Render a snippet from the server with its <mark>ed matches in bold
+const Snippet = ({ snippet }: { snippet: string }) => (
+  <Text style={styles.snippet} numberOfLines={2}>
+    {snippet.split(MARK_PATTERN).map((part, index) =>
+      part.startsWith('<mark>') ? (
+        <Text key={index} style={styles.match}>
+          {part.slice('<mark>'.length, -'</mark>'.length)}
+        </Text>
+      ) : (
+        part
+      )
+    )}
+  </Text>
+);
+
+/**
+ * Server-side message search results for a query, newest first, loading more
+ * as the list is scrolled. Searches every conversation the user is in unless
+ * a conversation is given.
+ */
+const MessageSearchResults = ({ query, conversationId, onSelect }: MessageSearchResultsProps) => {
+  const { user } = useAuthContext();
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  // Ignore responses for a query that has since changed
+  const latestQueryRef = useRef('');
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    latestQueryRef.current = trimmed;
+    setResults([]);
+    setPage(1);
+    setTotalPages(0);
+    setFailed(false);
+
+    if (!trimmed) return;
+
+    const timeoutId = setTimeout(() => fetchPage(trimmed, 1), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query, conversationId]);
+
+  const fetchPage = async (searchQuery: string, pageToLoad: number) => {
+    try {
+      setLoading(true);
+      const response = await searchMessages(searchQuery, { conversationId, page: pageToLoad });
+      if (latestQueryRef.current !== searchQuery) return;
+
+      setResults(prev => (pageToLoad === 1 ? response.results : [...prev, ...response.results]));
+      setPage(pageToLoad);
+      setTotalPages(response.totalPages);
+    } catch (error) {
+      if (latestQueryRef.current === searchQuery) {
+        setFailed(true);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (loading || page >= totalPages) return;
+    fetchPage(latestQueryRef.current, page + 1);
+  };
+
+  const formatDate = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return date.toDateString() === new Date().toDateString()
+      ? date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+      : date.toLocaleDateString();
+  };
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => {
+    const isGroup = !!item.conversation?.is_group;
+    const senderName = item.sender_id === user?._id ? 'You' : item.sender?.name || 'User';
+    // Across conversations, name the conversation; within one, name the sender
+    const title = conversationId
+      ? senderName
+      : isGroup
+        ? item.conversation?.name || 'Group'
+        : item.other_participant?.name || 'User';
+    const avatar = conversationId
+      ? item.sender?.profilePicture
+      : isGroup
+        ? item.conversation?.avatar_url
+        : item.other_participant?.profilePicture;
+
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => onSelect(item)}>
+        {!conversationId && isGroup && !avatar ? (
+          <View style={[styles.avatar, styles.groupAvatar]}>
+            <Ionicons name="people" size={20} color="#fff" />
+          </View>
+        ) : (
+          <Image source={{ uri: avatar || DEFAULT_AVATAR }} style={styles.avatar} />
+        )}
+        <View style={styles.rowText}>
+          <View style={styles.rowHeader}>
+            <Text style={styles.title} numberOfLines={1}>{title}</Text>
+            <Text style={styles.date}>{formatDate(item.created_at)}</Text>
+          </View>
+          {!conversationId && isGroup && (
+            <Text style={styles.sender} numberOfLines={1}>{senderName}</Text>
+          )}
+          <Snippet snippet={item.snippet} />
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (!query.trim()) {
+    return null;
+  }
+
+  return (
+    <FlatList
+      data={results}
+      keyExtractor={item => item.id}
+      renderItem={renderResult}
+      keyboardShouldPersistTaps="handled"
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={loading ? <ActivityIndicator style={styles.loader} color="#4B0082" /> : null}
+      ListEmptyComponent={
+        loading ? null : (
+          <Text style={styles.emptyText}>
+            {failed ? 'Search failed. Please try again.' : 'No messages found'}
+          </Text>
+        )
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f1f1',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  groupAvatar: {
+    backgroundColor: '#4B0082',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  date: {
+    fontSize: 12,
+    color: '#999',
+  },
+  sender: {
+    fontSize: 13,
+    color: '#4B0082',
+    marginTop: 2,
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  match: {
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    marginTop: 40,
+  },
+});
+
+export default MessageSearchResults;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { votePoll } from '../api/posts';
+
+export interface PollResults {
+  options: { text: string; votes: number }[];
+  totalVotes: number;
+  closesAt: string | null;
+  closed: boolean;
+  myVote: number | null;
+}
+
+interface PollCardProps {
+  postId: string;
+  poll: PollResults;
+}
+
+const formatTimeLeft = (closesAt: string) => {
+  const minutes = Math.max(0, Math.round((new Date(closesAt).getTime() - Date.now()) / 60000));
+  if (minutes >= 60 * 24) return `${Math.floor(minutes / (60 * 24))}d left`;
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h left`;
+  return `${minutes}m left`;
+};
+
+/**
+ * Poll attached to a post. Results are shown once the viewer has voted or the
+ * poll has closed; tapping another option changes the vote while it is open.
+ */
+const PollCard = ({ postId, poll }: PollCardProps) => {
+  const [results, setResults] = useState<PollResults>(poll);
+  const [voting, setVoting] = useState(false);
+
+  useEffect(() => {
+    setResults(poll);
+  }, [poll]);
+
+  const showResults = results.closed || results.myVote !== null;
+
+  const handleVote = async (option: number) => {
+    if (results.closed || voting || option === results.myVote) return;
+
+    try {
+      setVoting(true);
+      const response = await votePoll(postId, option);
+      setResults(response.data);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to record your vote');
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {results.options.map((option, index) => {
+        const percent = results.totalVotes > 0 ? Math.round((option.votes / results.totalVotes) * 100) : 0;
+        const isMine = results.myVote === index;
+
+        return (
+          <TouchableOpacity
+            key={index}
+            style={[styles.option, isMine && styles.optionSelected]}
+            onPress={() => handleVote(index)}
+            disabled={results.closed || voting}
+          >
+            {showResults && <View style={[styles.bar, isMine && styles.barSelected, { width: `${percent}%` }]} />}
+            <View style={styles.optionContent}>
+              <Text style={[styles.optionText, isMine && styles.optionTextSelected]} numberOfLines={1}>
+                {option.text}
+              </Text>
+              {isMine && <Ionicons name="checkmark-circle" size={16} color="#405DE6" style={styles.check} />}
+              {showResults && <Text style={styles.percent}>{percent}%</Text>}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <Text style={styles.meta}>
+        {results.totalVotes} {results.totalVotes === 1 ? 'vote' : 'votes'}
+        {results.closed
+          ? ' · Final results'
+          : results.closesAt
+            ? ` · ${formatTimeLeft(results.closesAt)}`
+            : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  option: {
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#DBDBDB',
+    marginBottom: 6,
+    overflow: 'hidden',
+    justifyContent: 'center',
+  },
+  optionSelected: {
+    borderColor: '#405DE6',
+  },
+  bar: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#EFEFEF',
+  },
+  barSelected: {
+    backgroundColor: '#DCE3FB',
+  },
+  optionContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#262626',
+  },
+  optionTextSelected: {
+    fontWeight: '600',
+  },
+  check: {
+    marginHorizontal: 6,
+  },
+  percent: {
+    fontSize: 13,
+    color: '#262626',
+    fontWeight: '500',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#8E8E8E',
+    marginTop: 2,
+  },
+});
+
+export default PollCard;
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { repostPost } from '../api/posts';
+import RepostedPost, { EmbeddedPost } from './RepostedPost';
+
+interface QuotePostModalProps {
+  post: EmbeddedPost | null;
+  onClose: () => void;
+  onPosted: (post: any) => void;
+}
+
+/**
+ * Composer for reposting a post with quote text
+ */
+const QuotePostModal = ({ post, onClose, onPosted }: QuotePostModalProps) => {
+  const [text, setText] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    setText('');
+  }, [post]);
+
+  if (!post) return null;
+
+  const handlePost = async () => {
+    if (!text.trim()) {
+      Alert.alert('Error', 'Please add something to say about this post');
+      return;
+    }
+
+    try {
+      setPosting(true);
+      const response = await repostPost(post._id, text.trim());
+      onPosted(response.data);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to share post');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Modal visible animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={posting}>
+            <Ionicons name="close" size={26} color="#000" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Quote</Text>
+          <TouchableOpacity onPress={handlePost} disabled={posting}>
+            {posting ? (
+              <ActivityIndicator size="small" color="#405DE6" />
+            ) : (
+              <Text style={styles.postText}>Share</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={setText}
+          placeholder="Add a comment..."
+          multiline
+          autoFocus
+        />
+
+        <RepostedPost post={post} />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E0E0E0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  postText: {
+    color: '#405DE6',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  input: {
+    minHeight: 80,
+    padding: 16,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+});
+
+export default QuotePostModal;
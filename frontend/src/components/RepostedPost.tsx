@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity } from 'react-native';
+import { DEFAULT_AVATAR } from '../utils/config';
+
+export interface EmbeddedPost {
+  _id: string;
+  description: string;
+  images: string[];
+  user: {
+    _id: string;
+    username: string;
+    profilePicture?: string;
+  };
+}
+
+interface RepostedPostProps {
+  post: EmbeddedPost | null;
+  onPress?: (postId: string) => void;
+}
+
+/**
+ * Compact card for the original post inside a repost.
+ * A null post means the original was deleted or is hidden from the viewer.
+ */
+const RepostedPost = ({ post, onPress }: RepostedPostProps) => {
+  if (!post) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.unavailable}>This post is unavailable</Text>
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={() => onPress?.(post._id)} disabled={!onPress}>
+      <View style={styles.header}>
+        <Image source={{ uri: post.user.profilePicture || DEFAULT_AVATAR }} style={styles.avatar} />
+        <Text style={styles.username}>{post.user.username}</Text>
+      </View>
+      {post.images && post.images.length > 0 && (
+        <Image source={{ uri: post.images[0] }} style={styles.image} resizeMode="cover" />
+      )}
+      {!!post.description && (
+        <Text style={styles.description} numberOfLines={3}>
+          {post.description}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 12,
+    marginVertical: 8,
+    borderWidth: 1,
+    borderColor: '#EFEFEF',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+  },
+  avatar: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    marginRight: 8,
+  },
+  username: {
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1,
+  },
+  description: {
+    padding: 8,
+    fontSize: 13,
+    color: '#262626',
+  },
+  unavailable: {
+    padding: 16,
+    color: '#8E8E8E',
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+});
+
+export default RepostedPost;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Text, StyleSheet, TextStyle, StyleProp } from 'react-native';
+
+interface Mention {
+  _id: string;
+  username: string;
+}
+
+interface RichTextProps {
+  text: string;
+  mentions?: (Mention | string)[];
+  style?: StyleProp<TextStyle>;
+  onTagPress?: (tag: string) => void;
+  onMentionPress?: (userId: string) => void;
+}
+
+const TOKEN_REGEX = /((?:^|[^\w#@])[#@][\w.]+)/g;
+
+/**
+ * Post text with tappable #hashtags and @mentions
+ */
+const RichText = ({ text, mentions = [], style, onTagPress, onMentionPress }: RichTextProps) => {
+  // Mentions are only links when the server resolved them to a user
+  const mentionIds = new Map<string, string>();
+  mentions.forEach(mention => {
+    if (typeof mention !== 'string') {
+      mentionIds.set(mention.username.toLowerCase(), mention._id);
+    }
+  });
+
+  const parts = text.split(TOKEN_REGEX).filter(part => part !== '');
+
+  return (
+    <Text style={style}>
+      {parts.map((part, index) => {
+        const match = part.match(/^([^\w#@]?)([#@])([\w.]+)$/);
+        if (!match) {
+          return part;
+        }
+
+        const [, prefix, symbol, rawValue] = match;
+        const value = rawValue.replace(/\.+$/, '');
+        const trailing = rawValue.slice(value.length);
+
+        if (symbol === '#') {
+          return (
+            <Text key={index}>
+              {prefix}
+              <Text style={styles.link} onPress={() => onTagPress?.(value.toLowerCase())}>
+                #{value}
+              </Text>
+              {trailing}
+            </Text>
+          );
+        }
+
+        const userId = mentionIds.get(value.toLowerCase());
+        if (!userId) {
+          return part;
+        }
+
+        return (
+          <Text key={index}>
+            {prefix}
+            <Text style={styles.link} onPress={() => onMentionPress?.(userId)}>
+              @{value}
+            </Text>
+            {trailing}
+          </Text>
+        );
+      })}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  link: {
+    color: '#405DE6',
+    fontWeight: '500',
+  },
+});
+
+export default RichText;
@@ -0,0 +1,537 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Image,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Video, ResizeMode, AVPlaybackStatus } from 'expo-av';
+import { DEFAULT_AVATAR, CLOSE_FRIENDS_COLOR } from '../utils/config';
+import {
+  StoryGroup,
+  StoryView,
+  viewStory,
+  deleteStory,
+  getStoryViewers,
+  replyToStory,
+} from '../api/stories';
+
+interface StoryViewerProps {
+  groups: StoryGroup[];
+  // Index of the group to open, or null when the viewer is closed
+  initialGroupIndex: number | null;
+  onClose: () => void;
+  onViewed?: (storyId: string) => void;
+  onDeleted?: (storyId: string) => void;
+  // Replaying a highlight: no view tracking, replies or deleting
+  replayOnly?: boolean;
+}
+
+// How long an image story stays on screen
+const IMAGE_DURATION_MS = 5000;
+
+const formatAge = (timestamp: string) => {
+  const hours = Math.floor((Date.now() - new Date(timestamp).getTime()) / (60 * 60 * 1000));
+  if (hours > 0) return `${hours}h`;
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  return minutes > 0 ? `${minutes}m` : 'now';
+};
+
+/**
+ * Full-screen story player. Plays each user's stories in order and moves on to
+ * the next user's tray; tap the left or right side to go back or skip.
+ */
+const StoryViewer = ({
+  groups,
+  initialGroupIndex,
+  onClose,
+  onViewed,
+  onDeleted,
+  replayOnly = false,
+}: StoryViewerProps) => {
+  const [groupIndex, setGroupIndex] = useState(0);
+  const [storyIndex, setStoryIndex] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [replying, setReplying] = useState(false);
+  const [sendingReply, setSendingReply] = useState(false);
+  const [viewers, setViewers] = useState<StoryView[] | null>(null);
+  const [loadingViewers, setLoadingViewers] = useState(false);
+  const elapsedRef = useRef(0);
+
+  const group = initialGroupIndex !== null ? groups[groupIndex] : undefined;
+  const story = group?.stories[storyIndex];
+  // Playback stops while the user is holding, typing a reply or reading the viewer list
+  const isHeld = paused || replying || viewers !== null;
+
+  useEffect(() => {
+    if (initialGroupIndex !== null) {
+      const startGroup = groups[initialGroupIndex];
+      // Resume a tray at its first unseen story
+      const firstUnseen = startGroup ? startGroup.stories.findIndex(item => !item.viewed) : -1;
+      setGroupIndex(initialGroupIndex);
+      setStoryIndex(firstUnseen > 0 ? firstUnseen : 0);
+    }
+  }, [initialGroupIndex]);
+
+  useEffect(() => {
+    elapsedRef.current = 0;
+    setProgress(0);
+    setReplyText('');
+    setViewers(null);
+
+    if (story && !story.viewed && !group?.isOwn && !replayOnly) {
+      viewStory(story._id)
+        .then(() => onViewed?.(story._id))
+        .catch(() => {});
+    }
+  }, [story?._id]);
+
+  // Images advance on a timer; videos advance when playback finishes
+  useEffect(() => {
+    if (!story || story.mediaType !== 'image' || isHeld) return;
+
+    const tick = 50;
+    const timer = setInterval(() => {
+      elapsedRef.current += tick;
+      setProgress(Math.min(1, elapsedRef.current / IMAGE_DURATION_MS));
+      if (elapsedRef.current >= IMAGE_DURATION_MS) {
+        clearInterval(timer);
+        goNext();
+      }
+    }, tick);
+
+    return () => clearInterval(timer);
+  }, [story?._id, isHeld]);
+
+  const goNext = () => {
+    if (!group) return;
+    if (storyIndex < group.stories.length - 1) {
+      setStoryIndex(storyIndex + 1);
+    } else if (groupIndex < groups.length - 1) {
+      setGroupIndex(groupIndex + 1);
+      setStoryIndex(0);
+    } else {
+      onClose();
+    }
+  };
+
+  const goPrevious = () => {
+    if (storyIndex > 0) {
+      setStoryIndex(storyIndex - 1);
+    } else if (groupIndex > 0) {
+      setGroupIndex(groupIndex - 1);
+      setStoryIndex(0);
+    } else {
+      elapsedRef.current = 0;
+      setProgress(0);
+    }
+  };
+
+  const handleVideoStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    if (status.durationMillis) {
+      setProgress(status.positionMillis / status.durationMillis);
+    }
+    if (status.didJustFinish) {
+      goNext();
+    }
+  };
+
+  const handleShowViewers = async () => {
+    if (!story) return;
+
+    try {
+      setLoadingViewers(true);
+      setViewers([]);
+      const response = await getStoryViewers(story._id);
+      setViewers(response.viewers);
+    } catch (error: any) {
+      setViewers(null);
+      Alert.alert('Error', error.response?.data?.message || 'Failed to load viewers');
+    } finally {
+      setLoadingViewers(false);
+    }
+  };
+
+  const handleSendReply = async () => {
+    const text = replyText.trim();
+    if (!story || !text || sendingReply) return;
+
+    try {
+      setSendingReply(true);
+      await replyToStory(story._id, text);
+      setReplyText('');
+      setReplying(false);
+      Alert.alert('Reply sent', `Your reply was sent to ${group?.user.username}.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to send reply');
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
+  const renderViewer = ({ item }: { item: StoryView }) => (
+    <View style={styles.viewerItem}>
+      <Image
+        source={{ uri: item.user.profilePicture || DEFAULT_AVATAR }}
+        style={styles.viewerAvatar}
+      />
+      <View style={styles.viewerInfo}>
+        <Text style={styles.viewerName}>{item.user.username}</Text>
+        <Text style={styles.viewerTime}>{formatAge(item.viewedAt)}</Text>
+      </View>
+    </View>
+  );
+
+  const handleDelete = () => {
+    if (!story) return;
+    setPaused(true);
+
+    Alert.alert('Delete story', 'This story will be removed for everyone.', [
+      { text: 'Cancel', style: 'cancel', onPress: () => setPaused(false) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteStory(story._id);
+            setPaused(false);
+            if (group && group.stories.length === 1) {
+              onClose();
+            } else if (group && storyIndex === group.stories.length - 1) {
+              setStoryIndex(storyIndex - 1);
+            }
+            onDeleted?.(story._id);
+          } catch (error: any) {
+            setPaused(false);
+            Alert.alert('Error', error.response?.data?.message || 'Failed to delete story');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (!group || !story) {
+    return null;
+  }
+
+  return (
+    <Modal visible animationType="fade" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {story.mediaType === 'video' ? (
+          <Video
+            key={story._id}
+            source={{ uri: story.mediaUrl }}
+            style={styles.media}
+            resizeMode={ResizeMode.CONTAIN}
+            shouldPlay={!isHeld}
+            onPlaybackStatusUpdate={handleVideoStatus}
+          />
+        ) : (
+          <Image source={{ uri: story.mediaUrl }} style={styles.media} resizeMode="contain" />
+        )}
+
+        <View style={styles.touchLayer}>
+          <TouchableWithoutFeedback
+            onPress={goPrevious}
+            onLongPress={() => setPaused(true)}
+            onPressOut={() => setPaused(false)}
+          >
+            <View style={styles.touchPrevious} />
+          </TouchableWithoutFeedback>
+          <TouchableWithoutFeedback
+            onPress={goNext}
+            onLongPress={() => setPaused(true)}
+            onPressOut={() => setPaused(false)}
+          >
+            <View style={styles.touchNext} />
+          </TouchableWithoutFeedback>
+        </View>
+
+        <View style={styles.overlay}>
+          <View style={styles.progressRow}>
+            {group.stories.map((item, index) => (
+              <View key={item._id} style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${index < storyIndex ? 100 : index === storyIndex ? progress * 100 : 0}%` },
+                  ]}
+                />
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.header}>
+            <Image
+              source={{ uri: group.user.profilePicture || DEFAULT_AVATAR }}
+              style={styles.avatar}
+            />
+            <Text style={styles.username}>{group.isOwn ? 'Your story' : group.user.username}</Text>
+            <Text style={styles.age}>{formatAge(story.createdAt)}</Text>
+            {story.audience === 'closeFriends' && (
+              <View style={styles.closeFriendsBadge}>
+                <Ionicons name="star" size={10} color="#fff" />
+                <Text style={styles.closeFriendsText}>Close friends</Text>
+              </View>
+            )}
+            <View style={styles.headerSpacer} />
+            {group.isOwn && !replayOnly && (
+              <TouchableOpacity onPress={handleDelete} style={styles.headerButton}>
+                <Ionicons name="trash-outline" size={22} color="#fff" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+              <Ionicons name="close" size={28} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {replayOnly ? null : group.isOwn ? (
+          <TouchableOpacity style={styles.footer} onPress={handleShowViewers}>
+            <Ionicons name="eye-outline" size={18} color="#fff" />
+            <Text style={styles.footerText}>{story.viewerCount || 0}</Text>
+          </TouchableOpacity>
+        ) : (
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            style={styles.replyContainer}
+          >
+            <TextInput
+              style={styles.replyInput}
+              placeholder={`Reply to ${group.user.username}...`}
+              placeholderTextColor="rgba(255, 255, 255, 0.7)"
+              value={replyText}
+              onChangeText={setReplyText}
+              onFocus={() => setReplying(true)}
+              onBlur={() => setReplying(false)}
+              maxLength={1000}
+            />
+            {replyText.trim().length > 0 && (
+              <TouchableOpacity onPress={handleSendReply} disabled={sendingReply} style={styles.replySend}>
+                {sendingReply ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Ionicons name="paper-plane-outline" size={24} color="#fff" />
+                )}
+              </TouchableOpacity>
+            )}
+          </KeyboardAvoidingView>
+        )}
+
+        {viewers !== null && (
+          <View style={styles.viewersSheet}>
+            <View style={styles.viewersHeader}>
+              <Text style={styles.viewersTitle}>Viewers</Text>
+              <TouchableOpacity onPress={() => setViewers(null)}>
+                <Ionicons name="close" size={24} color="#262626" />
+              </TouchableOpacity>
+            </View>
+            {loadingViewers ? (
+              <ActivityIndicator style={styles.viewersLoader} color="#405DE6" />
+            ) : (
+              <FlatList
+                data={viewers}
+                keyExtractor={item => item.user._id}
+                renderItem={renderViewer}
+                ListEmptyComponent={<Text style={styles.viewersEmpty}>No one has viewed this story yet</Text>}
+              />
+            )}
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const { width, height } = Dimensions.get('window');
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  media: {
+    width,
+    height,
+  },
+  touchLayer: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+  },
+  touchPrevious: {
+    flex: 1,
+  },
+  touchNext: {
+    flex: 2,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 40,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 10,
+  },
+  progressRow: {
+    flexDirection: 'row',
+  },
+  progressTrack: {
+    flex: 1,
+    height: 2,
+    marginHorizontal: 2,
+    borderRadius: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.35)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 2,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  username: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  age: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  closeFriendsBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: CLOSE_FRIENDS_COLOR,
+  },
+  closeFriendsText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 3,
+  },
+  headerSpacer: {
+    flex: 1,
+  },
+  headerButton: {
+    marginLeft: 12,
+    padding: 2,
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 40,
+    left: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  footerText: {
+    color: '#fff',
+    marginLeft: 6,
+    fontSize: 14,
+  },
+  replyContainer: {
+    position: 'absolute',
+    bottom: 30,
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  replyInput: {
+    flex: 1,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    paddingHorizontal: 16,
+    color: '#fff',
+    fontSize: 14,
+  },
+  replySend: {
+    marginLeft: 10,
+    padding: 4,
+  },
+  viewersSheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: height * 0.5,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  viewersHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#DBDBDB',
+  },
+  viewersTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  viewersLoader: {
+    marginTop: 24,
+  },
+  viewersEmpty: {
+    textAlign: 'center',
+    color: '#8E8E8E',
+    marginTop: 24,
+  },
+  viewerItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  viewerAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  viewerInfo: {
+    flex: 1,
+  },
+  viewerName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#262626',
+  },
+  viewerTime: {
+    fontSize: 12,
+    color: '#8E8E8E',
+    marginTop: 2,
+  },
+});
+
+export default StoryViewer;
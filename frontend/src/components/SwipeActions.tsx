@@ -0,0 +1,108 @@
+import React, { ReactNode, useRef } from 'react';
+import { Animated, PanResponder, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+const ACTION_WIDTH = 72;
+
+export interface SwipeAction {
+  key: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  onPress: () => void;
+}
+
+interface SwipeActionsProps {
+  children: ReactNode;
+  actions: SwipeAction[];
+}
+
+/**
+ * Wraps a list row so dragging it to the left reveals action buttons behind
+ * it. The row snaps open past half the buttons' width and closes again when
+ * an action is picked or it is dragged back.
+ */
+const SwipeActions = ({ children, actions }: SwipeActionsProps) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const openWidth = actions.length * ACTION_WIDTH;
+  // Read through refs so the responder, created once, sees the latest values
+  const openWidthRef = useRef(openWidth);
+  const isOpenRef = useRef(false);
+  openWidthRef.current = openWidth;
+
+  const snapTo = (open: boolean) => {
+    isOpenRef.current = open;
+    Animated.spring(translateX, {
+      toValue: open ? -openWidthRef.current : 0,
+      useNativeDriver: true,
+    }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only claim clearly horizontal drags so the list can still scroll
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_, gesture) => {
+        const start = isOpenRef.current ? -openWidthRef.current : 0;
+        translateX.setValue(Math.min(0, Math.max(start + gesture.dx, -openWidthRef.current)));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const start = isOpenRef.current ? -openWidthRef.current : 0;
+        snapTo(start + gesture.dx < -openWidthRef.current / 2);
+      },
+      onPanResponderTerminate: () => snapTo(isOpenRef.current),
+    })
+  ).current;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.actions, { width: openWidth }]}>
+        {actions.map(action => (
+          <TouchableOpacity
+            key={action.key}
+            style={[styles.action, { backgroundColor: action.color }]}
+            onPress={() => {
+              snapTo(false);
+              action.onPress();
+            }}
+          >
+            <Ionicons name={action.icon} size={22} color="#fff" />
+            <Text style={styles.actionLabel}>{action.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Animated.View style={[styles.row, { transform: [{ translateX }] }]} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  actions: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: 0,
+    flexDirection: 'row',
+  },
+  action: {
+    width: ACTION_WIDTH,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionLabel: {
+    color: '#fff',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  row: {
+    backgroundColor: '#fff',
+  },
+});
+
+export default SwipeActions;
@@ -0,0 +1,76 @@
+import React, { ReactNode, useRef } from 'react';
+import { Animated, PanResponder, StyleSheet, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+// How far a message has to be dragged to the right before letting go replies to it
+const SWIPE_THRESHOLD = 60;
+
+interface SwipeToReplyProps {
+  children: ReactNode;
+  onReply: () => void;
+  enabled?: boolean;
+}
+
+/**
+ * Wraps a chat message so dragging it to the right starts a reply. A reply
+ * arrow fades in behind the message as it is dragged.
+ */
+const SwipeToReply = ({ children, onReply, enabled = true }: SwipeToReplyProps) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  // Read through refs so the responder, created once, sees the latest props
+  const onReplyRef = useRef(onReply);
+  const enabledRef = useRef(enabled);
+  onReplyRef.current = onReply;
+  enabledRef.current = enabled;
+
+  const springBack = () => {
+    Animated.spring(translateX, { toValue: 0, useNativeDriver: true }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only claim clearly horizontal drags so the list can still scroll
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        enabledRef.current && gesture.dx > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_, gesture) => {
+        translateX.setValue(Math.max(0, Math.min(gesture.dx, SWIPE_THRESHOLD * 1.5)));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        if (gesture.dx >= SWIPE_THRESHOLD) {
+          onReplyRef.current();
+        }
+        springBack();
+      },
+      onPanResponderTerminate: springBack,
+    })
+  ).current;
+
+  const iconOpacity = translateX.interpolate({
+    inputRange: [0, SWIPE_THRESHOLD],
+    outputRange: [0, 1],
+    extrapolate: 'clamp',
+  });
+
+  return (
+    <View>
+      <Animated.View style={[styles.replyIcon, { opacity: iconOpacity }]}>
+        <Ionicons name="arrow-undo" size={20} color="#4B0082" />
+      </Animated.View>
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  replyIcon: {
+    position: 'absolute',
+    left: 4,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+});
+
+export default SwipeToReply;
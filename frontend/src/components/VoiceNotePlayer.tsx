@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, GestureResponderEvent } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { MessageAttachment } from '../api/messages';
+
+interface VoiceNotePlayerProps {
+  attachment: MessageAttachment;
+  isCurrentUser: boolean;
+  // For the sender: someone has played it. For everyone else: they have.
+  listened: boolean;
+  // Called when playback starts
+  onPlay?: () => void;
+}
+
+// Drawn when the server couldn't summarize the recording
+const FLAT_WAVEFORM = Array(32).fill(30);
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Inline playback for a voice note: a play button, and its waveform as a
+ * seek bar that fills in as it plays. The sender sees a mic that lights up
+ * once the note has been listened to; everyone else sees a dot until they
+ * play it.
+ */
+const VoiceNotePlayer = ({ attachment, isCurrentUser, listened, onPlay }: VoiceNotePlayerProps) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const waveformWidthRef = useRef(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(attachment.duration || 0);
+
+  useEffect(() => () => {
+    soundRef.current?.unloadAsync();
+  }, []);
+
+  const handleStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    setIsPlaying(status.isPlaying);
+    setPosition(status.positionMillis / 1000);
+    if (status.durationMillis) {
+      setDuration(status.durationMillis / 1000);
+    }
+    if (status.didJustFinish) {
+      setPosition(0);
+      soundRef.current?.pauseAsync().then(() => soundRef.current?.setPositionAsync(0));
+    }
+  };
+
+  // Load the recording on first use, starting wherever the seek bar was left
+  const loadSound = async (shouldPlay: boolean) => {
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: attachment.url },
+      { shouldPlay, positionMillis: position * 1000, progressUpdateIntervalMillis: 100 },
+      handleStatus
+    );
+    soundRef.current = sound;
+    return sound;
+  };
+
+  const togglePlayback = async () => {
+    try {
+      if (isPlaying) {
+        await soundRef.current?.pauseAsync();
+        return;
+      }
+
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+      if (soundRef.current) {
+        await soundRef.current.playAsync();
+      } else {
+        await loadSound(true);
+      }
+      onPlay?.();
+    } catch (error) {
+      console.error('Error playing voice note:', error);
+    }
+  };
+
+  const seek = (event: GestureResponderEvent) => {
+    if (!waveformWidthRef.current || !duration) return;
+
+    const fraction = Math.min(1, Math.max(0, event.nativeEvent.locationX / waveformWidthRef.current));
+    const target = fraction * duration;
+    setPosition(target);
+    soundRef.current?.setPositionAsync(target * 1000).catch(error => {
+      console.error('Error seeking voice note:', error);
+    });
+  };
+
+  const levels = attachment.waveform && attachment.waveform.length > 0 ? attachment.waveform : FLAT_WAVEFORM;
+  const progress = duration > 0 ? position / duration : 0;
+  const playedColor = isCurrentUser ? '#fff' : '#4B0082';
+  const unplayedColor = isCurrentUser ? 'rgba(255,255,255,0.45)' : 'rgba(75,0,130,0.3)';
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={togglePlayback} style={styles.playButton}>
+        <Ionicons name={isPlaying ? 'pause' : 'play'} size={22} color={playedColor} />
+      </TouchableOpacity>
+      <View style={styles.body}>
+        <View
+          style={styles.waveform}
+          onLayout={event => { waveformWidthRef.current = event.nativeEvent.layout.width; }}
+          onStartShouldSetResponder={() => true}
+          onMoveShouldSetResponder={() => true}
+          onResponderGrant={seek}
+          onResponderMove={seek}
+        >
+          {levels.map((level, index) => (
+            <View
+              key={index}
+              pointerEvents="none"
+              style={[
+                styles.bar,
+                {
+                  height: Math.max(3, (level / 100) * 28),
+                  backgroundColor: index / levels.length < progress ? playedColor : unplayedColor,
+                },
+              ]}
+            />
+          ))}
+        </View>
+        <View style={styles.meta}>
+          <Text style={[styles.time, isCurrentUser && styles.currentUserTime]}>
+            {formatDuration(isPlaying || position > 0 ? position : duration)}
+          </Text>
+          {isCurrentUser ? (
+            <Ionicons
+              name="mic"
+              size={12}
+              color={listened ? '#7FD4FF' : 'rgba(255,255,255,0.6)'}
+              style={styles.listenedIcon}
+            />
+          ) : (
+            !listened && <View style={styles.unplayedDot} />
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 220,
+    marginBottom: 4,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0,0,0,0.08)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  body: {
+    flex: 1,
+  },
+  waveform: {
+    height: 30,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  bar: {
+    width: 2,
+    borderRadius: 1,
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  time: {
+    fontSize: 12,
+    color: '#666',
+  },
+  currentUserTime: {
+    color: 'rgba(255,255,255,0.8)',
+  },
+  listenedIcon: {
+    marginLeft: 4,
+  },
+  unplayedDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#4B0082',
+    marginLeft: 6,
+  },
+});
+
+export default VoiceNotePlayer;
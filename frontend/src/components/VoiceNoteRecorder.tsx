@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, TouchableOpacity, Alert, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Audio } from 'expo-av';
+import { AttachmentFile } from '../api/messages';
+
+interface VoiceNoteRecorderProps {
+  disabled?: boolean;
+  // Called with the seconds recorded so far, and with null once recording stops
+  onRecordingChange: (elapsedSeconds: number | null) => void;
+  onRecorded: (file: AttachmentFile) => void;
+}
+
+// Anything shorter is taken as a tap on the button and discarded
+const MIN_RECORDING_SECONDS = 1;
+
+/**
+ * A mic button that records a voice note while it is held down and hands
+ * the recording over when it is released.
+ */
+const VoiceNoteRecorder = ({ disabled, onRecordingChange, onRecorded }: VoiceNoteRecorderProps) => {
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  // Set when the button is let go, which can happen before recording starts
+  const releasedRef = useRef(false);
+  const [isRecording, setIsRecording] = useState(false);
+
+  useEffect(() => () => {
+    recordingRef.current?.stopAndUnloadAsync().catch(() => undefined);
+  }, []);
+
+  const stopRecording = async () => {
+    releasedRef.current = true;
+    const recording = recordingRef.current;
+    if (!recording) return;
+
+    recordingRef.current = null;
+    setIsRecording(false);
+    onRecordingChange(null);
+
+    try {
+      const status = await recording.stopAndUnloadAsync();
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+
+      const uri = recording.getURI();
+      const seconds = status.durationMillis / 1000;
+      if (!uri || seconds < MIN_RECORDING_SECONDS) return;
+
+      onRecorded({
+        uri,
+        // The high quality preset records AAC in an MP4 container, or WebM on the web
+        mimeType: Platform.OS === 'web' ? 'audio/webm' : 'audio/mp4',
+        fileName: `voice-note-${Date.now()}.${Platform.OS === 'web' ? 'webm' : 'm4a'}`,
+        duration: seconds,
+        voiceNote: true,
+      });
+    } catch (error) {
+      console.error('Error stopping voice note recording:', error);
+    }
+  };
+
+  const startRecording = async () => {
+    releasedRef.current = false;
+
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Microphone access needed', 'Allow microphone access to record voice messages.');
+        return;
+      }
+
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+      const { recording } = await Audio.Recording.createAsync(
+        Audio.RecordingOptionsPresets.HIGH_QUALITY,
+        status => {
+          if (status.isRecording) {
+            onRecordingChange(status.durationMillis / 1000);
+          }
+        },
+        250
+      );
+
+      recordingRef.current = recording;
+      setIsRecording(true);
+      onRecordingChange(0);
+
+      // Let go while the recorder was still starting
+      if (releasedRef.current) {
+        await stopRecording();
+      }
+    } catch (error) {
+      console.error('Error starting voice note recording:', error);
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, isRecording && styles.recordingButton]}
+      onPressIn={startRecording}
+      onPressOut={stopRecording}
+      disabled={disabled}
+    >
+      <Ionicons
+        name={isRecording ? 'mic' : 'mic-outline'}
+        size={24}
+        color={isRecording ? '#fff' : disabled ? '#ccc' : '#4B0082'}
+      />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    marginLeft: 10,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  recordingButton: {
+    backgroundColor: '#ff3b30',
+  },
+});
+
+export default VoiceNoteRecorder;
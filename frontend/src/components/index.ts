@@ -1,2 +1,21 @@
 // Export components
-export { default as SafeAreaLayout } from './SafeAreaLayout'; 
\ No newline at end of file
+export { default as SafeAreaLayout } from './SafeAreaLayout'; 
+export { default as CommentThread } from './CommentThread';
+export { default as EditPostModal } from './EditPostModal';
+export { default as RichText } from './RichText';
+export { default as CollectionPickerModal } from './CollectionPickerModal';
+export { default as RepostedPost } from './RepostedPost';
+export { default as QuotePostModal } from './QuotePostModal';
+export { default as PollCard } from './PollCard';
+export { default as DraftsModal } from './DraftsModal';
+export { default as StoryViewer } from './StoryViewer';
+export { default as HighlightEditorModal } from './HighlightEditorModal';
+export { default as HighlightsRow } from './HighlightsRow';
+export { default as CloseFriendsModal } from './CloseFriendsModal';
+export { default as GroupInfoModal } from './GroupInfoModal';
+export { default as SwipeToReply } from './SwipeToReply';
+export { default as MessageSearchResults } from './MessageSearchResults';
+export { default as SwipeActions } from './SwipeActions';
+export type { SwipeAction } from './SwipeActions';
+export { default as MessageAttachmentView } from './MessageAttachmentView';
+export { default as VoiceNoteRecorder } from './VoiceNoteRecorder';
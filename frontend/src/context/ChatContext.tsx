@@ -4,6 +4,7 @@ import axios from 'axios';
 import { API_URL, SOCKET_URL } from '../utils/config';
 import { useAuthContext } from './AuthContext';
 import { User } from '../types/User';
+import { MessageAttachment, MessageMediaType } from '../api/messages';
 
 // Types for chat data
 export interface Message {
@@ -19,9 +20,23 @@ export interface Message {
   content?: string; // Add content property
   mediaUrl?: string;
   media_url?: string; // Supabase media URL
-  mediaType?: 'image' | 'video';
-  media_type?: 'image' | 'video'; // Supabase media type
+  mediaType?: MessageMediaType;
+  media_type?: MessageMediaType; // Supabase media type
+  attachment_id?: string | null; // The uploaded attachment the message sends
+  attachment?: MessageAttachment | null; // Its details, from the server
+  story_id?: string; // Set when the message is a reply to a story
+  story_media_url?: string;
+  story_media_type?: 'image' | 'video';
+  story_expires_at?: string;
+  reply_to_id?: string | null; // The message this one replies to
+  reply_to?: ReplyPreview | null; // Compact copy of that message, from the server
   read: boolean;
+  read_by?: MessageReceipt[]; // Who has read the message, from the server
+  delivered?: boolean; // Whether it has reached the user, or for their own messages everyone else
+  delivered_to?: DeliveryReceipt[]; // Who it has reached, from the server
+  reactions?: MessageReaction[];
+  edited_at?: string | null; // Set when the sender edited the text
+  deleted_at?: string | null; // Set when the sender unsent the message; its content is cleared
   createdAt?: string;
   created_at?: string; // Supabase created at
   updatedAt?: string;
@@ -40,11 +55,45 @@ export interface Message {
   };
 }
 
+// A participant's read receipt for a message
+export interface MessageReceipt {
+  user_id: string;
+  read_at: string;
+  listened_at?: string | null; // When they first played it, for voice notes
+}
+
+// When a message reached one of a participant's devices
+export interface DeliveryReceipt {
+  user_id: string;
+  delivered_at: string;
+}
+
+// What a reply shows of the message it quotes
+export interface ReplyPreview {
+  id: string;
+  sender_id: string;
+  text: string;
+  media_type: MessageMediaType | null;
+  deleted_at: string | null;
+}
+
+// Everyone who reacted to a message with one emoji
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  user_ids: string[];
+}
+
 // Updated Conversation interface to support both MongoDB and Supabase formats
-interface Conversation {
+export interface Conversation {
   _id?: string;
   id?: string; // Supabase ID
   participants: User[] | string[]; // Can be array of Users or string IDs
+  is_group?: boolean;
+  name?: string | null; // Group name
+  avatar_url?: string | null; // Group avatar
+  admins?: string[]; // Group admin IDs
+  members?: User[]; // Group member profiles, when loaded
   lastMessage?: Message;
   last_message?: Message; // Add last_message property to match usage in ChatListScreen
   last_message_id?: string; // Supabase last message ID
@@ -54,8 +103,15 @@ interface Conversation {
   updated_at?: string; // Supabase updated at
   typing_users?: string[]; // Add typing users array
   unread_count?: number; // Add unread count field
+  // The current user's own settings for the conversation
+  archived?: boolean;
+  pinned?: boolean;
+  muted_until?: string | null;
 }
 
+// The settings a user can change on a conversation for themselves
+export type ConversationSettings = Pick<Conversation, 'archived' | 'pinned' | 'muted_until'>;
+
 interface ChatContextType {
   socket: Socket | null;
   conversations: Conversation[];
@@ -66,8 +122,14 @@ interface ChatContextType {
   unreadCount: number;
   getConversations: () => Promise<void>;
   getOrCreateConversation: (userId: string) => Promise<Conversation | null>;
-  getMessages: (conversationId: string, page?: number, limit?: number) => Promise<void>;
-  sendMessage: (recipientId: string, text: string, mediaUrl?: string, mediaType?: 'image' | 'video') => Promise<Message | null>;
+  getMessages: (conversationId: string, limit?: number) => Promise<void>;
+  loadOlderMessages: (conversationId: string, beforeId: string, limit?: number) => Promise<{ messages: Message[]; hasMore: boolean }>;
+  sendMessage: (
+    recipientId: string | null,
+    text: string,
+    attachmentId?: string,
+    replyToId?: string
+  ) => Promise<Message | null>;
   joinConversation: (conversationId: string) => void;
   leaveConversation: (conversationId: string) => void;
   setCurrentConversation: (conversation: Conversation | null) => void;
@@ -76,9 +138,109 @@ interface ChatContextType {
   markMessagesAsRead: (conversationId: string) => Promise<void>;
   markConversationAsRead: (conversationId: string) => Promise<void>;
   deleteConversation: (conversationId: string) => void;
+  updateConversationSettings: (conversationId: string, changes: ConversationSettings) => Promise<void>;
   resendMessage: (message: Message) => Promise<Message | null>;
+  editMessage: (messageId: string, text: string) => Promise<Message>;
+  unsendMessage: (messageId: string) => Promise<Message>;
+  addReaction: (messageId: string, emoji: string) => Promise<MessageReaction[]>;
+  removeReaction: (messageId: string, emoji: string) => Promise<MessageReaction[]>;
+  markVoiceNoteListened: (messageId: string) => Promise<MessageReceipt[]>;
 }
 
+// IDs of a conversation's participants, whether loaded as users or IDs
+export const getParticipantIds = (conversation: Pick<Conversation, 'participants'>): string[] =>
+  (conversation.participants as Array<User | string>).map(p => (typeof p === 'string' ? p : p._id));
+
+/**
+ * Record a participant's read receipt on one of the current user's messages.
+ * In groups a message only counts as read once every other member has read it;
+ * pass null as otherMemberIds for direct conversations.
+ */
+export const applyReadReceipt = <T extends Pick<Message, 'read' | 'read_by' | '_read_timestamp' | '_delivery_status'>>(
+  message: T,
+  readerId: string,
+  timestamp: string,
+  otherMemberIds: string[] | null
+): T => {
+  const readBy = message.read_by || [];
+  const updatedReadBy = readBy.some(receipt => receipt.user_id === readerId)
+    ? readBy
+    : [...readBy, { user_id: readerId, read_at: timestamp }];
+  const read = otherMemberIds === null ||
+    otherMemberIds.every(id => updatedReadBy.some(receipt => receipt.user_id === id));
+
+  return {
+    ...message,
+    read_by: updatedReadBy,
+    read: message.read || read,
+    ...(read ? { _read_timestamp: timestamp, _delivery_status: 'read' as const } : {}),
+  };
+};
+
+/**
+ * Record that one of the current user's messages reached a participant.
+ * In groups a message only counts as delivered once it has reached every
+ * other member; pass null as otherMemberIds for direct conversations.
+ */
+export const applyDeliveryReceipt = <T extends Pick<Message, 'delivered' | 'delivered_to' | '_delivery_timestamp' | '_delivery_status'>>(
+  message: T,
+  recipientId: string,
+  timestamp: string,
+  otherMemberIds: string[] | null
+): T => {
+  const deliveredTo = message.delivered_to || [];
+  const updatedDeliveredTo = deliveredTo.some(receipt => receipt.user_id === recipientId)
+    ? deliveredTo
+    : [...deliveredTo, { user_id: recipientId, delivered_at: timestamp }];
+  const delivered = otherMemberIds === null ||
+    otherMemberIds.every(id => updatedDeliveredTo.some(receipt => receipt.user_id === id));
+  // A message that was already read keeps its read ticks
+  const showDelivered = delivered && message._delivery_status !== 'read';
+
+  return {
+    ...message,
+    delivered_to: updatedDeliveredTo,
+    delivered: message.delivered || delivered,
+    ...(showDelivered ? { _delivery_timestamp: timestamp, _delivery_status: 'delivered' as const } : {}),
+  };
+};
+
+// The delivery status stored for a message, for messages loaded from the server
+const persistedDeliveryStatus = (message: { read?: boolean; delivered?: boolean }): Message['_delivery_status'] =>
+  message.read ? 'read' : message.delivered ? 'delivered' : 'sent';
+
+// Whether a conversation is muted right now
+export const isConversationMuted = (conversation: Pick<Conversation, 'muted_until'>) =>
+  !!conversation.muted_until && new Date(conversation.muted_until).getTime() > Date.now();
+
+// What to call a message's media where its text would be shown
+export const messageMediaLabel = (mediaType?: MessageMediaType | null) => {
+  switch (mediaType) {
+    case 'video': return 'Video';
+    case 'audio': return 'Audio';
+    case 'voice': return 'Voice message';
+    case 'file': return 'File';
+    default: return 'Photo';
+  }
+};
+
+// What is left of a message once its sender unsends it
+export const unsentMessageChanges = (deletedAt: string): Partial<Message> => ({
+  text: '',
+  mediaUrl: undefined,
+  media_url: undefined,
+  mediaType: undefined,
+  media_type: undefined,
+  attachment_id: undefined,
+  attachment: undefined,
+  story_id: undefined,
+  story_media_url: undefined,
+  story_media_type: undefined,
+  story_expires_at: undefined,
+  reactions: [],
+  deleted_at: deletedAt,
+});
+
 // Create Context
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
@@ -94,6 +256,11 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [error, setError] = useState<string | null>(null);
   const [unreadCount, setUnreadCount] = useState<number>(0);
   const socketRef = useRef<Socket | null>(null);
+  // Conversation rooms the screens have joined, rejoined on every connect
+  const joinedConversationsRef = useRef(new Set<string>());
+  // Latest conversations, for socket handlers that don't rerun when they change
+  const conversationsRef = useRef<Conversation[]>([]);
+  conversationsRef.current = conversations;
 
   // Helper to normalize message data to a consistent format
   const normalizeMessage = (message: any): Message => {
@@ -131,14 +298,28 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       media_url: message.media_url || message.mediaUrl,
       mediaType: message.mediaType || message.media_type,
       media_type: message.media_type || message.mediaType,
+      attachment_id: message.attachment_id,
+      attachment: message.attachment,
+      story_id: message.story_id,
+      story_media_url: message.story_media_url,
+      story_media_type: message.story_media_type,
+      story_expires_at: message.story_expires_at,
+      reply_to_id: message.reply_to_id,
+      reply_to: message.reply_to,
       read: typeof message.read === 'boolean' ? message.read : false,
+      read_by: message.read_by || [],
+      delivered: message.delivered || false,
+      delivered_to: message.delivered_to || [],
+      reactions: message.reactions || [],
+      edited_at: message.edited_at,
+      deleted_at: message.deleted_at,
       createdAt: message.createdAt || message.created_at || new Date().toISOString(),
       created_at: message.created_at || message.createdAt || new Date().toISOString(),
       updatedAt: message.updatedAt || message.updated_at,
       updated_at: message.updated_at || message.updatedAt,
       pending: message.pending || false,
       failed: message.failed || false,
-      _delivery_status: message._delivery_status || 'sent',
+      _delivery_status: message._delivery_status || persistedDeliveryStatus(message),
       _delivery_timestamp: message._delivery_timestamp,
       _read_timestamp: message._read_timestamp,
       _delivery_type: message._delivery_type,
@@ -186,7 +367,15 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       created_at: conversation.created_at || conversation.createdAt,
       updated_at: conversation.updated_at || conversation.updatedAt,
       lastMessage: conversation.lastMessage || conversation.last_message,
-      unread_count: conversation.unread_count || 0
+      unread_count: conversation.unread_count || 0,
+      is_group: conversation.is_group || false,
+      name: conversation.name,
+      avatar_url: conversation.avatar_url,
+      admins: conversation.admins || [],
+      members: conversation.members,
+      archived: conversation.archived || false,
+      pinned: conversation.pinned || false,
+      muted_until: conversation.muted_until || null
     };
 
     return normalized;
@@ -204,6 +393,11 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         // Authenticate socket with user ID
         newSocket.emit('authenticate', user._id);
+
+        // Rooms only admit authenticated members, and are lost on reconnect
+        joinedConversationsRef.current.forEach(conversationId => {
+          newSocket.emit('join_conversation', conversationId);
+        });
       });
 
       newSocket.on('connect_error', (error) => {
@@ -358,17 +552,50 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return prevConversations;
       });
 
-      // Increment global unread count if message is from someone else and we're not viewing the conversation
+      // A conversation the user deleted is back now that it has a new message
+      const knownConversation = conversationsRef.current.find(c =>
+        (c._id && c._id === messageConvoId) || (c.id && c.id === messageConvoId)
+      );
+      if (!knownConversation) {
+        getConversations();
+      }
+
+      // Increment global unread count if message is from someone else and we're not viewing the conversation.
+      // Muted and archived conversations don't add to it.
       if (normalizedMessage.sender_id !== user?._id &&
+        !knownConversation?.archived &&
+        !(knownConversation && isConversationMuted(knownConversation)) &&
         (!currentConversation ||
           (currentConversation._id !== messageConvoId && currentConversation.id !== messageConvoId))) {
         setUnreadCount((prev) => prev + 1);
       }
     };
 
+    // Handle the user deleting a conversation, possibly on another device
+    const handleConversationDeleted = (data: any) => {
+      removeConversation(data.conversationId);
+      getUnreadCount();
+    };
+
+    // Handle the user archiving, pinning or muting a conversation
+    const handleConversationSettingsUpdated = (data: any) => {
+      const { conversationId, archived, pinned, muted_until } = data;
+      applyConversationSettings(conversationId, { archived, pinned, muted_until });
+      getUnreadCount();
+    };
+
+    // Other members of the current conversation when it is a group; their
+    // read receipts all count before the user's messages show as read
+    const otherGroupMemberIds = currentConversation?.is_group
+      ? getParticipantIds(currentConversation).filter(id => id !== user?._id)
+      : null;
+
+    const isOwnMessage = (msg: Message) =>
+      msg.sender_id === user?._id || (msg.sender && msg.sender._id === user?._id);
+
     // Handle read receipts
     const handleMessagesRead = (data: any) => {
-      const { conversationId, userId, timestamp } = data;
+      const { conversationId, messageIds, userId, timestamp } = data;
 
       if (userId === user?._id) return; // Ignore our own read receipts
 
@@ -380,13 +607,10 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setMessages(prevMessages =>
             prevMessages.map(msg => {
               // Only update messages sent by the current user
-              if (msg.sender_id === user?._id || (msg.sender && msg.sender._id === user?._id)) {
-                return {
-                  ...msg,
-                  read: true,
-                  _read_timestamp: timestamp,
-                  _delivery_status: 'read'
-                };
+              const isListed = !messageIds?.length ||
+                messageIds.includes(msg._id) || messageIds.includes(msg.id);
+              if (isOwnMessage(msg) && isListed) {
+                return applyReadReceipt(msg, userId, timestamp, otherGroupMemberIds);
               }
               return msg;
             })
@@ -397,21 +621,31 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     // Handle single message read receipt
     const handleMessageRead = (data: any) => {
-      const { conversationId, messageId, userId, timestamp } = data;
+      const { messageId, userId, timestamp } = data;
 
       if (userId === user?._id) return; // Ignore our own read receipts
 
       // Update read status for specific message
       setMessages(prevMessages =>
         prevMessages.map(msg => {
-          if ((msg._id === messageId || msg.id === messageId) &&
-            (msg.sender_id === user?._id || (msg.sender && msg.sender._id === user?._id))) {
-            return {
-              ...msg,
-              read: true,
-              _read_timestamp: timestamp,
-              _delivery_status: 'read'
-            };
+          if ((msg._id === messageId || msg.id === messageId) && isOwnMessage(msg)) {
+            return applyReadReceipt(msg, userId, timestamp, otherGroupMemberIds);
+          }
+          return msg;
+        })
+      );
+    };
+
+    // Handle a message reaching one of its recipients' devices
+    const handleMessageSeen = (data: any) => {
+      const { messageId, recipientId, timestamp } = data;
+
+      if (recipientId === user?._id) return; // Ignore our own delivery receipts
+
+      setMessages(prevMessages =>
+        prevMessages.map(msg => {
+          if ((msg._id === messageId || msg.id === messageId) && isOwnMessage(msg)) {
+            return applyDeliveryReceipt(msg, recipientId, timestamp, otherGroupMemberIds);
           }
           return msg;
         })
@@ -482,24 +716,98 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       );
     };
 
+    // Handle a message being edited or unsent by its sender
+    const handleMessageEdited = (data: any) => {
+      applyMessageChange(data.conversationId, data.messageId, { text: data.text, edited_at: data.editedAt });
+    };
+
+    const handleMessageDeleted = (data: any) => {
+      applyMessageChange(data.conversationId, data.messageId, unsentMessageChanges(data.deletedAt));
+      // An unsent message no longer counts as unread
+      getUnreadCount();
+    };
+
+    // Handle reactions changing on a message in an open conversation
+    const handleReactionUpdated = (data: any) => {
+      applyMessageChange(data.conversationId, data.messageId, { reactions: data.reactions });
+    };
+
+    // Handle a voice note being played, on the sender's devices and the listener's
+    const handleVoiceNoteListened = (data: any) => {
+      applyMessageChange(data.conversationId, data.messageId, { read_by: data.readBy });
+    };
+
+    // Handle a group being created, edited or losing the current user
+    const handleGroupUpdated = (group: any) => {
+      const groupId = group.id;
+      const isMember = (group.participants || []).includes(user?._id);
+
+      setConversations(prevConversations => {
+        if (!isMember) {
+          return prevConversations.filter(convo => (convo._id || convo.id) !== groupId);
+        }
+
+        const normalizedGroup = normalizeConversation(group);
+        const exists = prevConversations.some(convo => (convo._id || convo.id) === groupId);
+        if (!exists) {
+          return [normalizedGroup, ...prevConversations];
+        }
+
+        // Keep the last message, unread count and the user's own settings,
+        // which the update doesn't carry
+        return prevConversations.map(convo =>
+          (convo._id || convo.id) === groupId
+            ? {
+              ...convo,
+              ...normalizedGroup,
+              lastMessage: convo.lastMessage,
+              last_message: convo.last_message,
+              unread_count: convo.unread_count,
+              archived: convo.archived,
+              pinned: convo.pinned,
+              muted_until: convo.muted_until
+            }
+            : convo
+        );
+      });
+
+      if (currentConversation && (currentConversation._id || currentConversation.id) === groupId) {
+        setCurrentConversation(isMember ? { ...currentConversation, ...normalizeConversation(group) } : null);
+      }
+    };
+
     // Add event listeners
     socket.on('receive_message', handleReceiveMessage);
     socket.on('messages_read', handleMessagesRead);
     socket.on('message_read', handleMessageRead);
-    socket.on('message_seen', handleMessageRead);
+    socket.on('message_seen', handleMessageSeen);
     socket.on('message_delivered', handleMessageDelivered);
     socket.on('typing', handleTyping);
     socket.on('stop_typing', handleStopTyping);
+    socket.on('group_updated', handleGroupUpdated);
+    socket.on('message_edited', handleMessageEdited);
+    socket.on('message_deleted', handleMessageDeleted);
+    socket.on('reaction_updated', handleReactionUpdated);
+    socket.on('voice_note_listened', handleVoiceNoteListened);
+    socket.on('conversation_deleted', handleConversationDeleted);
+    socket.on('conversation_settings_updated', handleConversationSettingsUpdated);
 
     // Clean up on unmount
     return () => {
       socket.off('receive_message', handleReceiveMessage);
       socket.off('messages_read', handleMessagesRead);
       socket.off('message_read', handleMessageRead);
-      socket.off('message_seen', handleMessageRead);
+      socket.off('message_seen', handleMessageSeen);
       socket.off('message_delivered', handleMessageDelivered);
       socket.off('typing', handleTyping);
       socket.off('stop_typing', handleStopTyping);
+      socket.off('group_updated', handleGroupUpdated);
+      socket.off('message_edited', handleMessageEdited);
+      socket.off('message_deleted', handleMessageDeleted);
+      socket.off('reaction_updated', handleReactionUpdated);
+      socket.off('voice_note_listened', handleVoiceNoteListened);
+      socket.off('conversation_deleted', handleConversationDeleted);
+      socket.off('conversation_settings_updated', handleConversationSettingsUpdated);
     };
   }, [socket, user, currentConversation]);
 
@@ -581,8 +889,9 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  // Get messages for a conversation
-  const getMessages = async (conversationId: string, page = 1, limit = 50) => {
+  // Get the newest messages for a conversation, keeping any older history
+  // already paged in for it
+  const getMessages = async (conversationId: string, limit = 50) => {
     if (!user) return;
 
     try {
@@ -590,7 +899,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setError(null);
 
       const response = await axios.get(
-        `${API_URL}/api/chat/messages/${conversationId}?page=${page}&limit=${limit}`,
+        `${API_URL}/api/chat/messages/${conversationId}?limit=${limit}`,
         { headers: { Authorization: `Bearer ${user.token}` } }
       );
 
@@ -621,8 +930,18 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           })
         : [];
 
-      // Replace all messages with the filtered set
-      setMessages(normalizedMessages);
+      // Replace the messages with the newest page, plus older ones loaded
+      // for this conversation that the page doesn't reach
+      const messageTime = (msg: Message) => new Date(msg.created_at || msg.createdAt || 0).getTime();
+      const oldest = normalizedMessages[normalizedMessages.length - 1];
+      setMessages(prev => [
+        ...normalizedMessages,
+        ...(oldest
+          ? prev.filter(msg =>
+            (msg.conversation_id || msg.conversation) === conversationId && messageTime(msg) < messageTime(oldest)
+          )
+          : []),
+      ]);
       setIsLoading(false);
     } catch (error: any) {
       setError(error.response?.data?.message || 'Failed to fetch messages');
@@ -630,19 +949,49 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  // Send a message
+  // Load the messages sent before a message and merge them into `messages`.
+  // Resolves to those messages and whether there are older ones still.
+  const loadOlderMessages = async (conversationId: string, beforeId: string, limit = 50) => {
+    if (!user) return { messages: [], hasMore: false };
+
+    try {
+      const response = await axios.get(
+        `${API_URL}/api/chat/messages/${conversationId}?before=${beforeId}&limit=${limit}`,
+        { headers: { Authorization: `Bearer ${user.token}` } }
+      );
+
+      const pageMessages: Message[] = (response.data.messages || [])
+        .map((msg: any) => normalizeMessage({ ...msg, conversation_id: conversationId }));
+
+      setMessages(prev => {
+        const knownIds = new Set(prev.map(msg => msg._id || msg.id));
+        return [...prev, ...pageMessages.filter(msg => !knownIds.has(msg._id || msg.id))]
+          .sort((a, b) =>
+            new Date(b.created_at || b.createdAt || 0).getTime() - new Date(a.created_at || a.createdAt || 0).getTime()
+          );
+      });
+
+      return { messages: pageMessages, hasMore: !!response.data.hasMore };
+    } catch (error) {
+      console.error(`Error loading messages before ${beforeId} in conversation ${conversationId}:`, error);
+      throw error;
+    }
+  };
+
+  // Send a message. Pass a null recipient to send to the current
+  // conversation, as group messages do.
   const sendMessage = async (
-    recipientId: string,
+    recipientId: string | null,
     text: string,
-    mediaUrl?: string,
-    mediaType?: 'image' | 'video'
+    attachmentId?: string,
+    replyToId?: string
   ) => {
     try {
       setIsLoading(true);
 
       // Validate inputs
-      if (!recipientId || !text) {
-        throw new Error('Recipient ID and message text are required');
+      if ((!recipientId && !currentConversation) || (!text && !attachmentId)) {
+        throw new Error('Recipient ID and message text or an attachment are required');
       }
 
       // Generate a client-side ID for the message
@@ -651,9 +1000,9 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // Create message object
       const messageData = {
         text,
-        recipientId: recipientId,
-        media_url: mediaUrl,
-        media_type: mediaType,
+        recipientId: recipientId || undefined,
+        attachment_id: attachmentId,
+        reply_to_id: replyToId,
         // Add client-generated ID for tracking
         client_id: clientMessageId
       };
@@ -680,7 +1029,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           conversation_id: currentConversation ? currentConversation._id || currentConversation.id : undefined,
           read: false,
           // Ensure we're using recipientId for consistency
-          recipientId: recipientId,
+          recipientId: recipientId || undefined,
           // Add sender data to help recipient render message immediately
           sender: user
         };
@@ -727,7 +1076,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           // Check if this message already exists in our list by client ID
           const existingIndex = prev.findIndex(m =>
             m.client_id === clientMessageId ||
-            m.text === normalizedMessage.text &&
+            // Attachments sent without text can't be told apart by text
+            !!normalizedMessage.text && m.text === normalizedMessage.text &&
             Math.abs(new Date(m.created_at || m.createdAt || 0).getTime() -
               new Date(normalizedMessage.created_at || normalizedMessage.createdAt || 0).getTime()) < 60000
           );
@@ -810,11 +1160,112 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
   };
 
+  // Update a message in the open conversation and in its conversation's preview
+  const applyMessageChange = (conversationId: string, messageId: string, changes: Partial<Message>) => {
+    const isTarget = (msg?: Message) => !!msg && (msg._id === messageId || msg.id === messageId);
+
+    setMessages(prev =>
+      prev.map(msg => {
+        if (isTarget(msg)) return { ...msg, ...changes };
+
+        // Keep quotes of an edited or unsent message in step with it
+        if (msg.reply_to?.id === messageId && (changes.text !== undefined || changes.deleted_at)) {
+          return {
+            ...msg,
+            reply_to: {
+              ...msg.reply_to,
+              text: changes.text ?? msg.reply_to.text,
+              deleted_at: changes.deleted_at ?? msg.reply_to.deleted_at,
+            },
+          };
+        }
+        return msg;
+      })
+    );
+
+    setConversations(prev =>
+      prev.map(convo => {
+        if ((convo._id || convo.id) !== conversationId) return convo;
+
+        return {
+          ...convo,
+          lastMessage: isTarget(convo.lastMessage) ? { ...convo.lastMessage!, ...changes } : convo.lastMessage,
+          last_message: isTarget(convo.last_message) ? { ...convo.last_message!, ...changes } : convo.last_message,
+        };
+      })
+    );
+  };
+
+  // Edit the text of one of the user's messages. Errors are rethrown so the
+  // caller can show why, e.g. when the edit window has passed.
+  const editMessage = async (messageId: string, text: string) => {
+    const response = await axios.put(
+      `${API_URL}/api/chat/messages/${messageId}`,
+      { text },
+      { headers: { Authorization: `Bearer ${user?.token}` } }
+    );
+
+    const edited = response.data.message;
+    applyMessageChange(edited.conversation_id, edited.id, { text: edited.text, edited_at: edited.edited_at });
+    return normalizeMessage(edited);
+  };
+
+  // Unsend one of the user's messages for everyone in the conversation
+  const unsendMessage = async (messageId: string) => {
+    const response = await axios.delete(
+      `${API_URL}/api/chat/messages/${messageId}`,
+      { headers: { Authorization: `Bearer ${user?.token}` } }
+    );
+
+    const deleted = response.data.message;
+    applyMessageChange(deleted.conversation_id, deleted.id, unsentMessageChanges(deleted.deleted_at));
+    return normalizeMessage(deleted);
+  };
+
+  // React to a message, or take a reaction back. Both return the message's
+  // reactions after the change; errors are rethrown.
+  const addReaction = async (messageId: string, emoji: string) => {
+    const response = await axios.post(
+      `${API_URL}/api/chat/messages/${messageId}/reactions`,
+      { emoji },
+      { headers: { Authorization: `Bearer ${user?.token}` } }
+    );
+
+    const reactions: MessageReaction[] = response.data.reactions;
+    setMessages(prev => prev.map(msg => (msg._id === messageId || msg.id === messageId ? { ...msg, reactions } : msg)));
+    return reactions;
+  };
+
+  const removeReaction = async (messageId: string, emoji: string) => {
+    const response = await axios.delete(
+      `${API_URL}/api/chat/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
+      { headers: { Authorization: `Bearer ${user?.token}` } }
+    );
+
+    const reactions: MessageReaction[] = response.data.reactions;
+    setMessages(prev => prev.map(msg => (msg._id === messageId || msg.id === messageId ? { ...msg, reactions } : msg)));
+    return reactions;
+  };
+
+  // Record that the user has played a voice note, so its sender sees it was
+  // listened to. Returns the message's receipts; errors are rethrown.
+  const markVoiceNoteListened = async (messageId: string) => {
+    const response = await axios.post(
+      `${API_URL}/api/chat/messages/${messageId}/listened`,
+      {},
+      { headers: { Authorization: `Bearer ${user?.token}` } }
+    );
+
+    const readBy: MessageReceipt[] = response.data.readBy;
+    setMessages(prev => prev.map(msg => (msg._id === messageId || msg.id === messageId ? { ...msg, read_by: readBy } : msg)));
+    return readBy;
+  };
+
   // Add a resend message function
   const resendMessage = async (message: Message) => {
     try {
-      // For resending, we need the recipient ID and text at minimum
-      if (!message.recipient_id || !message.text) {
+      // For resending, we need the recipient (or a group) and text at minimum
+      if ((!message.recipient_id && !currentConversation?.is_group) || !message.text) {
         throw new Error('Cannot resend message: missing recipient or text');
       }
 
@@ -843,10 +1294,10 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Try saving to database again
       const result = await sendMessage(
-        message.recipient_id,
+        message.recipient_id || null,
         message.text,
-        message.mediaUrl || message.media_url,
-        message.mediaType || message.media_type
+        message.attachment_id || undefined,
+        message.reply_to_id || undefined
       );
 
       return result;
@@ -866,14 +1317,18 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   // Join a conversation room
   const joinConversation = (conversationId: string) => {
-    if (socketRef.current && conversationId) {
+    if (!conversationId) return;
+    joinedConversationsRef.current.add(conversationId);
+    if (socketRef.current?.connected) {
       socketRef.current.emit('join_conversation', conversationId);
     }
   };
 
   // Leave a conversation room
   const leaveConversation = (conversationId: string) => {
-    if (socketRef.current && conversationId) {
+    if (!conversationId) return;
+    joinedConversationsRef.current.delete(conversationId);
+    if (socketRef.current) {
       socketRef.current.emit('leave_conversation', conversationId);
     }
   };
@@ -931,7 +1386,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [user]);
 
-  // Helper function to deduplicate conversations by participant
+  // Helper function to deduplicate direct conversations by participant
   const deduplicateConversations = useCallback((convos: Conversation[]): Conversation[] => {
     // Track seen user IDs to avoid duplicates
     const seenParticipantPairs = new Map<string, string>();
@@ -945,6 +1400,12 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
 
     for (const convo of sortedConvos) {
+      // Groups are distinct even when they share members
+      if (convo.is_group) {
+        uniqueConversations.push(convo);
+        continue;
+      }
+
       // Get participants excluding current user
       const participants = Array.isArray(convo.participants) ? convo.participants : [];
       const otherParticipants = participants.filter(p => {
@@ -1000,7 +1461,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // Update local message state to mark all as read
       setMessages(prev => {
         return prev.map(message => {
-          if (message.conversation_id === conversationId && message.recipient_id === user._id) {
+          if (message.conversation_id === conversationId && message.sender_id !== user._id) {
             return { ...message, read: true };
           }
           return message;
@@ -1064,8 +1525,32 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Drop a conversation the user deleted from local state
+  const removeConversation = (conversationId: string) => {
+    setConversations(prev =>
+      deduplicateConversations(prev.filter(conv =>
+        (conv._id || conv.id) !== conversationId
+      ))
+    );
+
+    // Clear current conversation if it was deleted
+    if (currentConversation &&
+      (currentConversation._id === conversationId || currentConversation.id === conversationId)) {
+      setCurrentConversation(null);
+      setMessages([]);
+    }
+  };
+
+  const applyConversationSettings = (conversationId: string, settings: ConversationSettings) => {
+    setConversations(prev =>
+      prev.map(conv => ((conv._id || conv.id) === conversationId ? { ...conv, ...settings } : conv))
+    );
+  };
+
+  // Delete a conversation for the current user only. The server clears its
+  // history for them and tells their other devices.
   const deleteConversation = async (conversationId: string) => {
-    if (!user || !socket) return;
+    if (!user) return;
 
     try {
       const response = await axios.delete(
@@ -1073,22 +1558,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         { headers: { Authorization: `Bearer ${user.token}` } }
       );
 
-      // Remove from local state
-      setConversations(prev =>
-        deduplicateConversations(prev.filter(conv =>
-          (conv._id || conv.id) !== conversationId
-        ))
-      );
-
-      // Clear current conversation if it was deleted
-      if (currentConversation &&
-        (currentConversation._id === conversationId || currentConversation.id === conversationId)) {
-        setCurrentConversation(null);
-        setMessages([]);
-      }
-
-      // Emit socket event to notify other participants
-      socket.emit('conversation_deleted', { conversationId });
+      removeConversation(conversationId);
+      getUnreadCount();
 
       return response.data;
     } catch (error: any) {
@@ -1098,6 +1569,22 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Archive, pin or mute a conversation for the current user. Errors are
+  // rethrown so the caller can tell the user.
+  const updateConversationSettings = async (conversationId: string, changes: ConversationSettings) => {
+    if (!user) return;
+
+    const response = await axios.put(
+      `${API_URL}/api/chat/conversations/${conversationId}/settings`,
+      changes,
+      { headers: { Authorization: `Bearer ${user.token}` } }
+    );
+
+    const { archived, pinned, muted_until } = response.data;
+    applyConversationSettings(conversationId, { archived, pinned, muted_until });
+    getUnreadCount();
+  };
+
   const value = {
     socket,
     conversations,
@@ -1108,6 +1595,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     unreadCount,
     getConversations,
     getMessages,
+    loadOlderMessages,
     sendMessage,
     joinConversation,
     leaveConversation,
@@ -1118,7 +1606,13 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     getOrCreateConversation,
     markConversationAsRead,
     deleteConversation,
-    resendMessage
+    updateConversationSettings,
+    resendMessage,
+    editMessage,
+    unsendMessage,
+    addReaction,
+    removeReaction,
+    markVoiceNoteListened
   };
 
   return (
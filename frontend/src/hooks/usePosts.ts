@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuthContext } from '../context/AuthContext';
+import { likePost, unlikePost } from '../api/posts';
 
 export interface Post {
   _id: string;
@@ -92,26 +93,30 @@ export const usePosts = () => {
     }
   };
 
-  // Like/unlike a post
+  // Like/unlike a post through the API
   const toggleLike = async (postId: string) => {
     if (!user) return;
 
+    const post = posts.find(p => p._id === postId);
+    if (!post) return;
+
     try {
-      const updatedPosts = posts.map(post => {
-        if (post._id === postId) {
-          const isLiked = post.likes.includes(user._id);
+      const isLiked = post.likes.includes(user._id);
+      const response = isLiked ? await unlikePost(postId) : await likePost(postId);
+      const { liked } = response.data;
+
+      const updatedPosts = posts.map(p => {
+        if (p._id === postId) {
+          const otherLikes = p.likes.filter(id => id !== user._id);
           return {
-            ...post,
-            likes: isLiked
-              ? post.likes.filter(id => id !== user._id)
-              : [...post.likes, user._id],
+            ...p,
+            likes: liked ? [...otherLikes, user._id] : otherLikes,
           };
         }
-        return post;
+        return p;
       });
 
       setPosts(updatedPosts);
-      await savePosts(updatedPosts);
     } catch (error) {
       console.error('Error toggling like:', error);
     }
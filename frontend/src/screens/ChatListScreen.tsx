@@ -1,10 +1,12 @@
 import React, { useEffect, useState, useMemo, useCallback } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Image, ActivityIndicator, TextInput, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { DEFAULT_AVATAR, API_URL } from '../utils/config';
-import { useChatContext } from '../context/ChatContext';
+import { useChatContext, isConversationMuted, messageMediaLabel, ConversationSettings } from '../context/ChatContext';
 import { useAuthContext } from '../context/AuthContext';
 import { fetchUserData, getOtherParticipant, batchLoadUsers } from '../utils/helpers';
+import { MessageSearchResults, SwipeActions, SwipeAction } from '../components';
+import { MessageSearchResult } from '../api/messages';
 import axios from 'axios';
 
 interface ChatListScreenProps {
@@ -16,6 +18,9 @@ type Conversation = {
   _id?: string;
   id?: string;
   participants: any[];
+  is_group?: boolean;
+  name?: string | null;
+  avatar_url?: string | null;
   lastMessage?: {
     created_at?: string;
     text?: string;
@@ -23,13 +28,33 @@ type Conversation = {
   };
   created_at?: string;
   unread_count?: number;
+  archived?: boolean;
+  pinned?: boolean;
+  muted_until?: string | null;
 };
 
+// How long a conversation can be muted for
+const MUTE_OPTIONS = [
+  { label: 'For 1 hour', hours: 1 },
+  { label: 'For 8 hours', hours: 8 },
+  { label: 'For 1 day', hours: 24 },
+  { label: 'For 1 week', hours: 24 * 7 },
+];
+
 export default function ChatListScreen({ navigation }: ChatListScreenProps) {
-  const { conversations, getConversations, isLoading, error } = useChatContext();
+  const {
+    conversations,
+    getConversations,
+    isLoading,
+    error,
+    deleteConversation,
+    updateConversationSettings
+  } = useChatContext();
   const { user } = useAuthContext();
   const [enrichedConversations, setEnrichedConversations] = useState(conversations);
   const [loadedUsers, setLoadedUsers] = useState<{ [key: string]: any }>({});
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
 
   useEffect(() => {
     getConversations();
@@ -174,8 +199,85 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
     preloadAllUserData();
   }, [conversations, user?.token]);
 
-  const navigateToChat = (chatId: string, userId: string, name: string) => {
-    navigation.navigate('ChatDetail', { chatId, userId, name });
+  const navigateToChat = (chatId: string, userId: string, name: string, isGroup = false) => {
+    navigation.navigate('ChatDetail', { chatId, userId, name, isGroup });
+  };
+
+  // Open the conversation a search result is in, scrolled to the matching message
+  const openSearchResult = (result: MessageSearchResult) => {
+    const isGroup = !!result.conversation?.is_group;
+    navigation.navigate('ChatDetail', {
+      chatId: result.conversation_id,
+      userId: isGroup ? '' : result.other_participant?._id || '',
+      name: isGroup ? result.conversation?.name || 'Group' : result.other_participant?.name || 'Chat',
+      isGroup,
+      messageId: result.id,
+    });
+  };
+
+  // Change the user's own settings for a conversation, telling them if it fails
+  const changeSettings = async (conversationId: string, changes: ConversationSettings) => {
+    try {
+      await updateConversationSettings(conversationId, changes);
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.message || 'Failed to update the conversation');
+    }
+  };
+
+  const showMuteOptions = (conversationId: string) => {
+    Alert.alert('Mute conversation', "Muted conversations don't add to your unread count.", [
+      ...MUTE_OPTIONS.map(option => ({
+        text: option.label,
+        onPress: () => changeSettings(conversationId, {
+          muted_until: new Date(Date.now() + option.hours * 60 * 60 * 1000).toISOString(),
+        }),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const confirmDelete = (conversationId: string) => {
+    Alert.alert('Delete conversation', 'The messages are cleared for you only; other participants keep them.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteConversation(conversationId) },
+    ]);
+  };
+
+  // Actions revealed by swiping a conversation to the left
+  const conversationActions = (item: Conversation): SwipeAction[] => {
+    const conversationId = (item._id || item.id)!;
+    const muted = isConversationMuted(item);
+
+    return [
+      {
+        key: 'pin',
+        label: item.pinned ? 'Unpin' : 'Pin',
+        icon: item.pinned ? 'pin-outline' : 'pin',
+        color: '#8E8E93',
+        onPress: () => changeSettings(conversationId, { pinned: !item.pinned }),
+      },
+      {
+        key: 'mute',
+        label: muted ? 'Unmute' : 'Mute',
+        icon: muted ? 'notifications-outline' : 'notifications-off-outline',
+        color: '#FF9500',
+        onPress: () => (muted ? changeSettings(conversationId, { muted_until: null }) : showMuteOptions(conversationId)),
+      },
+      {
+        key: 'archive',
+        label: item.archived ? 'Unarchive' : 'Archive',
+        icon: 'archive-outline',
+        color: '#4B0082',
+        onPress: () => changeSettings(conversationId, { archived: !item.archived }),
+      },
+      {
+        key: 'delete',
+        label: 'Delete',
+        icon: 'trash-outline',
+        color: '#ff3b30',
+        onPress: () => confirmDelete(conversationId),
+      },
+    ];
   };
 
   const formatLastMessageTime = (timestamp: string) => {
@@ -264,7 +366,12 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
 
     // Get the last message
     const lastMessageObj = item.lastMessage;
-    const lastMessage = lastMessageObj ? (lastMessageObj.text || lastMessageObj.content || 'No message content') : 'Start a conversation';
+    const lastMessage = lastMessageObj
+      ? (lastMessageObj.deleted_at
+        ? 'Message unsent'
+        : lastMessageObj.text || lastMessageObj.content ||
+          (lastMessageObj.media_type ? messageMediaLabel(lastMessageObj.media_type) : 'No message content'))
+      : 'Start a conversation';
 
     // Handle different timestamp formats
     const timestamp = lastMessageObj
@@ -272,12 +379,20 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
       : '';
 
     // Check if message is from other user (more reliable check)
-    const isMessageFromOtherUser = lastMessageObj &&
-      ((lastMessageObj.sender_id && lastMessageObj.sender_id === otherParticipant._id) ||
-        (lastMessageObj.sender && lastMessageObj.sender._id === otherParticipant._id));
+    const isMessageFromOtherUser = lastMessageObj && (item.is_group
+      ? (lastMessageObj.sender_id || lastMessageObj.sender?._id) !== user?._id
+      : ((lastMessageObj.sender_id && lastMessageObj.sender_id === otherParticipant._id) ||
+        (lastMessageObj.sender && lastMessageObj.sender._id === otherParticipant._id)));
+
+    // Groups show their own name and avatar, and who sent your last message
+    const title = item.is_group ? item.name || 'Group' : otherParticipant.name;
+    const preview = item.is_group && lastMessageObj && !isMessageFromOtherUser
+      ? `You: ${lastMessage}`
+      : lastMessage;
 
     // Only show as unread if the message is from the other user AND not read
     const unread = lastMessageObj && !lastMessageObj.read && isMessageFromOtherUser ? 1 : 0;
+    const muted = isConversationMuted(item);
 
     // Use conversation id in the correct format
     const conversationId = item._id || item.id;
@@ -306,30 +421,44 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
           }
 
           // Navigate to the chat
-          navigateToChat(conversationId, otherParticipant._id, otherParticipant.name);
+          if (item.is_group) {
+            navigateToChat(conversationId, '', title, true);
+          } else {
+            navigateToChat(conversationId, otherParticipant._id, otherParticipant.name);
+          }
         }}
       >
-        <Image
-          source={{ uri: otherParticipant.profilePicture || DEFAULT_AVATAR }}
-          style={styles.avatar}
-        />
+        {item.is_group && !item.avatar_url ? (
+          <View style={[styles.avatar, styles.groupAvatar]}>
+            <Ionicons name="people" size={24} color="#fff" />
+          </View>
+        ) : (
+          <Image
+            source={{ uri: (item.is_group ? item.avatar_url : otherParticipant.profilePicture) || DEFAULT_AVATAR }}
+            style={styles.avatar}
+          />
+        )}
         <View style={styles.chatContent}>
           <View style={styles.chatHeader}>
-            <Text style={[styles.name, isUserLoading && styles.loadingName]}>
-              {otherParticipant.name}
-              {isUserLoading && ' ⟳'}
+            <Text style={[styles.name, !item.is_group && isUserLoading && styles.loadingName]}>
+              {title}
+              {!item.is_group && isUserLoading && ' ⟳'}
             </Text>
-            <Text style={styles.timestamp}>{timestamp}</Text>
+            <View style={styles.headerRight}>
+              {item.pinned && <Ionicons name="pin" size={14} color="#999" style={styles.statusIcon} />}
+              {muted && <Ionicons name="notifications-off" size={14} color="#999" style={styles.statusIcon} />}
+              <Text style={styles.timestamp}>{timestamp}</Text>
+            </View>
           </View>
           <View style={styles.messageRow}>
             <Text
               style={[styles.message, unread > 0 && styles.unreadMessage]}
               numberOfLines={1}
             >
-              {lastMessage}
+              {preview}
             </Text>
             {unread > 0 && (
-              <View style={styles.unreadBadge}>
+              <View style={[styles.unreadBadge, muted && styles.mutedBadge]}>
                 <Text style={styles.unreadCount}>{unread}</Text>
               </View>
             )}
@@ -345,6 +474,12 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
 
     // Process each conversation
     conversations.forEach(convo => {
+      // Groups are never merged with other conversations
+      if (convo.is_group) {
+        uniqueParticipants.set(`group:${convo._id || convo.id}`, convo);
+        return;
+      }
+
       // Get the other participant in the conversation
       const participants = Array.isArray(convo.participants) ? convo.participants : [];
       const otherParticipant = participants.find(p => {
@@ -369,8 +504,11 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
       }
     });
 
-    // Convert map values to array and sort by most recent message
+    // Convert map values to array and sort pinned conversations first, then by most recent message
     return Array.from(uniqueParticipants.values()).sort((a, b) => {
+      if (!!a.pinned !== !!b.pinned) {
+        return a.pinned ? -1 : 1;
+      }
       const timeA = a.lastMessage?.created_at || a.created_at || '';
       const timeB = b.lastMessage?.created_at || b.created_at || '';
       // Sort descending (newest first)
@@ -378,6 +516,10 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
     });
   }, [conversations, user?._id]);
 
+  // Archived conversations are listed on their own
+  const archivedCount = processedConversations.filter(convo => convo.archived).length;
+  const listedConversations = processedConversations.filter(convo => !!convo.archived === showArchived);
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -404,20 +546,60 @@ export default function ChatListScreen({ navigation }: ChatListScreenProps) {
 
   return (
     <View style={styles.container}>
-      {processedConversations.length > 0 ? (
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search messages"
+          placeholderTextColor="#999"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCapitalize="none"
+          returnKeyType="search"
+        />
+        {searchQuery.length > 0 && (
+          <TouchableOpacity onPress={() => setSearchQuery('')}>
+            <Ionicons name="close-circle" size={18} color="#999" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {searchQuery.trim() ? (
+        <MessageSearchResults query={searchQuery} onSelect={openSearchResult} />
+      ) : processedConversations.length > 0 ? (
         <FlatList
-          data={processedConversations}
+          data={listedConversations}
           renderItem={({ item }) => (
-            <ChatItem
-              item={item}
-              loadedUsers={loadedUsers}
-              fetchUserData={fetchUserData}
-              setEnrichedConversations={setEnrichedConversations}
-              navigateToChat={navigateToChat}
-              enrichedConversations={enrichedConversations}
-              user={user}
-            />
+            <SwipeActions actions={conversationActions(item)}>
+              <ChatItem
+                item={item}
+                loadedUsers={loadedUsers}
+                fetchUserData={fetchUserData}
+                setEnrichedConversations={setEnrichedConversations}
+                navigateToChat={navigateToChat}
+                enrichedConversations={enrichedConversations}
+                user={user}
+              />
+            </SwipeActions>
           )}
+          ListHeaderComponent={
+            showArchived ? (
+              <TouchableOpacity style={styles.archivedRow} onPress={() => setShowArchived(false)}>
+                <Ionicons name="arrow-back" size={20} color="#4B0082" />
+                <Text style={styles.archivedText}>Archived</Text>
+              </TouchableOpacity>
+            ) : archivedCount > 0 ? (
+              <TouchableOpacity style={styles.archivedRow} onPress={() => setShowArchived(true)}>
+                <Ionicons name="archive-outline" size={20} color="#4B0082" />
+                <Text style={styles.archivedText}>Archived ({archivedCount})</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+          ListEmptyComponent={
+            <Text style={styles.listEmptyText}>
+              {showArchived ? 'No archived conversations' : 'All your conversations are archived'}
+            </Text>
+          }
           keyExtractor={(item) => {
             // Ensure we have a unique key even if _id and id are missing
             return item._id?.toString() || item.id?.toString() || Math.random().toString(36).substring(2, 11);
@@ -460,6 +642,22 @@ const styles = StyleSheet.create({
   listContent: {
     paddingVertical: 8,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 4,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  searchInput: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 15,
+  },
   chatItem: {
     flexDirection: 'row',
     padding: 16,
@@ -473,6 +671,11 @@ const styles = StyleSheet.create({
     borderRadius: 25,
     marginRight: 14,
   },
+  groupAvatar: {
+    backgroundColor: '#4B0082',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   chatContent: {
     flex: 1,
   },
@@ -491,6 +694,32 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusIcon: {
+    marginRight: 4,
+  },
+  archivedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f1f1',
+  },
+  archivedText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4B0082',
+    marginLeft: 12,
+  },
+  listEmptyText: {
+    textAlign: 'center',
+    color: '#999',
+    marginTop: 40,
+  },
   messageRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -505,6 +734,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  mutedBadge: {
+    backgroundColor: '#999',
+  },
   unreadBadge: {
     backgroundColor: '#4B0082',
     borderRadius: 10,
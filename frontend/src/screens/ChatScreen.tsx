@@ -10,15 +10,36 @@ import {
   Platform,
   Image,
   ActivityIndicator,
-  Alert
+  Alert,
+  Modal
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import { useAuthContext } from '../context/AuthContext';
-import { useChatContext } from '../context/ChatContext';
-import { DEFAULT_AVATAR, API_URL } from '../utils/config';
+import {
+  useChatContext,
+  applyReadReceipt,
+  applyDeliveryReceipt,
+  getParticipantIds,
+  unsentMessageChanges,
+  messageMediaLabel,
+  MessageReaction,
+  ReplyPreview
+} from '../context/ChatContext';
+import { DEFAULT_AVATAR, API_URL, MESSAGE_CHANGE_WINDOW_MINUTES } from '../utils/config';
 import { fetchUserData } from '../utils/helpers';
 import { Message } from '../context/ChatContext';
 import { User } from '../types/User';
+import { Group, getGroup } from '../api/groups';
+import { MessageSearchResult, MessageAttachment, AttachmentFile, uploadAttachment } from '../api/messages';
+import {
+  GroupInfoModal,
+  SwipeToReply,
+  MessageSearchResults,
+  MessageAttachmentView,
+  VoiceNoteRecorder
+} from '../components';
+import { formatDuration } from '../components/VoiceNotePlayer';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 interface ChatScreenProps {
@@ -26,12 +47,21 @@ interface ChatScreenProps {
   route: any;
 }
 
+// Offered in the long-press reaction picker
+const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
+
+// Messages fetched per page, both on open and when paging back
+const MESSAGE_PAGE_SIZE = 50;
+
 export default function ChatScreen({ navigation, route }: ChatScreenProps) {
   // Make sure route.params exist with safe defaults to prevent hooks from being skipped
   const params = route.params || {};
   const chatId = params.chatId || null;
   const routeUserId = params.userId || null;
   const name = params.name || 'Chat';
+  const isGroup = params.isGroup === true;
+  // Set when opened from a search result, to scroll to the matching message
+  const routeMessageId: string | null = params.messageId || null;
 
   // Add a state variable to track the UI state (loading, error, or normal)
   const [uiState, setUiState] = useState<'normal' | 'loading' | 'error'>('normal');
@@ -45,23 +75,83 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     isLoading,
     error,
     getMessages,
+    loadOlderMessages,
     sendMessage,
     joinConversation,
     leaveConversation,
     getOrCreateConversation,
     currentConversation,
+    setCurrentConversation,
     clearChatError,
     socket,
-    markMessagesAsRead
+    markMessagesAsRead,
+    editMessage,
+    unsendMessage,
+    addReaction,
+    removeReaction,
+    markVoiceNoteListened
   } = useChatContext();
   const [newMessage, setNewMessage] = useState('');
   const [conversationId, setConversationId] = useState<string | null>(chatId || null);
   const [localMessages, setLocalMessages] = useState<any[]>([]);
   const [isTyping, setIsTyping] = useState(false);
+  const [typingUserId, setTypingUserId] = useState<string | null>(null);
+  const [groupInfoVisible, setGroupInfoVisible] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  // The message whose reaction picker and actions are open
+  const [actionMessage, setActionMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Jumping to a quoted message: the message to scroll to, then briefly highlight
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  // Seconds recorded so far while a voice note is being held down
+  const [recordingSeconds, setRecordingSeconds] = useState<number | null>(null);
+  // Whether older history remains to be paged in, and a guard against
+  // requesting the same page twice
+  const hasOlderPagesRef = useRef(true);
+  const loadingOlderRef = useRef(false);
+  // The newest message shown, to tell new messages from older history
+  const newestMessageKeyRef = useRef('');
+  // Set while showing a quoted message so new content doesn't scroll away from it
+  const holdScrollRef = useRef(false);
   const [optimisticMessages, setOptimisticMessages] = useState<any[]>([]);
   const flatListRef = useRef<FlatList>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [onAcc, setAcc] = useState<any[]>([]);
+
+  // The open group, kept up to date by the chat context's group_updated handler
+  const group = isGroup && currentConversation &&
+    (currentConversation._id || currentConversation.id) === conversationId
+    ? currentConversation
+    : null;
+  // Other members' IDs, joined so effects only rerun when membership changes
+  const otherMemberKey = group
+    ? getParticipantIds(group).filter(id => id !== user?._id).join(',')
+    : '';
+
+  const handleGroupChange = useCallback((updated: Group) => {
+    setCurrentConversation({ ...updated, _id: updated.id });
+  }, [setCurrentConversation]);
+
+  // Apply an edit or unsend to a message shown on screen
+  const updateLocalMessage = useCallback((messageId: string, changes: Partial<Message>) => {
+    const isTarget = (msg: any) => msg._id === messageId || msg.id === messageId;
+    setLocalMessages(prev => prev.map(msg => (isTarget(msg) ? { ...msg, ...changes } : msg)));
+    setOptimisticMessages(prev => prev.map(msg => (isTarget(msg) ? { ...msg, ...changes } : msg)));
+  }, []);
+
+  // Load the group so its members and name are known before the first message
+  useEffect(() => {
+    if (!isGroup || !chatId) return;
+
+    getGroup(chatId)
+      .then(handleGroupChange)
+      .catch(err => console.error('Error loading group:', err));
+  }, [isGroup, chatId]);
   // Add validation for route params
   useEffect(() => {
     // Log route parameters for debugging
@@ -80,6 +170,8 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
 
   // Auto-scroll to the bottom when new messages arrive
   const scrollToBottom = useCallback((animated = false) => {
+    if (holdScrollRef.current) return;
+
     if (flatListRef.current && (localMessages.length + optimisticMessages.length) > 0) {
       setTimeout(() => {
         // Since the FlatList is inverted, we need to scroll to the beginning
@@ -107,7 +199,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       // Create a map of optimistic messages by text+sender for deduplication
       const optimisticMessageKeys = new Set();
       optimisticMessages.forEach(msg => {
-        const key = `${msg.text}-${msg.sender_id}`;
+        const key = `${msg.text}-${msg.sender_id}-${msg.attachment_id || ''}`;
         optimisticMessageKeys.add(key);
       });
 
@@ -115,7 +207,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       const uniqueMessages: Message[] = messages.reduce<Message[]>((acc, message) => {
         const messageId = message._id || message.id;
         const messageText = (message.text || '').toLowerCase();
-        const msgKey = `${message.text}-${message.sender_id}`;
+        const msgKey = `${message.text}-${message.sender_id}-${message.attachment_id || ''}`;
 
         // Skip test messages
         if (messageText.includes('hello from supabase') ||
@@ -223,6 +315,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
           if (typingTimeout) clearTimeout(typingTimeout);
 
           setIsTyping(true);
+          setTypingUserId(data.userId);
 
           // Auto-hide typing indicator after 3 seconds
           typingTimeout = setTimeout(() => {
@@ -318,6 +411,10 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
           sender_id: data.sender_id,
           recipient_id: data.recipient_id,
           conversation_id: conversationId,
+          attachment_id: data.attachment_id,
+          attachment: data.attachment,
+          media_url: data.media_url,
+          media_type: data.media_type,
           createdAt: data.createdAt || data.created_at || new Date().toISOString(),
           created_at: data.created_at || data.createdAt || new Date().toISOString(),
           read: true, // Mark as read since user is viewing the conversation
@@ -343,6 +440,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
             // Also check for messages with same text and sender within 1 minute timeframe
             (m.text === data.text &&
               m.sender_id === data.sender_id &&
+              (m.attachment_id || null) === (data.attachment_id || null) &&
               Math.abs(new Date(m.created_at || m.createdAt || 0).getTime() -
                 new Date(data.created_at || data.createdAt || 0).getTime()) < 60000)
           );
@@ -409,19 +507,17 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       }
     };
 
-    // Handle read receipts
-    const handleMessageRead = (data: any) => {
-      if (data.conversationId === conversationId) {
-        // Update both optimistic and regular messages to show read status
+    // In groups a message only shows as read once every other member has read it
+    const otherMemberIds = isGroup ? otherMemberKey.split(',').filter(Boolean) : null;
+
+    // Handle a message reaching one of its recipients' devices
+    const handleMessageSeen = (data: any) => {
+      if (data.conversationId === conversationId && data.recipientId !== user?._id) {
+        // Update both optimistic and regular messages to show delivered status
         setOptimisticMessages(prev =>
           prev.map(msg => {
             if (msg._id === data.messageId || msg.id === data.messageId) {
-              return {
-                ...msg,
-                read: true,
-                _read_timestamp: data.timestamp,
-                pending: false
-              };
+              return { ...applyDeliveryReceipt(msg, data.recipientId, data.timestamp, otherMemberIds), pending: false };
             }
             return msg;
           })
@@ -430,11 +526,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
         setLocalMessages(prev =>
           prev.map(msg => {
             if (msg._id === data.messageId || msg.id === data.messageId) {
-              return {
-                ...msg,
-                read: true,
-                _read_timestamp: data.timestamp
-              };
+              return applyDeliveryReceipt(msg, data.recipientId, data.timestamp, otherMemberIds);
             }
             return msg;
           })
@@ -442,34 +534,23 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       }
     };
 
-    // Handle messages_read event (multiple messages marked as read)
-    const handleMessagesRead = (data: any) => {
+    // Handle read receipts
+    const handleMessageRead = (data: any) => {
       if (data.conversationId === conversationId && data.userId !== user?._id) {
-        // Update all messages sent by the current user to show as read
-        setLocalMessages(prev =>
+        // Update both optimistic and regular messages to show read status
+        setOptimisticMessages(prev =>
           prev.map(msg => {
-            // Only update messages sent by the current user
-            if (msg.sender_id === user?._id || msg.sender?._id === user?._id) {
-              return {
-                ...msg,
-                read: true,
-                _read_timestamp: data.timestamp
-              };
+            if (msg._id === data.messageId || msg.id === data.messageId) {
+              return { ...applyReadReceipt(msg, data.userId, data.timestamp, otherMemberIds), pending: false };
             }
             return msg;
           })
         );
 
-        // Also update optimistic messages
-        setOptimisticMessages(prev =>
+        setLocalMessages(prev =>
           prev.map(msg => {
-            if (msg.sender_id === user?._id || msg.sender?._id === user?._id) {
-              return {
-                ...msg,
-                read: true,
-                _read_timestamp: data.timestamp,
-                pending: false
-              };
+            if (msg._id === data.messageId || msg.id === data.messageId) {
+              return applyReadReceipt(msg, data.userId, data.timestamp, otherMemberIds);
             }
             return msg;
           })
@@ -477,24 +558,82 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       }
     };
 
+    // Handle messages_read event (multiple messages marked as read)
+    const handleMessagesRead = (data: any) => {
+      if (data.conversationId === conversationId && data.userId !== user?._id) {
+        // Only update the listed messages sent by the current user
+        const isReadOwnMessage = (msg: any) =>
+          (msg.sender_id === user?._id || msg.sender?._id === user?._id) &&
+          (!data.messageIds?.length || data.messageIds.includes(msg._id) || data.messageIds.includes(msg.id));
+
+        setLocalMessages(prev =>
+          prev.map(msg =>
+            isReadOwnMessage(msg) ? applyReadReceipt(msg, data.userId, data.timestamp, otherMemberIds) : msg
+          )
+        );
+
+        // Also update optimistic messages
+        setOptimisticMessages(prev =>
+          prev.map(msg =>
+            isReadOwnMessage(msg)
+              ? { ...applyReadReceipt(msg, data.userId, data.timestamp, otherMemberIds), pending: false }
+              : msg
+          )
+        );
+      }
+    };
+
+    // Handle messages edited or unsent by their sender
+    const handleMessageEdited = (data: any) => {
+      if (data.conversationId === conversationId) {
+        updateLocalMessage(data.messageId, { text: data.text, edited_at: data.editedAt });
+      }
+    };
+
+    const handleMessageDeleted = (data: any) => {
+      if (data.conversationId === conversationId) {
+        updateLocalMessage(data.messageId, unsentMessageChanges(data.deletedAt));
+      }
+    };
+
+    const handleReactionUpdated = (data: any) => {
+      if (data.conversationId === conversationId) {
+        updateLocalMessage(data.messageId, { reactions: data.reactions });
+      }
+    };
+
+    const handleVoiceNoteListened = (data: any) => {
+      if (data.conversationId === conversationId) {
+        updateLocalMessage(data.messageId, { read_by: data.readBy });
+      }
+    };
+
     // Add the direct message listener
     socket.on('receive_message', handleDirectMessage);
+    socket.on('message_edited', handleMessageEdited);
+    socket.on('message_deleted', handleMessageDeleted);
+    socket.on('reaction_updated', handleReactionUpdated);
+    socket.on('voice_note_listened', handleVoiceNoteListened);
 
     // Add delivery and read receipt listeners
     socket.on('message_delivered', handleMessageDelivered);
-    socket.on('message_seen', handleMessageRead);
+    socket.on('message_seen', handleMessageSeen);
     socket.on('message_read', handleMessageRead);
     socket.on('messages_read', handleMessagesRead);
 
     // Clean up on unmount
     return () => {
       socket.off('receive_message', handleDirectMessage);
+      socket.off('message_edited', handleMessageEdited);
+      socket.off('message_deleted', handleMessageDeleted);
+      socket.off('reaction_updated', handleReactionUpdated);
+      socket.off('voice_note_listened', handleVoiceNoteListened);
       socket.off('message_delivered', handleMessageDelivered);
-      socket.off('message_seen', handleMessageRead);
+      socket.off('message_seen', handleMessageSeen);
       socket.off('message_read', handleMessageRead);
       socket.off('messages_read', handleMessagesRead);
     };
-  }, [socket, conversationId, user?._id, scrollToBottom]);
+  }, [socket, conversationId, user?._id, scrollToBottom, isGroup, otherMemberKey, updateLocalMessage]);
 
   // Add a function to reload conversation messages (for manual refresh)
   const reloadConversation = useCallback(async () => {
@@ -511,7 +650,8 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       setOptimisticMessages([]);
 
       // Get fresh messages
-      await getMessages(conversationId, 1, 100);
+      await getMessages(conversationId, MESSAGE_PAGE_SIZE);
+      hasOlderPagesRef.current = true;
 
       // Mark as read
       await markMessagesAsRead(conversationId);
@@ -550,6 +690,9 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
               <TouchableOpacity onPress={reloadUserData} style={{ marginRight: 10 }}>
                 <Ionicons name="person-circle-outline" size={24} color="#4B0082" />
               </TouchableOpacity>
+              <TouchableOpacity onPress={() => setIsSearching(true)} style={{ marginRight: 10 }}>
+                <Ionicons name="search" size={24} color="#4B0082" />
+              </TouchableOpacity>
               <TouchableOpacity onPress={reloadConversation} style={{ marginRight: 15 }}>
                 <Ionicons name="refresh" size={24} color="#4B0082" />
               </TouchableOpacity>
@@ -567,6 +710,9 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
             <TouchableOpacity onPress={reloadUserData} style={{ marginRight: 10 }}>
               <Ionicons name="person-circle-outline" size={24} color="#4B0082" />
             </TouchableOpacity>
+            <TouchableOpacity onPress={() => setIsSearching(true)} style={{ marginRight: 10 }}>
+              <Ionicons name="search" size={24} color="#4B0082" />
+            </TouchableOpacity>
             <TouchableOpacity onPress={reloadConversation} style={{ marginRight: 15 }}>
               <Ionicons name="refresh" size={24} color="#4B0082" />
             </TouchableOpacity>
@@ -578,6 +724,26 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
 
   // Set up header with title and reload buttons
   useEffect(() => {
+    if (isGroup) {
+      navigation.setOptions({
+        title: group?.name || name,
+        headerRight: () => (
+          <View style={{ flexDirection: 'row' }}>
+            <TouchableOpacity onPress={() => setGroupInfoVisible(true)} style={{ marginRight: 10 }}>
+              <Ionicons name="information-circle-outline" size={24} color="#4B0082" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setIsSearching(true)} style={{ marginRight: 10 }}>
+              <Ionicons name="search" size={24} color="#4B0082" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={reloadConversation} style={{ marginRight: 15 }}>
+              <Ionicons name="refresh" size={24} color="#4B0082" />
+            </TouchableOpacity>
+          </View>
+        ),
+      });
+      return;
+    }
+
     navigation.setOptions({
       title: name && name !== 'User not loaded' && name !== 'Loading User...' ? name : 'Chat',
       headerRight: () => (
@@ -585,13 +751,16 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
           <TouchableOpacity onPress={reloadUserData} style={{ marginRight: 10 }}>
             <Ionicons name="person-circle-outline" size={24} color="#4B0082" />
           </TouchableOpacity>
+          <TouchableOpacity onPress={() => setIsSearching(true)} style={{ marginRight: 10 }}>
+            <Ionicons name="search" size={24} color="#4B0082" />
+          </TouchableOpacity>
           <TouchableOpacity onPress={reloadConversation} style={{ marginRight: 15 }}>
             <Ionicons name="refresh" size={24} color="#4B0082" />
           </TouchableOpacity>
         </View>
       ),
     });
-  }, [navigation, name, reloadConversation, reloadUserData, conversationId]);
+  }, [navigation, name, reloadConversation, reloadUserData, conversationId, isGroup, group?.name]);
 
   // Load or create the conversation
   useEffect(() => {
@@ -608,7 +777,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
           setOptimisticMessages([]);
 
           // Get messages with a larger limit to ensure we see history
-          await getMessages(conversationId, 1, 50);
+          await getMessages(conversationId, MESSAGE_PAGE_SIZE);
 
           // Join the conversation for real-time updates
           joinConversation(conversationId);
@@ -641,7 +810,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
             setOptimisticMessages([]);
 
             // Get messages with a larger limit to ensure we see history
-            await getMessages(convoId, 1, 50);
+            await getMessages(convoId, MESSAGE_PAGE_SIZE);
 
             // Join the conversation for real-time updates
             joinConversation(convoId);
@@ -680,6 +849,9 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
 
   // Ensure recipientId is set from conversation if needed
   useEffect(() => {
+    // Group messages go to every member, not a single recipient
+    if (isGroup) return;
+
     if (!recipientId && currentConversation?.participants) {
       // console.log("Attempting to extract recipient from conversation:", currentConversation);
 
@@ -718,11 +890,11 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
         console.error("Could not find other participant in conversation");
       }
     }
-  }, [currentConversation, user, recipientId]);
+  }, [currentConversation, user, recipientId, isGroup]);
 
   // Get recipient ID from messages if needed
   useEffect(() => {
-    if (!recipientId && messages.length > 0) {
+    if (!isGroup && !recipientId && messages.length > 0) {
       // console.log("No recipient ID yet, trying to extract from messages");
 
       // Look through messages to find the other user
@@ -747,7 +919,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
         }
       }
     }
-  }, [messages, user, recipientId]);
+  }, [messages, user, recipientId, isGroup]);
 
   // Scroll to bottom when keyboard appears or component mounts
   useEffect(() => {
@@ -767,7 +939,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     // Ensure messages are loaded if none are present
     if (!isLoading && localMessages.length === 0 && conversationId) {
       // console.log('No messages found in local state, trying to load more');
-      getMessages(conversationId, 1, 100);
+      getMessages(conversationId, MESSAGE_PAGE_SIZE);
     }
 
     // Don't automatically scroll to bottom on initial load
@@ -791,16 +963,17 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     };
   }, []);
 
-  const handleSendMessage = async () => {
+  // Send the typed text, or an uploaded attachment with the text as its caption
+  const handleSendMessage = async (attachment?: MessageAttachment) => {
     const messageText = newMessage.trim();
-    if (messageText === '') return;
+    if (messageText === '' && !attachment) return;
 
     try {
       // Determine recipient ID - first try direct recipientId
       let messageRecipientId = recipientId;
 
       // If no direct recipientId, try from conversation
-      if (!messageRecipientId && currentConversation?.participants) {
+      if (!isGroup && !messageRecipientId && currentConversation?.participants) {
         console.log("Trying to extract recipient from conversation participants");
         const participants = Array.isArray(currentConversation.participants)
           ? currentConversation.participants
@@ -820,7 +993,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       }
 
       // As a last resort, try to extract from messages
-      if (!messageRecipientId && messages.length > 0) {
+      if (!isGroup && !messageRecipientId && messages.length > 0) {
         console.log("Looking for recipient in message history");
         for (const message of messages) {
           // If we're replying to a message from someone else, use their ID
@@ -834,18 +1007,34 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
       }
 
       // Check if we have a valid recipient ID now
-      if (!messageRecipientId) {
+      if (!isGroup && !messageRecipientId) {
         console.error("Missing recipient ID - cannot send message");
         Alert.alert('Error', 'Cannot send message: Recipient not found');
         return;
       }
 
-      console.log("Sending message to recipient:", messageRecipientId);
+      if (isGroup && !group) {
+        Alert.alert('Error', 'Cannot send message: The group is still loading');
+        return;
+      }
+
+      console.log("Sending message to", isGroup ? "group" : "recipient:", isGroup ? conversationId : messageRecipientId);
 
       // Store original message text and clear input field immediately for better UX
       const originalMessageText = messageText;
       setNewMessage('');
 
+      // Quote the message being replied to, if any
+      const replyToId = replyingTo ? (replyingTo._id || replyingTo.id) : undefined;
+      const replyPreview: ReplyPreview | null = replyingTo && replyToId ? {
+        id: replyToId,
+        sender_id: (replyingTo.sender_id || replyingTo.sender?._id)!,
+        text: replyingTo.text,
+        media_type: replyingTo.media_type || null,
+        deleted_at: null,
+      } : null;
+      setReplyingTo(null);
+
       // Create a unique optimistic message ID with timestamp for sorting
       const timestamp = new Date().toISOString();
       const optimisticId = `opt_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
@@ -857,8 +1046,14 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
         text: originalMessageText,
         sender: user,
         sender_id: user?._id,
-        recipient_id: messageRecipientId,
+        recipient_id: isGroup ? null : messageRecipientId,
         conversation_id: conversationId,
+        reply_to_id: replyToId,
+        reply_to: replyPreview,
+        attachment_id: attachment?.id,
+        attachment,
+        media_url: attachment?.url,
+        media_type: attachment?.media_type,
         read: false,
         createdAt: timestamp,
         created_at: timestamp,
@@ -878,7 +1073,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
         console.log("Emitting message via socket for real-time delivery");
         socket.emit('send_message', {
           ...optimisticMessage,
-          recipientId: messageRecipientId,
+          recipientId: isGroup ? undefined : messageRecipientId,
           pending: undefined // Don't send pending status to other clients
         });
       } else {
@@ -887,7 +1082,12 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
 
       // Call sendMessage with the determined recipientId
       console.log("Calling API to send message");
-      const result = await sendMessage(messageRecipientId, originalMessageText);
+      const result = await sendMessage(
+        isGroup ? null : messageRecipientId || null,
+        originalMessageText,
+        attachment?.id,
+        replyToId
+      );
 
       if (!result) {
         console.error("Failed to send message - empty result from API");
@@ -961,6 +1161,248 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     }
   };
 
+  // Pick a photo or video from the library, upload it and send it
+  const pickAttachment = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Photo access needed', 'Allow photo library access to send photos and videos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images', 'videos'],
+      quality: 0.8,
+    });
+    if (result.canceled) return;
+
+    const asset = result.assets[0];
+    const isVideo = asset.type === 'video';
+    const fileName = asset.fileName || asset.uri.split('/').pop() || (isVideo ? 'video.mp4' : 'photo.jpg');
+
+    await sendAttachment({
+      uri: asset.uri,
+      mimeType: asset.mimeType || (isVideo ? 'video/mp4' : 'image/jpeg'),
+      fileName,
+      // The picker reports video length in milliseconds
+      duration: asset.duration ? asset.duration / 1000 : null,
+    });
+  };
+
+  // Upload a picked file or recorded voice note, then send it
+  const sendAttachment = async (file: AttachmentFile) => {
+    try {
+      setIsUploading(true);
+      const attachment = await uploadAttachment(file, conversationId ? { conversationId } : { recipientId });
+      await handleSendMessage(attachment);
+    } catch (err: any) {
+      Alert.alert('Upload Failed', err.response?.data?.message || 'The attachment could not be uploaded.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Whether a voice note has been played: by the current user, or for their
+  // own voice notes by anyone else
+  const isVoiceNoteListened = (message: Message, isOwn: boolean) =>
+    (message.read_by || []).some(receipt =>
+      !!receipt.listened_at && (isOwn ? receipt.user_id !== user?._id : receipt.user_id === user?._id)
+    );
+
+  // Let the sender know the first time the user plays one of their voice notes
+  const handleVoiceNotePlayed = (message: Message) => {
+    const messageId = message._id || message.id;
+    if (!messageId || isVoiceNoteListened(message, false)) return;
+
+    markVoiceNoteListened(messageId)
+      .then(readBy => updateLocalMessage(messageId, { read_by: readBy }))
+      .catch(err => console.error('Error marking voice note as listened:', err));
+  };
+
+  // Own messages can be edited or unsent for a while after they are saved
+  const canChangeMessage = (message: Message) => {
+    const messageId = message._id || message.id;
+    const sentAt = new Date(message.created_at || message.createdAt || 0).getTime();
+
+    return (message.sender_id === user?._id || message.sender?._id === user?._id) &&
+      !!messageId && !messageId.startsWith('opt_') &&
+      !message.pending && !message.failed && !message.deleted_at &&
+      Date.now() - sentAt < MESSAGE_CHANGE_WINDOW_MINUTES * 60 * 1000;
+  };
+
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.text);
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessage) {
+      cancelEditing();
+    }
+    setReplyingTo(message);
+  };
+
+  // Who a quote is from, as shown above the quoted text
+  const quoteAuthorName = (senderId: string) => {
+    if (senderId === user?._id) return 'You';
+    if (isGroup) {
+      return group?.members?.find(member => member._id === senderId)?.name || 'Member';
+    }
+    return name;
+  };
+
+  const quoteText = (quote: ReplyPreview) => {
+    if (quote.deleted_at) return 'Message unsent';
+    if (quote.text) return quote.text;
+    return messageMediaLabel(quote.media_type);
+  };
+
+  // The oldest message loaded from the server, which older history pages back from
+  const oldestLoadedMessageId = (): string | null => {
+    const loaded = localMessages.filter(msg => {
+      const id = msg._id || msg.id;
+      return id && !String(id).startsWith('temp-') && !msg.pending && !msg.failed;
+    });
+    const oldest = loaded[loaded.length - 1];
+    return oldest ? oldest._id || oldest.id : null;
+  };
+
+  // Page in the messages before the oldest loaded one, and any older pages
+  // until `isDone` is satisfied. Messages already loaded are never fetched again.
+  const pageInOlderMessages = async (isDone: (page: Message[]) => boolean) => {
+    let beforeId = oldestLoadedMessageId();
+    if (!conversationId || !beforeId || loadingOlderRef.current) return;
+
+    try {
+      loadingOlderRef.current = true;
+      setIsLoadingOlder(true);
+      while (beforeId && hasOlderPagesRef.current) {
+        const result = await loadOlderMessages(conversationId, beforeId, MESSAGE_PAGE_SIZE);
+        hasOlderPagesRef.current = result.hasMore;
+        if (isDone(result.messages)) break;
+        // Pages come oldest first
+        beforeId = result.messages[0]?._id || result.messages[0]?.id || null;
+      }
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  };
+
+  // Load one more page of history as the user scrolls up
+  const handleLoadOlder = () => {
+    if (!hasOlderPagesRef.current) return;
+
+    pageInOlderMessages(() => true).catch(err => console.error('Error loading older messages:', err));
+  };
+
+  // Scroll to a quoted message, paging back through older messages until it is loaded
+  const jumpToMessage = async (messageId: string) => {
+    if (!conversationId || loadingOlderRef.current) return;
+
+    const isTarget = (msg: Message) => msg._id === messageId || msg.id === messageId;
+    let found = allMessages.some(isTarget);
+
+    if (!found) {
+      try {
+        await pageInOlderMessages(page => {
+          found = page.some(isTarget);
+          return found;
+        });
+      } catch (err) {
+        Alert.alert('Error', 'Failed to load older messages');
+        return;
+      }
+    }
+
+    if (!found) {
+      Alert.alert('Message not found', 'The original message is no longer available.');
+      return;
+    }
+
+    holdScrollRef.current = true;
+    setScrollTarget(messageId);
+  };
+
+  const closeSearch = () => {
+    setIsSearching(false);
+    setSearchQuery('');
+  };
+
+  const openSearchResult = (result: MessageSearchResult) => {
+    closeSearch();
+    jumpToMessage(result.id);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  const handleSaveEdit = async () => {
+    const text = newMessage.trim();
+    const messageId = editingMessage?._id || editingMessage?.id;
+    if (!editingMessage || !messageId || text === '') return;
+
+    if (text === editingMessage.text) {
+      cancelEditing();
+      return;
+    }
+
+    try {
+      const edited = await editMessage(messageId, text);
+      updateLocalMessage(messageId, { text: edited.text, edited_at: edited.edited_at });
+      cancelEditing();
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.message || 'Failed to edit message');
+    }
+  };
+
+  const confirmUnsend = (messageId: string) => {
+    Alert.alert('Unsend message', 'It will be removed for everyone in the chat.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unsend',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const deleted = await unsendMessage(messageId);
+            updateLocalMessage(messageId, unsentMessageChanges(deleted.deleted_at!));
+            if ((editingMessage?._id || editingMessage?.id) === messageId) {
+              cancelEditing();
+            }
+          } catch (err: any) {
+            Alert.alert('Error', err.response?.data?.message || 'Failed to unsend message');
+          }
+        },
+      },
+    ]);
+  };
+
+  // Saved messages that have not been unsent can be reacted to
+  const canReactTo = (message: Message) => {
+    const messageId = message._id || message.id;
+    return !!messageId && !messageId.startsWith('opt_') && !message.pending && !message.failed && !message.deleted_at;
+  };
+
+  // Add the user's reaction, or take it back if they already reacted with that emoji
+  const toggleReaction = async (message: Message, emoji: string) => {
+    const messageId = (message._id || message.id)!;
+    const hasReacted = (message.reactions || []).some(reaction =>
+      reaction.emoji === emoji && reaction.user_ids.includes(user?._id || '')
+    );
+
+    setActionMessage(null);
+    try {
+      const reactions = hasReacted
+        ? await removeReaction(messageId, emoji)
+        : await addReaction(messageId, emoji);
+      updateLocalMessage(messageId, { reactions });
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.message || 'Failed to update reaction');
+    }
+  };
+
   // Create a separate component for message items
   const MessageItem = ({
     item,
@@ -973,7 +1415,12 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     navigation,
     senderId,
     user,
-    setLocalMessages
+    setLocalMessages,
+    onLongPress,
+    onToggleReaction,
+    onReply,
+    onQuotePress,
+    isHighlighted
   }: {
     item: Message;
     isCurrentUser: boolean;
@@ -986,6 +1433,11 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     senderId: string | undefined;
     user: User | null;
     setLocalMessages: React.Dispatch<React.SetStateAction<Message[]>>;
+    onLongPress?: () => void;
+    onToggleReaction?: (emoji: string) => void;
+    onReply?: () => void;
+    onQuotePress?: (messageId: string) => void;
+    isHighlighted?: boolean;
   }) => {
     // Get delivery status indicators
     const deliveryStatus = item._delivery_status;
@@ -1027,76 +1479,176 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     }, [senderId, isCurrentUser, user?.token, item._id, item.id, setLocalMessages]);
 
     return (
-      <View style={[
-        styles.messageContainer,
-        isCurrentUser ? styles.currentUserMessage : styles.otherUserMessage
-      ]}>
-        {!isCurrentUser && (
-          <TouchableOpacity
-            onPress={() => navigation.navigate('Profile', { userId: senderId })}
-            style={styles.avatarContainer}
-          >
-            <Image
-              source={{ uri: profilePicture }}
-              style={styles.avatar}
-              onError={(e) => console.log('Image loading error:', e.nativeEvent.error)}
-              resizeMode="cover"
-            />
-          </TouchableOpacity>
-        )}
+      <SwipeToReply onReply={() => onReply?.()} enabled={!!onReply}>
         <View style={[
-          styles.messageBubble,
-          isCurrentUser ? styles.currentUserBubble : styles.otherUserBubble,
-          isPending && styles.pendingBubble,
-          hasFailed && styles.failedBubble
+          styles.messageContainer,
+          isCurrentUser ? styles.currentUserMessage : styles.otherUserMessage
         ]}>
           {!isCurrentUser && (
             <TouchableOpacity
               onPress={() => navigation.navigate('Profile', { userId: senderId })}
-              style={styles.senderNameContainer}
+              style={styles.avatarContainer}
             >
-              <Text style={styles.senderName}>
-                {senderName}
-              </Text>
+              <Image
+                source={{ uri: profilePicture }}
+                style={styles.avatar}
+                onError={(e) => console.log('Image loading error:', e.nativeEvent.error)}
+                resizeMode="cover"
+              />
             </TouchableOpacity>
           )}
-          <Text style={[
-            styles.messageText,
-            isCurrentUser ? styles.currentUserText : styles.otherUserText
-          ]}>
-            {item.text}
-          </Text>
-          <View style={styles.messageFooter}>
-            {isPending && (
-              <Ionicons name="time-outline" size={12} color="#999" style={styles.statusIcon} />
-            )}
-            {hasFailed && (
-              <TouchableOpacity onPress={() => Alert.alert('Error', 'Message failed to send')}>
-                <Ionicons name="alert-circle" size={12} color="#ff6b6b" style={styles.statusIcon} />
-              </TouchableOpacity>
-            )}
-            {!isPending && !hasFailed && isCurrentUser && (
-              <>
-                {deliveryStatus === 'sending' && (
-                  <Ionicons name="ellipsis-horizontal" size={12} color="#999" style={styles.statusIcon} />
+          <View style={[styles.bubbleColumn, isCurrentUser ? styles.bubbleColumnRight : styles.bubbleColumnLeft]}>
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onLongPress={onLongPress}
+              disabled={!onLongPress}
+              style={[
+                styles.messageBubble,
+                isCurrentUser ? styles.currentUserBubble : styles.otherUserBubble,
+                isPending && styles.pendingBubble,
+                hasFailed && styles.failedBubble,
+                isHighlighted && styles.highlightedBubble
+              ]}
+            >
+              {!isCurrentUser && (
+                <TouchableOpacity
+                  onPress={() => navigation.navigate('Profile', { userId: senderId })}
+                  style={styles.senderNameContainer}
+                >
+                  <Text style={styles.senderName}>
+                    {senderName}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {!!item.reply_to && (
+                <TouchableOpacity
+                  style={[styles.quote, isCurrentUser ? styles.currentUserQuote : styles.otherUserQuote]}
+                  onPress={() => onQuotePress?.(item.reply_to!.id)}
+                  disabled={!onQuotePress}
+                >
+                  <Text
+                    style={[styles.quoteAuthor, isCurrentUser && styles.currentUserQuoteText]}
+                    numberOfLines={1}
+                  >
+                    {quoteAuthorName(item.reply_to.sender_id)}
+                  </Text>
+                  <Text
+                    style={[styles.quoteText, isCurrentUser && styles.currentUserQuoteText]}
+                    numberOfLines={2}
+                  >
+                    {quoteText(item.reply_to)}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {!!item.story_id && (
+                <View style={styles.storyReply}>
+                  <Text style={[styles.storyReplyLabel, isCurrentUser && styles.currentUserStoryLabel]}>
+                    {isCurrentUser ? 'You replied to their story' : 'Replied to your story'}
+                  </Text>
+                  {item.story_media_url && item.story_expires_at && new Date(item.story_expires_at) > new Date() ? (
+                    <View>
+                      <Image
+                        source={{ uri: item.story_media_type === 'video'
+                          // Cloudinary serves a still frame of a video as a .jpg
+                          ? item.story_media_url.replace(/\.[^/.]+$/, '.jpg')
+                          : item.story_media_url }}
+                        style={styles.storyThumbnail}
+                        resizeMode="cover"
+                      />
+                      {item.story_media_type === 'video' && (
+                        <Ionicons name="play" size={20} color="#fff" style={styles.storyPlayIcon} />
+                      )}
+                    </View>
+                  ) : (
+                    <View style={[styles.storyThumbnail, styles.storyUnavailable]}>
+                      <Text style={styles.storyUnavailableText}>Story unavailable</Text>
+                    </View>
+                  )}
+                </View>
+              )}
+              {item.deleted_at ? (
+                <Text style={[
+                  styles.messageText,
+                  styles.unsentText,
+                  isCurrentUser ? styles.currentUserText : styles.otherUserText
+                ]}>
+                  {isCurrentUser ? 'You unsent a message' : 'This message was unsent'}
+                </Text>
+              ) : (
+                <>
+                  {!!item.attachment && (
+                    <MessageAttachmentView
+                      attachment={item.attachment}
+                      isCurrentUser={isCurrentUser}
+                      listened={isVoiceNoteListened(item, isCurrentUser)}
+                      onPlay={isCurrentUser ? undefined : () => handleVoiceNotePlayed(item)}
+                    />
+                  )}
+                  {(!!item.text || !item.attachment) && (
+                    <Text style={[
+                      styles.messageText,
+                      isCurrentUser ? styles.currentUserText : styles.otherUserText
+                    ]}>
+                      {item.text}
+                    </Text>
+                  )}
+                </>
+              )}
+              <View style={styles.messageFooter}>
+                {isPending && (
+                  <Ionicons name="time-outline" size={12} color="#999" style={styles.statusIcon} />
                 )}
-                {deliveryStatus === 'sent' && (
-                  <Ionicons name="checkmark" size={12} color="#999" style={styles.statusIcon} />
+                {hasFailed && (
+                  <TouchableOpacity onPress={() => Alert.alert('Error', 'Message failed to send')}>
+                    <Ionicons name="alert-circle" size={12} color="#ff6b6b" style={styles.statusIcon} />
+                  </TouchableOpacity>
                 )}
-                {deliveryStatus === 'delivered' && (
-                  <Ionicons name="checkmark-done" size={12} color="#999" style={styles.statusIcon} />
+                {!isPending && !hasFailed && isCurrentUser && (
+                  <>
+                    {deliveryStatus === 'sending' && (
+                      <Ionicons name="ellipsis-horizontal" size={12} color="#999" style={styles.statusIcon} />
+                    )}
+                    {deliveryStatus === 'sent' && (
+                      <Ionicons name="checkmark" size={12} color="#999" style={styles.statusIcon} />
+                    )}
+                    {deliveryStatus === 'delivered' && (
+                      <Ionicons name="checkmark-done" size={12} color="#999" style={styles.statusIcon} />
+                    )}
+                    {isRead && (
+                      <Ionicons name="checkmark-done" size={12} color="#4B0082" style={styles.statusIcon} />
+                    )}
+                  </>
                 )}
-                {isRead && (
-                  <Ionicons name="checkmark-done" size={12} color="#4B0082" style={styles.statusIcon} />
+                {!!item.edited_at && !item.deleted_at && (
+                  <Text style={[styles.timestamp, styles.editedLabel]}>Edited</Text>
                 )}
-              </>
+                <Text style={styles.timestamp}>
+                  {new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+              </View>
+            </TouchableOpacity>
+            {(item.reactions || []).length > 0 && (
+              <View style={styles.reactionChips}>
+                {(item.reactions as MessageReaction[]).map(reaction => {
+                  const isMine = reaction.user_ids.includes(user?._id || '');
+                  return (
+                    <TouchableOpacity
+                      key={reaction.emoji}
+                      style={[styles.reactionChip, isMine && styles.ownReactionChip]}
+                      onPress={() => onToggleReaction?.(reaction.emoji)}
+                      disabled={!onToggleReaction}
+                    >
+                      <Text style={styles.reactionChipText}>
+                        {reaction.emoji}{reaction.count > 1 ? ` ${reaction.count}` : ''}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
             )}
-            <Text style={styles.timestamp}>
-              {new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-            </Text>
           </View>
         </View>
-      </View>
+      </SwipeToReply>
     );
   };
 
@@ -1114,6 +1666,33 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
   // Combine local and optimistic messages for rendering
   const allMessages = [...localMessages, ...optimisticMessages];
 
+  // Once a quoted message is on screen, scroll to it and highlight it for a moment
+  useEffect(() => {
+    if (!scrollTarget) return;
+
+    const index = allMessages.findIndex(msg => msg._id === scrollTarget || msg.id === scrollTarget);
+    if (index === -1) return; // Still syncing from the chat context
+
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedMessageId(scrollTarget);
+    setScrollTarget(null);
+
+    const timer = setTimeout(() => {
+      setHighlightedMessageId(null);
+      holdScrollRef.current = false;
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [scrollTarget, allMessages]);
+
+  // Opened from a search result: once the latest messages are in, go to the match
+  const routeMessageHandledRef = useRef(false);
+  useEffect(() => {
+    if (!routeMessageId || !messagesLoaded || routeMessageHandledRef.current) return;
+
+    routeMessageHandledRef.current = true;
+    jumpToMessage(routeMessageId);
+  }, [routeMessageId, messagesLoaded]);
+
   // Check if all messages are from the same conversation
   useEffect(() => {
     // Skip if no messages
@@ -1149,7 +1728,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
   useEffect(() => {
     const preloadUserData = async () => {
       // Skip if we already have a name from route params
-      if (name && name !== 'User not loaded' && name !== 'Loading User...') {
+      if (isGroup || (name && name !== 'User not loaded' && name !== 'Loading User...')) {
         // console.log('Using provided name from route params:', name);
         return;
       }
@@ -1176,7 +1755,7 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
     };
 
     preloadUserData();
-  }, [routeUserId, user, name, navigation]);
+  }, [routeUserId, user, name, navigation, isGroup]);
 
   return (
     <KeyboardAvoidingView
@@ -1207,6 +1786,32 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
+      ) : isSearching ? (
+        <View style={styles.searchContainer}>
+          <View style={styles.searchBar}>
+            <Ionicons name="search" size={18} color="#999" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search this conversation"
+              placeholderTextColor="#999"
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoCapitalize="none"
+              autoFocus
+              returnKeyType="search"
+            />
+            <TouchableOpacity onPress={closeSearch}>
+              <Text style={styles.searchCancel}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+          {conversationId && (
+            <MessageSearchResults
+              query={searchQuery}
+              conversationId={conversationId}
+              onSelect={openSearchResult}
+            />
+          )}
+        </View>
       ) : (
         <>
           <FlatList
@@ -1225,6 +1830,12 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
                 senderId={item.sender?._id || item.sender_id}
                 user={user}
                 setLocalMessages={setLocalMessages}
+                onLongPress={canReactTo(item) ? () => setActionMessage(item) : undefined}
+                onToggleReaction={canReactTo(item) ? emoji => toggleReaction(item, emoji) : undefined}
+                onReply={canReactTo(item) ? () => startReply(item) : undefined}
+                onQuotePress={jumpToMessage}
+                isHighlighted={highlightedMessageId !== null &&
+                  (item._id === highlightedMessageId || item.id === highlightedMessageId)}
               />
             )}
             keyExtractor={(item, index) => {
@@ -1236,11 +1847,19 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
             contentContainerStyle={styles.messagesList}
             inverted={true}
             onContentSizeChange={() => {
-              // Only scroll to bottom on content size change if it's not the initial load
-              if (!isInitialLoad) {
+              // Only follow new messages to the bottom, not older history
+              // paged in at the top, and not on the initial load
+              const newest = localMessages[0];
+              const newestKey = `${newest?._id || newest?.id || ''}:${optimisticMessages.length}`;
+              const hasNewMessage = newestKey !== newestMessageKeyRef.current;
+              newestMessageKeyRef.current = newestKey;
+
+              if (!isInitialLoad && hasNewMessage) {
                 scrollToBottom(false);
               }
             }}
+            onEndReached={handleLoadOlder}
+            onEndReachedThreshold={0.3}
             onLayout={() => {
               // Only scroll to bottom on layout if it's not the initial load
               if (!isInitialLoad) {
@@ -1260,39 +1879,166 @@ export default function ChatScreen({ navigation, route }: ChatScreenProps) {
               minIndexForVisible: 0,
               autoscrollToTopThreshold: 10,
             }}
+            onScrollToIndexFailed={info => {
+              // Rows are measured lazily; get close first, then retry
+              flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+              setTimeout(() => {
+                flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+              }, 300);
+            }}
+            ListFooterComponent={isLoadingOlder ? (
+              <ActivityIndicator style={styles.olderLoader} color="#4B0082" />
+            ) : null}
           />
 
           {isTyping && (
             <View style={styles.typingContainer}>
               <Text style={styles.typingText}>
-                {name || 'User'} is typing...
+                {isGroup
+                  ? `${group?.members?.find(member => member._id === typingUserId)?.name || 'Someone'} is typing...`
+                  : `${name || 'User'} is typing...`}
+              </Text>
+            </View>
+          )}
+
+          {replyingTo && (
+            <View style={styles.editingBanner}>
+              <Ionicons name="arrow-undo-outline" size={16} color="#4B0082" />
+              <Text style={styles.editingText} numberOfLines={1}>
+                Replying to {quoteAuthorName((replyingTo.sender_id || replyingTo.sender?._id)!)}: {replyingTo.text || messageMediaLabel(replyingTo.media_type)}
               </Text>
+              <TouchableOpacity onPress={() => setReplyingTo(null)}>
+                <Ionicons name="close" size={18} color="#666" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {editingMessage && (
+            <View style={styles.editingBanner}>
+              <Ionicons name="create-outline" size={16} color="#4B0082" />
+              <Text style={styles.editingText} numberOfLines={1}>
+                Editing: {editingMessage.text}
+              </Text>
+              <TouchableOpacity onPress={cancelEditing}>
+                <Ionicons name="close" size={18} color="#666" />
+              </TouchableOpacity>
             </View>
           )}
 
           <View style={styles.inputContainer}>
-            <TextInput
-              style={styles.input}
-              value={newMessage}
-              onChangeText={setNewMessage}
-              placeholder="Type a message..."
-              placeholderTextColor="#999"
-              multiline
-            />
-            <TouchableOpacity
-              style={styles.sendButton}
-              onPress={handleSendMessage}
-              disabled={newMessage.trim() === ''}
-            >
-              <Ionicons
-                name="send"
-                size={24}
-                color={newMessage.trim() === '' ? '#ccc' : '#4B0082'}
+            {!editingMessage && (
+              <TouchableOpacity
+                style={styles.attachButton}
+                onPress={pickAttachment}
+                disabled={isUploading || recordingSeconds !== null}
+              >
+                {isUploading ? (
+                  <ActivityIndicator size="small" color="#4B0082" />
+                ) : (
+                  <Ionicons name="image-outline" size={24} color="#4B0082" />
+                )}
+              </TouchableOpacity>
+            )}
+            {recordingSeconds !== null ? (
+              <View style={styles.recordingIndicator}>
+                <View style={styles.recordingDot} />
+                <Text style={styles.recordingText}>
+                  {formatDuration(recordingSeconds)}  Release to send
+                </Text>
+              </View>
+            ) : (
+              <TextInput
+                style={styles.input}
+                value={newMessage}
+                onChangeText={setNewMessage}
+                placeholder="Type a message..."
+                placeholderTextColor="#999"
+                multiline
               />
-            </TouchableOpacity>
+            )}
+            {/* With nothing typed, the mic records a voice note while held */}
+            {!editingMessage && newMessage.trim() === '' ? (
+              <VoiceNoteRecorder
+                disabled={isUploading}
+                onRecordingChange={setRecordingSeconds}
+                onRecorded={sendAttachment}
+              />
+            ) : (
+              <TouchableOpacity
+                style={styles.sendButton}
+                onPress={editingMessage ? handleSaveEdit : () => handleSendMessage()}
+                disabled={newMessage.trim() === ''}
+              >
+                <Ionicons
+                  name={editingMessage ? 'checkmark' : 'send'}
+                  size={24}
+                  color={newMessage.trim() === '' ? '#ccc' : '#4B0082'}
+                />
+              </TouchableOpacity>
+            )}
           </View>
         </>
       )}
+
+      <Modal
+        visible={!!actionMessage}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setActionMessage(null)}
+      >
+        <TouchableOpacity style={styles.actionBackdrop} activeOpacity={1} onPress={() => setActionMessage(null)}>
+          {actionMessage && (
+            <View style={styles.actionSheet}>
+              <View style={styles.reactionPicker}>
+                {REACTION_EMOJIS.map(emoji => (
+                  <TouchableOpacity key={emoji} onPress={() => toggleReaction(actionMessage, emoji)}>
+                    <Text style={styles.reactionPickerEmoji}>{emoji}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {canChangeMessage(actionMessage) && (
+                <>
+                  {!!actionMessage.text && (
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => {
+                        startEditing(actionMessage);
+                        setActionMessage(null);
+                      }}
+                    >
+                      <Ionicons name="create-outline" size={20} color="#333" />
+                      <Text style={styles.actionButtonText}>Edit</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => {
+                      confirmUnsend((actionMessage._id || actionMessage.id)!);
+                      setActionMessage(null);
+                    }}
+                  >
+                    <Ionicons name="trash-outline" size={20} color="#ff3b30" />
+                    <Text style={[styles.actionButtonText, styles.destructiveText]}>Unsend</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          )}
+        </TouchableOpacity>
+      </Modal>
+
+      {isGroup && conversationId && (
+        <GroupInfoModal
+          visible={groupInfoVisible}
+          groupId={conversationId}
+          onClose={() => setGroupInfoVisible(false)}
+          onGroupChange={handleGroupChange}
+          onLeave={() => {
+            setGroupInfoVisible(false);
+            navigation.goBack();
+          }}
+        />
+      )}
     </KeyboardAvoidingView>
   );
 }
@@ -1405,6 +2151,38 @@ const styles = StyleSheet.create({
     fontSize: 16,
     flexShrink: 1,
   },
+  storyReply: {
+    marginBottom: 6,
+  },
+  storyReplyLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 4,
+  },
+  currentUserStoryLabel: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  storyThumbnail: {
+    width: 90,
+    height: 160,
+    borderRadius: 10,
+    backgroundColor: '#ddd',
+  },
+  storyPlayIcon: {
+    position: 'absolute',
+    top: 70,
+    left: 35,
+  },
+  storyUnavailable: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 6,
+  },
+  storyUnavailableText: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+  },
   currentUserText: {
     color: '#fff',
   },
@@ -1420,6 +2198,152 @@ const styles = StyleSheet.create({
   statusIcon: {
     marginRight: 4,
   },
+  bubbleColumn: {
+    flexShrink: 1,
+  },
+  bubbleColumnRight: {
+    alignItems: 'flex-end',
+  },
+  bubbleColumnLeft: {
+    alignItems: 'flex-start',
+  },
+  reactionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  reactionChip: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#eee',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginBottom: 2,
+  },
+  ownReactionChip: {
+    borderColor: '#4B0082',
+    backgroundColor: '#f1e8fb',
+  },
+  reactionChipText: {
+    fontSize: 13,
+  },
+  actionBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionSheet: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingVertical: 8,
+    minWidth: 260,
+  },
+  reactionPicker: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  reactionPickerEmoji: {
+    fontSize: 28,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  actionButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+  destructiveText: {
+    color: '#ff3b30',
+  },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: '#FFC107',
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+  },
+  currentUserQuote: {
+    borderLeftColor: '#fff',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  otherUserQuote: {
+    borderLeftColor: '#4B0082',
+    backgroundColor: '#f1f1f1',
+  },
+  quoteAuthor: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#4B0082',
+  },
+  quoteText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  currentUserQuoteText: {
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  searchContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 12,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  searchInput: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 15,
+  },
+  searchCancel: {
+    color: '#4B0082',
+    fontSize: 15,
+  },
+  olderLoader: {
+    marginVertical: 10,
+  },
+  unsentText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  editedLabel: {
+    marginRight: 4,
+  },
+  editingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 6,
+    backgroundColor: '#f0f0f0',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  editingText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    marginHorizontal: 8,
+  },
   timestamp: {
     fontSize: 10,
     color: '#aaa',
@@ -1452,6 +2376,33 @@ const styles = StyleSheet.create({
     maxHeight: 100,
     fontSize: 16,
   },
+  recordingIndicator: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f1f1',
+    borderRadius: 20,
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#ff3b30',
+    marginRight: 8,
+  },
+  recordingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  attachButton: {
+    marginRight: 6,
+    width: 36,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   sendButton: {
     marginLeft: 10,
     width: 40,
@@ -21,7 +21,8 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons, MaterialIcons, FontAwesome, MaterialCommunityIcons } from '@expo/vector-icons';
 import { UserContext } from '../context/UserContext';
 import * as ImagePicker from 'expo-image-picker';
-import { createPost } from '../api/posts';
+import { createPost, saveDraft, publishDraft, PostVisibility, PollInput, PostDraft } from '../api/posts';
+import DraftsModal from '../components/DraftsModal';
 import { checkAuthentication, testImageUpload } from '../api/testUpload';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -40,6 +41,16 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
   const [postText, setPostText] = useState('');
   const [selectedImages, setSelectedImages] = useState<string[]>([]);
   const [mood, setMood] = useState<string | null>(null);
+  const [visibility, setVisibility] = useState<PostVisibility>('public');
+  // null while the post has no poll
+  const [pollOptions, setPollOptions] = useState<string[] | null>(null);
+  const [pollDuration, setPollDuration] = useState<number | null>(24);
+  // Draft being edited, and the image URLs it already has on the server
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftImages, setDraftImages] = useState<string[]>([]);
+  const [publishAt, setPublishAt] = useState<Date | null>(null);
+  const [scheduleLabel, setScheduleLabel] = useState('Now');
+  const [showDrafts, setShowDrafts] = useState(false);
   const [image, setImage] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [authStatus, setAuthStatus] = useState({ checked: false, authenticated: false });
@@ -135,12 +146,148 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
     { emoji: '😠', label: 'Angry' },
   ];
 
+  const audiences: { value: PostVisibility; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+    { value: 'public', label: 'Public', icon: 'earth' },
+    { value: 'followers', label: 'Followers', icon: 'people' },
+    { value: 'closeFriends', label: 'Close friends', icon: 'star' },
+  ];
+
+  // Poll lengths in hours; null leaves the poll open indefinitely
+  const pollDurations: { hours: number | null; label: string }[] = [
+    { hours: 24, label: '1 day' },
+    { hours: 72, label: '3 days' },
+    { hours: 168, label: '7 days' },
+    { hours: null, label: 'No end' },
+  ];
+
+  const togglePoll = () => {
+    setPollOptions(pollOptions ? null : ['', '']);
+    setPollDuration(24);
+  };
+
+  const updatePollOption = (index: number, text: string) => {
+    setPollOptions(prev => prev && prev.map((option, i) => (i === index ? text : option)));
+  };
+
+  const buildPoll = (): PollInput | undefined => {
+    if (!pollOptions) return undefined;
+    return {
+      options: pollOptions.map(option => option.trim()),
+      durationHours: pollDuration,
+    };
+  };
+
+  // Publish times offered in the composer, computed when picked
+  const scheduleOptions: { label: string; getDate: () => Date | null }[] = [
+    { label: 'Now', getDate: () => null },
+    { label: 'In 1 hour', getDate: () => new Date(Date.now() + 3600000) },
+    {
+      label: 'Tonight 8 PM',
+      getDate: () => {
+        const date = new Date();
+        date.setHours(20, 0, 0, 0);
+        // Past 8 PM already, so it means tomorrow night
+        if (date.getTime() <= Date.now()) date.setDate(date.getDate() + 1);
+        return date;
+      },
+    },
+    {
+      label: 'Tomorrow 9 AM',
+      getDate: () => {
+        const date = new Date();
+        date.setDate(date.getDate() + 1);
+        date.setHours(9, 0, 0, 0);
+        return date;
+      },
+    },
+  ];
+
+  const hasContent = !!postText.trim() || !!image || !!pollOptions;
+
+  const resetComposer = () => {
+    setPostText('');
+    setImage(null);
+    setMood(null);
+    setVisibility('public');
+    setPollOptions(null);
+    setDraftId(null);
+    setDraftImages([]);
+    setPublishAt(null);
+    setScheduleLabel('Now');
+  };
+
+  const handleOpenDraft = (draft: PostDraft) => {
+    setShowDrafts(false);
+    setDraftId(draft._id);
+    setDraftImages(draft.images);
+    setPostText(draft.description);
+    setImage(draft.images[0] || null);
+    setMood(draft.mood || null);
+    setVisibility(draft.visibility);
+    setPollOptions(draft.poll ? draft.poll.options : null);
+    setPollDuration(draft.poll ? draft.poll.durationHours ?? null : 24);
+    setPublishAt(draft.publishAt ? new Date(draft.publishAt) : null);
+    setScheduleLabel(draft.publishAt ? new Date(draft.publishAt).toLocaleString() : 'Now');
+  };
+
+  // Save the composer to the server; images already on the draft are not uploaded again
+  const saveCurrentDraft = async (schedule: Date | null) => {
+    const response = await saveDraft({
+      description: postText,
+      mood: mood || '',
+      visibility,
+      poll: pollOptions ? buildPoll() : null,
+      publishAt: schedule ? schedule.toISOString() : null,
+      images: image && !draftImages.includes(image) ? [image] : [],
+      removeImages: draftImages.filter(url => url !== image),
+    }, draftId || undefined);
+
+    setDraftId(response.data._id);
+    setDraftImages(response.data.images);
+    return response.data as PostDraft;
+  };
+
+  // Offer to keep unsaved work when leaving the screen
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('beforeRemove', (e) => {
+      if (!hasContent || isUploading) return;
+
+      e.preventDefault();
+      Alert.alert('Save draft?', 'You can finish this post later from your drafts.', [
+        { text: 'Keep editing', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => navigation.dispatch(e.data.action),
+        },
+        {
+          text: 'Save draft',
+          onPress: async () => {
+            try {
+              await saveCurrentDraft(publishAt);
+              navigation.dispatch(e.data.action);
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.message || 'Failed to save draft');
+            }
+          },
+        },
+      ]);
+    });
+
+    return unsubscribe;
+  }, [navigation, hasContent, isUploading, postText, image, mood, visibility, pollOptions, pollDuration, publishAt, draftId, draftImages]);
+
   const handlePost = async () => {
     if (!postText.trim()) {
       Alert.alert('Error', 'Please enter some text for your post');
       return;
     }
 
+    if (pollOptions && pollOptions.some(option => !option.trim())) {
+      Alert.alert('Error', 'Please fill in every poll option or remove the empty ones');
+      return;
+    }
+
     try {
       setIsUploading(true);
 
@@ -158,7 +305,7 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
         return;
       }
 
-      if (!image) {
+      if (!image && !publishAt && !draftId) {
         Alert.alert('No Image', 'Would you like to post without an image?', [
           {
             text: 'Cancel',
@@ -190,10 +337,33 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
 
   const submitPost = async () => {
     try {
+      // Scheduled posts are stored as drafts until the server publishes them
+      if (publishAt) {
+        const draft = await saveCurrentDraft(publishAt);
+        resetComposer();
+        Alert.alert('Scheduled', `Your post will be shared on ${new Date(draft.publishAt!).toLocaleString()}.`, [
+          { text: 'OK', onPress: () => navigation.goBack() }
+        ]);
+        return;
+      }
+
+      // A draft is saved with the latest edits, then published from the server
+      if (draftId) {
+        const draft = await saveCurrentDraft(null);
+        await publishDraft(draft._id);
+        resetComposer();
+        Alert.alert('Success', 'Your post has been shared!', [
+          { text: 'OK', onPress: () => navigation.goBack() }
+        ]);
+        return;
+      }
+
       // Prepare the data for upload
       const postData = {
         description: postText,
         mood: mood || undefined,
+        visibility,
+        poll: buildPoll(),
         images: image ? [image] : []
       };
 
@@ -205,7 +375,12 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
       if (image) {
         console.log('Using test upload function with image');
         try {
-          response = await testImageUpload(image, postText);
+          const poll = buildPoll();
+          response = await testImageUpload(image, postText, {
+            mood: mood || undefined,
+            visibility,
+            poll: poll ? JSON.stringify(poll) : undefined,
+          });
 
           // Check if the response indicates success
           if (!response.success) {
@@ -229,6 +404,8 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
                   response = await createPost({
                     description: postText,
                     mood: mood || undefined,
+                    visibility,
+                    poll: buildPoll(),
                     images: []
                   });
                 }
@@ -245,9 +422,7 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
       console.log('Post created successfully:', response);
 
       // Clear state and go back
-      setPostText('');
-      setImage(null);
-      setMood(null);
+      resetComposer();
 
       Alert.alert('Success', 'Your post has been shared!', [
         { text: 'OK', onPress: () => navigation.goBack() }
@@ -291,6 +466,13 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
           >
             <Ionicons name="arrow-back" size={24} color="#333" />
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setShowDrafts(true)}
+            style={styles.draftsButton}
+            disabled={isUploading}
+          >
+            <Text style={styles.draftsButtonText}>Drafts</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.headerCenter}>
@@ -310,7 +492,7 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
             {isUploading ? (
               <ActivityIndicator size="small" color="#fff" />
             ) : (
-              <Text style={styles.shareButtonText}>Share</Text>
+              <Text style={styles.shareButtonText}>{publishAt ? 'Schedule' : 'Share'}</Text>
             )}
           </TouchableOpacity>
         </View>
@@ -348,6 +530,134 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
             />
           </View>
 
+          {/* Poll Composer Section */}
+          {pollOptions && (
+            <View style={styles.pollComposer}>
+              <Text style={styles.moodTitle}>Poll</Text>
+              {pollOptions.map((option, index) => (
+                <View key={index} style={styles.pollOptionRow}>
+                  <TextInput
+                    style={styles.pollOptionInput}
+                    placeholder={`Option ${index + 1}`}
+                    placeholderTextColor="#999"
+                    value={option}
+                    onChangeText={text => updatePollOption(index, text)}
+                    maxLength={80}
+                    editable={!isUploading}
+                  />
+                  {pollOptions.length > 2 && (
+                    <TouchableOpacity
+                      onPress={() => setPollOptions(pollOptions.filter((_, i) => i !== index))}
+                      disabled={isUploading}
+                    >
+                      <Ionicons name="close-circle" size={22} color="#999" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+              {pollOptions.length < 4 && (
+                <TouchableOpacity
+                  style={styles.addPollOption}
+                  onPress={() => setPollOptions([...pollOptions, ''])}
+                  disabled={isUploading}
+                >
+                  <Ionicons name="add" size={18} color="#4A90E2" />
+                  <Text style={styles.addPollOptionText}>Add option</Text>
+                </TouchableOpacity>
+              )}
+              <View style={styles.audienceList}>
+                {pollDurations.map(item => (
+                  <TouchableOpacity
+                    key={item.label}
+                    style={[
+                      styles.audienceItem,
+                      pollDuration === item.hours ? styles.selectedAudience : null
+                    ]}
+                    onPress={() => setPollDuration(item.hours)}
+                    disabled={isUploading}
+                  >
+                    <Text
+                      style={[
+                        styles.audienceLabel,
+                        pollDuration === item.hours ? styles.selectedAudienceLabel : null
+                      ]}
+                    >
+                      {item.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Schedule Picker Section */}
+          <View style={styles.audienceSelector}>
+            <Text style={styles.moodTitle}>When to post</Text>
+            <View style={styles.audienceList}>
+              {scheduleOptions.map(item => (
+                <TouchableOpacity
+                  key={item.label}
+                  style={[
+                    styles.audienceItem,
+                    scheduleLabel === item.label ? styles.selectedAudience : null
+                  ]}
+                  onPress={() => {
+                    setPublishAt(item.getDate());
+                    setScheduleLabel(item.label);
+                  }}
+                  disabled={isUploading}
+                >
+                  <Text
+                    style={[
+                      styles.audienceLabel,
+                      scheduleLabel === item.label ? styles.selectedAudienceLabel : null
+                    ]}
+                  >
+                    {item.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              {/* Time loaded from a scheduled draft */}
+              {!scheduleOptions.some(item => item.label === scheduleLabel) && (
+                <View style={[styles.audienceItem, styles.selectedAudience]}>
+                  <Text style={[styles.audienceLabel, styles.selectedAudienceLabel]}>{scheduleLabel}</Text>
+                </View>
+              )}
+            </View>
+          </View>
+
+          {/* Audience Picker Section */}
+          <View style={styles.audienceSelector}>
+            <Text style={styles.moodTitle}>Who can see this?</Text>
+            <View style={styles.audienceList}>
+              {audiences.map(item => (
+                <TouchableOpacity
+                  key={item.value}
+                  style={[
+                    styles.audienceItem,
+                    visibility === item.value ? styles.selectedAudience : null
+                  ]}
+                  onPress={() => setVisibility(item.value)}
+                  disabled={isUploading}
+                >
+                  <Ionicons
+                    name={item.icon}
+                    size={16}
+                    color={visibility === item.value ? '#fff' : '#555'}
+                  />
+                  <Text
+                    style={[
+                      styles.audienceLabel,
+                      visibility === item.value ? styles.selectedAudienceLabel : null
+                    ]}
+                  >
+                    {item.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           {/* Mood Selector Section */}
           <View style={styles.moodSelector}>
             <Text style={styles.moodTitle}>How are you feeling?</Text>
@@ -409,6 +719,13 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
             <Text style={styles.mediaButtonText}>Camera</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.mediaButton} onPress={togglePoll} disabled={isUploading}>
+            <View style={[styles.iconCircle, { backgroundColor: '#9C27B0' }]}>
+              <Ionicons name="stats-chart" size={22} color="#fff" />
+            </View>
+            <Text style={styles.mediaButtonText}>{pollOptions ? 'Remove poll' : 'Poll'}</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.mediaButton} disabled={isUploading}>
             <View style={[styles.iconCircle, { backgroundColor: '#FF9800' }]}>
               <Ionicons name="location" size={22} color="#fff" />
@@ -428,6 +745,11 @@ const CreatePostScreen: React.FC<Props> = ({ route, navigation }) => {
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+      <DraftsModal
+        visible={showDrafts}
+        onClose={() => setShowDrafts(false)}
+        onOpen={handleOpenDraft}
+      />
     </SafeAreaView>
   );
 };
@@ -457,7 +779,16 @@ const styles = StyleSheet.create({
   },
   headerLeft: {
     flex: 1,
-    alignItems: 'flex-start',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  draftsButton: {
+    marginLeft: 8,
+  },
+  draftsButtonText: {
+    color: '#4A90E2',
+    fontSize: 15,
+    fontWeight: '500',
   },
   headerCenter: {
     flex: 2,
@@ -531,6 +862,73 @@ const styles = StyleSheet.create({
     textAlignVertical: 'top',
     padding: 0,
   },
+  pollComposer: {
+    backgroundColor: '#fff',
+    padding: 16,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#eee',
+  },
+  pollOptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  pollOptionInput: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  addPollOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  addPollOptionText: {
+    marginLeft: 4,
+    color: '#4A90E2',
+    fontSize: 14,
+  },
+  audienceSelector: {
+    backgroundColor: '#fff',
+    padding: 16,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#eee',
+  },
+  audienceList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  audienceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f0f2f5',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedAudience: {
+    backgroundColor: '#4A90E2',
+  },
+  audienceLabel: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#555',
+  },
+  selectedAudienceLabel: {
+    color: '#fff',
+  },
   moodSelector: {
     backgroundColor: '#fff',
     padding: 16,
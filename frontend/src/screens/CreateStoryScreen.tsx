@@ -1,6 +1,20 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { Video, ResizeMode } from 'expo-av';
+import SafeAreaLayout from '../components/SafeAreaLayout';
+import { createStory, StoryAudience, StoryMedia } from '../api/stories';
+import { CLOSE_FRIENDS_COLOR } from '../utils/config';
 
 type RootStackParamList = {
   CreateStory: undefined;
@@ -9,20 +23,246 @@ type RootStackParamList = {
 
 type Props = NativeStackScreenProps<RootStackParamList, 'CreateStory'>;
 
-const CreateStoryScreen: React.FC<Props> = ({ route, navigation }) => {
+// Stories are full screen, so videos are kept short
+const MAX_VIDEO_SECONDS = 30;
+
+const toStoryMedia = (asset: ImagePicker.ImagePickerAsset): StoryMedia => ({
+  uri: asset.uri,
+  mediaType: asset.type === 'video' ? 'video' : 'image',
+  mimeType: asset.mimeType,
+  fileName: asset.fileName,
+});
+
+const CreateStoryScreen: React.FC<Props> = ({ navigation }) => {
+  const [media, setMedia] = useState<StoryMedia | null>(null);
+  // The audience currently being shared to, while the upload runs
+  const [uploading, setUploading] = useState<StoryAudience | null>(null);
+
+  const pickerOptions: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ['images', 'videos'],
+    allowsEditing: true,
+    aspect: [9, 16],
+    quality: 0.8,
+    videoMaxDuration: MAX_VIDEO_SECONDS,
+  };
+
+  const handlePickFromLibrary = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync(pickerOptions);
+    if (!result.canceled) {
+      setMedia(toStoryMedia(result.assets[0]));
+    }
+  };
+
+  const handleOpenCamera = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Camera access needed', 'Allow camera access to take a photo or video for your story.');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync(pickerOptions);
+    if (!result.canceled) {
+      setMedia(toStoryMedia(result.assets[0]));
+    }
+  };
+
+  const handleShare = async (audience: StoryAudience) => {
+    if (!media || uploading) return;
+
+    try {
+      setUploading(audience);
+      await createStory(media, audience);
+      setMedia(null);
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.response?.data?.message || error.response?.data?.error || 'Failed to share your story'
+      );
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  if (!media) {
+    return (
+      <SafeAreaLayout>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <Ionicons name="close" size={28} color="#000" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>New story</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.pickerContainer}>
+          <TouchableOpacity style={styles.pickerButton} onPress={handleOpenCamera}>
+            <Ionicons name="camera-outline" size={36} color="#405DE6" />
+            <Text style={styles.pickerText}>Camera</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.pickerButton} onPress={handlePickFromLibrary}>
+            <Ionicons name="images-outline" size={36} color="#405DE6" />
+            <Text style={styles.pickerText}>Gallery</Text>
+          </TouchableOpacity>
+          <Text style={styles.hint}>
+            Photos or videos up to {MAX_VIDEO_SECONDS} seconds. Stories disappear after 24 hours.
+          </Text>
+        </View>
+      </SafeAreaLayout>
+    );
+  }
+
   return (
-    <View style={styles.container}>
-      <Text>Create Story Screen</Text>
+    <View style={styles.previewContainer}>
+      {media.mediaType === 'video' ? (
+        <Video
+          source={{ uri: media.uri }}
+          style={styles.previewMedia}
+          resizeMode={ResizeMode.COVER}
+          shouldPlay
+          isLooping
+        />
+      ) : (
+        <Image source={{ uri: media.uri }} style={styles.previewMedia} />
+      )}
+
+      <TouchableOpacity
+        style={styles.discardButton}
+        onPress={() => setMedia(null)}
+        disabled={!!uploading}
+      >
+        <Ionicons name="close" size={28} color="#fff" />
+      </TouchableOpacity>
+
+      <View style={styles.shareBar}>
+        <TouchableOpacity
+          style={[styles.shareButton, !!uploading && styles.shareButtonDisabled]}
+          onPress={() => handleShare('followers')}
+          disabled={!!uploading}
+        >
+          {uploading === 'followers' ? (
+            <ActivityIndicator size="small" color="#000" />
+          ) : (
+            <>
+              <Text style={styles.shareText}>Your story</Text>
+              <Ionicons name="chevron-forward" size={18} color="#000" />
+            </>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.shareButton, styles.closeFriendsButton, !!uploading && styles.shareButtonDisabled]}
+          onPress={() => handleShare('closeFriends')}
+          disabled={!!uploading}
+        >
+          {uploading === 'closeFriends' ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="star" size={14} color="#fff" style={styles.closeFriendsIcon} />
+              <Text style={[styles.shareText, styles.closeFriendsText]}>Close friends</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
 
 const styles = StyleSheet.create({
-  container: {
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#DBDBDB',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 28,
+  },
+  pickerContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
+    padding: 20,
+  },
+  pickerButton: {
+    width: 200,
+    paddingVertical: 20,
+    marginBottom: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#DBDBDB',
+    alignItems: 'center',
+  },
+  pickerText: {
+    marginTop: 8,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#262626',
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#8E8E8E',
+    textAlign: 'center',
+  },
+  previewContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  previewMedia: {
+    flex: 1,
+    width: '100%',
+  },
+  discardButton: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    padding: 4,
+  },
+  shareBar: {
+    position: 'absolute',
+    bottom: 40,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  shareButton: {
+    marginLeft: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 22,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    minWidth: 120,
+    justifyContent: 'center',
+  },
+  shareButtonDisabled: {
+    opacity: 0.7,
+  },
+  shareText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginRight: 4,
+  },
+  closeFriendsButton: {
+    backgroundColor: CLOSE_FRIENDS_COLOR,
+  },
+  closeFriendsIcon: {
+    marginRight: 6,
+  },
+  closeFriendsText: {
+    color: '#fff',
   },
 });
 
-export default CreateStoryScreen; 
\ No newline at end of file
+export default CreateStoryScreen;
@@ -15,13 +15,21 @@ import {
 import { Ionicons, FontAwesome5 } from '@expo/vector-icons';
 import { useAuthContext } from '../context/AuthContext';
 import axios from 'axios';
-import { API_URL, DEFAULT_AVATAR } from '../utils/config';
+import { API_URL, DEFAULT_AVATAR, CLOSE_FRIENDS_COLOR } from '../utils/config';
 import SafeAreaLayout from '../components/SafeAreaLayout';
+import RichText from '../components/RichText';
+import RepostedPost from '../components/RepostedPost';
+import QuotePostModal from '../components/QuotePostModal';
+import PollCard, { PollResults } from '../components/PollCard';
+import StoryViewer from '../components/StoryViewer';
+import { repostPost } from '../api/posts';
+import { getStories, StoryGroup } from '../api/stories';
 
 interface Post {
   _id: string;
-  text: string;
-  image?: string;
+  description: string;
+  images: string[];
+  mentions?: { _id: string; username: string }[];
   user: {
     _id: string;
     username: string;
@@ -31,6 +39,11 @@ interface Post {
   likes: string[];
   comments: string[];
   createdAt: string;
+  editedAt?: string;
+  saved?: boolean;
+  repostOf?: Post | null;
+  repostUnavailable?: boolean;
+  poll?: PollResults;
 }
 
 interface HomeScreenProps {
@@ -42,111 +55,68 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [quotingPost, setQuotingPost] = useState<Post | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [storyGroups, setStoryGroups] = useState<StoryGroup[]>([]);
+  const [openStoryGroup, setOpenStoryGroup] = useState<number | null>(null);
 
   useEffect(() => {
     fetchPosts();
   }, []);
 
-  // Generate mock posts for testing
-  const getMockPosts = (): Post[] => {
-    return [
-      {
-        _id: '1',
-        text: 'Just launched the new social messaging app! 🚀 What do you think?',
-        image: 'https://picsum.photos/id/1/500/300',
-        user: {
-          _id: '101',
-          username: 'sarah_dev',
-          name: 'Sarah Johnson',
-          profilePicture: 'https://randomuser.me/api/portraits/women/22.jpg'
-        },
-        likes: ['102', '103'],
-        comments: ['comment1', 'comment2', 'comment3'],
-        createdAt: new Date(Date.now() - 3600000).toISOString() // 1 hour ago
-      },
-      {
-        _id: '2',
-        text: 'Working on some new design concepts for our mobile app. Feedback welcome!',
-        image: 'https://picsum.photos/id/26/500/300',
-        user: {
-          _id: '102',
-          username: 'mike_design',
-          name: 'Mike Wilson',
-          profilePicture: 'https://randomuser.me/api/portraits/men/32.jpg'
-        },
-        likes: ['101', '103'],
-        comments: ['comment4', 'comment5'],
-        createdAt: new Date(Date.now() - 7200000).toISOString() // 2 hours ago
-      },
-      {
-        _id: '3',
-        text: 'Beautiful day for hiking! 🏞️ #nature #outdoors',
-        image: 'https://picsum.photos/id/15/500/300',
-        user: {
-          _id: '103',
-          username: 'alex_nature',
-          name: 'Alex Green',
-          profilePicture: 'https://randomuser.me/api/portraits/women/44.jpg'
-        },
-        likes: [],
-        comments: [],
-        createdAt: new Date(Date.now() - 10800000).toISOString() // 3 hours ago
-      },
-      {
-        _id: '4',
-        text: 'Just finished reading an amazing book on AI and the future of technology. Highly recommend!',
-        user: {
-          _id: '104',
-          username: 'bookworm',
-          name: 'Jamie Reed',
-          profilePicture: 'https://randomuser.me/api/portraits/men/67.jpg'
-        },
-        likes: ['101'],
-        comments: ['comment6'],
-        createdAt: new Date(Date.now() - 14400000).toISOString() // 4 hours ago
-      },
-      {
-        _id: '5',
-        text: 'New coffee shop downtown is amazing! ☕',
-        image: 'https://picsum.photos/id/42/500/300',
-        user: {
-          _id: '105',
-          username: 'coffee_lover',
-          name: 'Taylor Swift',
-          profilePicture: 'https://randomuser.me/api/portraits/women/73.jpg'
-        },
-        likes: ['102', '103', '104'],
-        comments: ['comment7', 'comment8'],
-        createdAt: new Date(Date.now() - 18000000).toISOString() // 5 hours ago
-      }
-    ];
+  // Reload the story tray whenever the feed comes back into view, e.g. after posting a story
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', fetchStories);
+    return unsubscribe;
+  }, [navigation]);
+
+  const fetchStories = async () => {
+    try {
+      setStoryGroups(await getStories());
+    } catch (error) {
+      // The feed is still usable without the story tray
+      console.error('Error fetching stories:', error);
+    }
   };
 
-  const fetchPosts = async () => {
+  // Load the first page of the feed, or the page after `cursor`
+  const fetchPosts = async (cursor?: string | null) => {
     try {
-      setLoading(true);
-
-      // In a real app, we would use the API
-      // const response = await axios.get(`${API_URL}/api/posts`);
-      // setPosts(response.data);
-
-      // For testing, use mock data with a simulated delay
-      setTimeout(() => {
-        setPosts(getMockPosts());
-        setLoading(false);
-        setRefreshing(false);
-      }, 1000);
+      const response = await axios.get(`${API_URL}/api/posts/feed`, {
+        params: cursor ? { cursor } : {},
+      });
+      const { data, nextCursor: newCursor, hasMore: more } = response.data;
+
+      setPosts(prevPosts => {
+        if (!cursor) return data;
+        // Skip anything already on screen in case the feed shifted between pages
+        const seen = new Set(prevPosts.map(post => post._id));
+        return [...prevPosts, ...data.filter((post: Post) => !seen.has(post._id))];
+      });
+      setNextCursor(newCursor);
+      setHasMore(more);
     } catch (error) {
       console.error('Error fetching posts:', error);
       Alert.alert('Error', 'Failed to load posts. Please try again later.');
+    } finally {
       setLoading(false);
       setRefreshing(false);
+      setLoadingMore(false);
     }
   };
 
   const handleRefresh = () => {
     setRefreshing(true);
     fetchPosts();
+    fetchStories();
+  };
+
+  const handleLoadMore = () => {
+    if (!hasMore || loadingMore || loading || refreshing) return;
+    setLoadingMore(true);
+    fetchPosts(nextCursor);
   };
 
   const handleCreatePost = () => {
@@ -154,6 +124,8 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   };
 
   const handleLike = async (postId: string) => {
+    const wasLiked = posts.find(post => post._id === postId)?.likes.includes(user?._id || '');
+
     try {
       // Optimistic update
       setPosts(prevPosts =>
@@ -171,14 +143,76 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         })
       );
 
-      await axios.post(`${API_URL}/api/posts/${postId}/like`);
+      if (wasLiked) {
+        await axios.delete(`${API_URL}/api/posts/${postId}/like`);
+      } else {
+        await axios.post(`${API_URL}/api/posts/${postId}/like`);
+      }
     } catch (error) {
       console.error('Error liking post:', error);
       // Revert optimistic update
-      fetchPosts();
+      setPosts(prevPosts =>
+        prevPosts.map(post => {
+          if (post._id === postId) {
+            const otherLikes = post.likes.filter(id => id !== user?._id);
+            return { ...post, likes: wasLiked ? [...otherLikes, user?._id || ''] : otherLikes };
+          }
+          return post;
+        })
+      );
     }
   };
 
+  const handleSave = async (postId: string) => {
+    const wasSaved = !!posts.find(post => post._id === postId)?.saved;
+
+    const setSaved = (saved: boolean) =>
+      setPosts(prevPosts =>
+        prevPosts.map(post => (post._id === postId ? { ...post, saved } : post))
+      );
+
+    try {
+      // Optimistic update
+      setSaved(!wasSaved);
+
+      if (wasSaved) {
+        await axios.delete(`${API_URL}/api/users/me/saved/${postId}`);
+      } else {
+        await axios.post(`${API_URL}/api/users/me/saved`, { postId });
+      }
+    } catch (error) {
+      console.error('Error saving post:', error);
+      setSaved(wasSaved);
+    }
+  };
+
+  const submitRepost = async (postId: string) => {
+    try {
+      const response = await repostPost(postId);
+      setPosts(prevPosts => [response.data, ...prevPosts]);
+    } catch (error: any) {
+      console.error('Error reposting:', error);
+      Alert.alert('Error', error.response?.data?.message || 'Failed to repost');
+    }
+  };
+
+  const handleRepost = (item: Post) => {
+    // A plain repost shares the post it points to, not itself
+    const target = item.repostOf && !item.description ? item.repostOf : item;
+    if (item.repostUnavailable && !item.description) return;
+
+    Alert.alert('Repost', undefined, [
+      { text: 'Repost', onPress: () => submitRepost(target._id) },
+      { text: 'Quote', onPress: () => setQuotingPost(target) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleQuotePosted = (post: Post) => {
+    setQuotingPost(null);
+    setPosts(prevPosts => [post, ...prevPosts]);
+  };
+
   const handlePostPress = (postId: string) => {
     navigation.navigate('PostDetails', { postId });
   };
@@ -191,25 +225,79 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     }
   };
 
-  const renderStoryItem = ({ item }: { item: any }) => (
-    <TouchableOpacity style={styles.storyContainer}>
-      <View style={styles.storyRing}>
+  const handleStoryViewed = (storyId: string) => {
+    setStoryGroups(prevGroups =>
+      prevGroups.map(group => {
+        if (!group.stories.some(story => story._id === storyId)) return group;
+        const stories = group.stories.map(story =>
+          story._id === storyId ? { ...story, viewed: true } : story
+        );
+        return { ...group, stories, allViewed: group.isOwn || stories.every(story => story.viewed) };
+      })
+    );
+  };
+
+  const handleStoryDeleted = (storyId: string) => {
+    setStoryGroups(prevGroups =>
+      prevGroups
+        .map(group => ({ ...group, stories: group.stories.filter(story => story._id !== storyId) }))
+        .filter(group => group.stories.length > 0)
+    );
+  };
+
+  const ownStoryGroup = storyGroups.find(group => group.isOwn);
+
+  const renderStoryItem = ({ item, index }: { item: StoryGroup; index: number }) => (
+    <TouchableOpacity style={styles.storyContainer} onPress={() => setOpenStoryGroup(index)}>
+      <View
+        style={[
+          styles.storyRing,
+          item.closeFriends && styles.storyRingCloseFriends,
+          item.allViewed && styles.storyRingViewed,
+        ]}
+      >
         <Image
-          source={{ uri: item.profilePicture }}
+          source={{ uri: item.user.profilePicture || DEFAULT_AVATAR }}
           style={styles.storyAvatar}
         />
       </View>
       <Text style={styles.storyUsername} numberOfLines={1}>
-        {item.username.length > 9 ? item.username.substring(0, 9) + '...' : item.username}
+        {item.isOwn
+          ? 'Your Story'
+          : item.user.username.length > 9 ? item.user.username.substring(0, 9) + '...' : item.user.username}
       </Text>
     </TouchableOpacity>
   );
 
+  // Shown in place of the user's own tray until they post a story
+  const renderAddStory = () => (
+    <TouchableOpacity style={styles.storyContainer} onPress={() => navigation.navigate('CreateStory')}>
+      <View style={[styles.storyRing, styles.storyRingEmpty]}>
+        <Image
+          source={{ uri: user?.profilePicture || DEFAULT_AVATAR }}
+          style={styles.storyAvatar}
+        />
+        <View style={styles.addStoryBadge}>
+          <Ionicons name="add" size={14} color="#fff" />
+        </View>
+      </View>
+      <Text style={styles.storyUsername} numberOfLines={1}>Your Story</Text>
+    </TouchableOpacity>
+  );
+
   const renderPost = ({ item }: { item: Post }) => {
     const isLiked = item.likes.includes(user?._id || '');
+    const isRepost = !!item.repostOf || !!item.repostUnavailable;
 
     return (
       <View style={styles.postContainer}>
+        {isRepost && !item.description && (
+          <View style={styles.repostLabel}>
+            <Ionicons name="repeat" size={14} color="#8E8E8E" />
+            <Text style={styles.repostLabelText}>{item.user.username} reposted</Text>
+          </View>
+        )}
+
         <View style={styles.postHeader}>
           <TouchableOpacity
             style={styles.userInfo}
@@ -226,14 +314,18 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
           </TouchableOpacity>
         </View>
 
-        {item.image && (
+        {item.images && item.images.length > 0 && (
           <Image
-            source={{ uri: item.image }}
+            source={{ uri: item.images[0] }}
             style={styles.postImage}
             resizeMode="cover"
           />
         )}
 
+        {isRepost && (
+          <RepostedPost post={item.repostOf || null} onPress={handlePostPress} />
+        )}
+
         <View style={styles.actionsContainer}>
           <View style={styles.leftActions}>
             <TouchableOpacity
@@ -254,13 +346,20 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               <Ionicons name="chatbubble-outline" size={24} color="#000" />
             </TouchableOpacity>
 
+            <TouchableOpacity
+              onPress={() => handleRepost(item)}
+              style={styles.actionIcon}
+            >
+              <Ionicons name="repeat-outline" size={26} color="#000" />
+            </TouchableOpacity>
+
             <TouchableOpacity style={styles.actionIcon}>
               <Ionicons name="paper-plane-outline" size={24} color="#000" />
             </TouchableOpacity>
           </View>
 
-          <TouchableOpacity>
-            <Ionicons name="bookmark-outline" size={24} color="#000" />
+          <TouchableOpacity onPress={() => handleSave(item._id)}>
+            <Ionicons name={item.saved ? "bookmark" : "bookmark-outline"} size={24} color="#000" />
           </TouchableOpacity>
         </View>
 
@@ -269,10 +368,20 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
             <Text style={styles.likesText}>{item.likes.length} likes</Text>
           )}
 
-          <View style={styles.captionContainer}>
-            <Text style={styles.captionUsername}>{item.user.username}</Text>
-            <Text style={styles.captionText}>{item.text}</Text>
-          </View>
+          {!!item.description && (
+            <View style={styles.captionContainer}>
+              <Text style={styles.captionUsername}>{item.user.username}</Text>
+              <RichText
+                style={styles.captionText}
+                text={item.description}
+                mentions={item.mentions}
+                onTagPress={tag => navigation.navigate('PostDetails', { postId: '', tag })}
+                onMentionPress={handleUserPress}
+              />
+            </View>
+          )}
+
+          {item.poll && <PollCard postId={item._id} poll={item.poll} />}
 
           {item.comments.length > 0 && (
             <TouchableOpacity onPress={() => handlePostPress(item._id)}>
@@ -287,21 +396,13 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               month: 'short',
               day: 'numeric',
             })}
+            {item.editedAt ? ' · Edited' : ''}
           </Text>
         </View>
       </View>
     );
   };
 
-  const mockStories = [
-    { id: 1, username: 'Your Story', profilePicture: user?.profilePicture || DEFAULT_AVATAR, isCurrentUser: true },
-    ...getMockPosts().map(post => ({
-      id: post.user._id,
-      username: post.user.username,
-      profilePicture: post.user.profilePicture || DEFAULT_AVATAR
-    }))
-  ];
-
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -315,7 +416,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
       <View style={styles.header}>
         <Text style={styles.logoText}>Social App</Text>
         <View style={styles.headerIcons}>
-          <TouchableOpacity style={styles.headerIcon}>
+          <TouchableOpacity style={styles.headerIcon} onPress={() => navigation.navigate('CreateStory')}>
             <Ionicons name="add-circle-outline" size={26} color="#000" />
           </TouchableOpacity>
           <TouchableOpacity style={styles.headerIcon} onPress={() => navigation.navigate('ChatList')}>
@@ -338,17 +439,44 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         ListHeaderComponent={
           <View style={styles.storiesContainer}>
             <FlatList
-              data={mockStories}
-              keyExtractor={(item) => item.id.toString()}
+              data={storyGroups}
+              keyExtractor={(item) => item.user._id}
               renderItem={renderStoryItem}
+              ListHeaderComponent={ownStoryGroup ? null : renderAddStory}
               horizontal
               showsHorizontalScrollIndicator={false}
               contentContainerStyle={styles.storiesList}
             />
           </View>
         }
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.footerLoader} size="small" color="#405DE6" />
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>Follow people to see their posts here.</Text>
+          </View>
+        }
         showsVerticalScrollIndicator={false}
       />
+
+      <QuotePostModal
+        post={quotingPost}
+        onClose={() => setQuotingPost(null)}
+        onPosted={handleQuotePosted}
+      />
+
+      <StoryViewer
+        groups={storyGroups}
+        initialGroupIndex={openStoryGroup}
+        onClose={() => setOpenStoryGroup(null)}
+        onViewed={handleStoryViewed}
+        onDeleted={handleStoryDeleted}
+      />
     </SafeAreaLayout>
   );
 }
@@ -407,6 +535,28 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  storyRingCloseFriends: {
+    borderColor: CLOSE_FRIENDS_COLOR,
+  },
+  storyRingViewed: {
+    borderColor: '#DBDBDB',
+  },
+  storyRingEmpty: {
+    borderColor: 'transparent',
+  },
+  addStoryBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#405DE6',
+    borderWidth: 2,
+    borderColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   storyAvatar: {
     width: 62,
     height: 62,
@@ -429,6 +579,17 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     padding: 10,
   },
+  repostLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingTop: 8,
+  },
+  repostLabelText: {
+    marginLeft: 6,
+    fontSize: 12,
+    color: '#8E8E8E',
+  },
   userInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -487,4 +648,16 @@ const styles = StyleSheet.create({
     color: '#8E8E8E',
     marginTop: 2,
   },
+  footerLoader: {
+    marginVertical: 20,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    color: '#8E8E8E',
+    fontSize: 14,
+    textAlign: 'center',
+  },
 }); 
\ No newline at end of file
@@ -19,7 +19,7 @@ import { useAuthContext } from '../context/AuthContext';
 
 interface Notification {
   _id: string;
-  type: 'like' | 'comment' | 'follow' | 'friendRequest';
+  type: 'like' | 'comment' | 'follow' | 'friendRequest' | 'mention' | 'repost' | 'postPublished';
   sender: {
     _id: string;
     name: string;
@@ -33,7 +33,7 @@ interface Notification {
   };
   comment?: {
     _id: string;
-    content: string;
+    text: string;
   };
   read: boolean;
   createdAt: string;
@@ -161,6 +161,9 @@ export default function NotificationsScreen({ navigation }: { navigation: any })
       switch (notification.type) {
         case 'like':
         case 'comment':
+        case 'mention':
+        case 'repost':
+        case 'postPublished':
           if (notification.post) {
             navigation.navigate('Home', {
               screen: 'PostDetails',
@@ -223,7 +226,13 @@ export default function NotificationsScreen({ navigation }: { navigation: any })
       case 'like':
         return 'liked your post';
       case 'comment':
-        return `commented: "${notification.comment?.content.substring(0, 30)}${notification.comment?.content && notification.comment.content.length > 30 ? '...' : ''}"`;
+        return `commented: "${notification.comment?.text.substring(0, 30)}${notification.comment?.text && notification.comment.text.length > 30 ? '...' : ''}"`;
+      case 'mention':
+        return 'mentioned you in a post';
+      case 'repost':
+        return 'reposted your post';
+      case 'postPublished':
+        return 'Your scheduled post is now live';
       case 'follow':
         return 'started following you';
       case 'friendRequest':
@@ -239,6 +248,12 @@ export default function NotificationsScreen({ navigation }: { navigation: any })
         return <Ionicons name="heart" size={20} color="#e74c3c" />;
       case 'comment':
         return <Ionicons name="chatbubble" size={20} color="#3498db" />;
+      case 'mention':
+        return <Ionicons name="at" size={20} color="#9b59b6" />;
+      case 'repost':
+        return <Ionicons name="repeat" size={20} color="#16a085" />;
+      case 'postPublished':
+        return <Ionicons name="time" size={20} color="#4A90E2" />;
       case 'follow':
         return <Ionicons name="person-add" size={20} color="#2ecc71" />;
       case 'friendRequest':
@@ -6,10 +6,9 @@ import {
   Image,
   TouchableOpacity,
   FlatList,
-  // TextInput, // Removed as comment input is not per-post here
   ActivityIndicator,
   Alert,
-  // KeyboardAvoidingView, // Not needed without the bottom input
+  KeyboardAvoidingView,
   Platform,
   SafeAreaView, // Use SafeAreaView
   RefreshControl,
@@ -21,22 +20,15 @@ import { API_URL, DEFAULT_AVATAR } from '../utils/config';
 import axios from 'axios';
 import { RootStackScreenProps } from '../types/navigation';
 import { useFocusEffect } from '@react-navigation/native';
+import CommentThread from '../components/CommentThread';
+import EditPostModal from '../components/EditPostModal';
+import RichText from '../components/RichText';
+import RepostedPost from '../components/RepostedPost';
+import PollCard, { PollResults } from '../components/PollCard';
+import { deletePost } from '../api/posts';
 
 type Props = RootStackScreenProps<'PostDetails'>; // Keep type, but screen content changed
 
-// Interfaces remain the same
-interface Comment {
-  _id: string;
-  text: string;
-  user: {
-    _id: string;
-    username: string;
-    name: string;
-    profilePicture?: string;
-  };
-  createdAt: string;
-}
-
 interface Post {
   _id: string;
   description: string;
@@ -47,19 +39,32 @@ interface Post {
     name: string;
     profilePicture?: string;
   };
+  mood?: string;
+  mentions?: { _id: string; username: string }[];
   likes: string[];
-  comments: Comment[];
+  comments: string[];
   createdAt: string;
+  editedAt?: string;
+  repostOf?: Post | null;
+  repostUnavailable?: boolean;
+  poll?: PollResults;
 }
 
 // This screen now functions more like a Feed or Post List
 const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
   // Get parameters from route
-  const { postId: initialPostId, userId, userName } = route.params; // Get userId if coming from a user profile
+  const { postId: initialPostId, userId, userName, tag } = route.params; // Get userId if coming from a user profile, tag if coming from a hashtag
   const { user } = useAuthContext();
   const [posts, setPosts] = useState<Post[]>([]); // State holds the array of posts
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  // Post whose comment thread is open; starts on the post we navigated to
+  const [expandedPostId, setExpandedPostId] = useState<string | null>(initialPostId || null);
+  const [editingPost, setEditingPost] = useState<Post | null>(null);
+  // Tag feeds are cursor paginated
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   // Store the origin of navigation to determine where to go back
   const [fromProfileTab] = useState(() => {
@@ -119,7 +124,9 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
     // Determine appropriate header title based on available information
     let headerTitle = 'All Posts';
 
-    if (userId) {
+    if (tag) {
+      headerTitle = `#${tag}`;
+    } else if (userId) {
       // Only add the @ symbol and username if userName is defined
       headerTitle = userName ? `@${userName}` : 'User Posts';
     }
@@ -136,13 +143,40 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
         </TouchableOpacity>
       ),
     });
-  }, [navigation, userId, userName, handleBackPress]);
+  }, [navigation, userId, userName, tag, handleBackPress]);
+
+  // Fetch a page of a hashtag feed
+  const fetchTagPosts = useCallback(async (cursor?: string | null) => {
+    try {
+      const response = await axios.get(`${API_URL}/api/posts/tags/${encodeURIComponent(tag || '')}`, {
+        params: cursor ? { cursor } : {},
+      });
+      const { data, nextCursor: newCursor, hasMore: more } = response.data;
+
+      setPosts(prevPosts => (cursor ? [...prevPosts, ...data] : data));
+      setNextCursor(newCursor);
+      setHasMore(more);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load posts');
+      console.error('Fetch tag posts error:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+      setLoadingMore(false);
+    }
+  }, [tag]);
 
   // Fetch all posts
   const fetchPosts = useCallback(async () => {
+    if (tag) {
+      return fetchTagPosts();
+    }
+
     try {
       // console.log('Requesting all posts from:', `${API_URL}/api/posts`);
-      const response = await axios.get<{ data: Post[] }>(`${API_URL}/api/posts`);
+      const response = await axios.get<{ data: Post[] }>(`${API_URL}/api/posts`, {
+        params: userId ? { user: userId } : {},
+      });
 
       let filteredPosts = response.data.data;
 
@@ -170,13 +204,19 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
       setLoading(false);
       setRefreshing(false);
     }
-  }, [userId, navigation]);
+  }, [userId, tag, navigation, fetchTagPosts]);
 
   useEffect(() => {
     setLoading(true);
     fetchPosts();
   }, [fetchPosts]);
 
+  const handleLoadMore = () => {
+    if (!tag || !hasMore || loadingMore) return;
+    setLoadingMore(true);
+    fetchTagPosts(nextCursor);
+  };
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     fetchPosts();
@@ -218,11 +258,11 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
     });
 
     try {
-      // *** IMPORTANT: Add your actual API call here ***
-      // console.log(`Simulating API call: ${isLiked ? 'Unlike' : 'Like'} post ${postId}`);
-      // Example API call (uncomment and adapt)
-      // await axios.post(`${API_URL}/api/posts/${postId}/like`);
-      await new Promise(resolve => setTimeout(resolve, 300)); // Simulate delay
+      if (isLiked) {
+        await axios.delete(`${API_URL}/api/posts/${postId}/like`);
+      } else {
+        await axios.post(`${API_URL}/api/posts/${postId}/like`);
+      }
 
     } catch (error) {
       console.error('Failed to update like:', error);
@@ -232,6 +272,63 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
+  const toggleComments = (postId: string) => {
+    setExpandedPostId(prev => (prev === postId ? null : postId));
+  };
+
+  // Keep the comment count on the post in sync with the thread
+  const handleCommentsChanged = (postId: string, addedIds: string[], removedIds: string[]) => {
+    setPosts(prevPosts =>
+      prevPosts.map(post =>
+        post._id === postId
+          ? {
+              ...post,
+              comments: [...post.comments.filter(id => !removedIds.includes(id)), ...addedIds],
+            }
+          : post
+      )
+    );
+  };
+
+  const handleDeletePost = async (postId: string) => {
+    try {
+      await deletePost(postId);
+      setPosts(prevPosts => prevPosts.filter(post => post._id !== postId));
+    } catch (error) {
+      console.error('Failed to delete post:', error);
+      Alert.alert('Error', 'Could not delete post.');
+    }
+  };
+
+  // Owner actions for a post
+  const handlePostOptions = (post: Post) => {
+    Alert.alert('Post options', undefined, [
+      { text: 'Edit', onPress: () => setEditingPost(post) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          Alert.alert('Delete post', 'This post will be permanently removed.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => handleDeletePost(post._id) },
+          ]),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handlePostSaved = (updatedPost: Post) => {
+    setPosts(prevPosts =>
+      prevPosts.map(post => (post._id === updatedPost._id ? { ...post, ...updatedPost } : post))
+    );
+    setEditingPost(null);
+  };
+
+  const handleTagPress = (pressedTag: string) => {
+    if (pressedTag === tag) return;
+    navigation.push('PostDetails', { postId: '', tag: pressedTag });
+  };
+
   // Navigate to User Profile or own Profile
   const handleUserPress = (userId: string) => {
     if (userId === user?._id) {
@@ -290,13 +387,32 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
               <Text style={styles.userUsername}>@{item.user.username}</Text>
             </View>
           </TouchableOpacity>
-          <Text style={styles.postDate}>{formatDate(item.createdAt)}</Text>
+          <View style={styles.headerRight}>
+            <Text style={styles.postDate}>
+              {formatDate(item.createdAt)}{item.editedAt ? ' · Edited' : ''}
+            </Text>
+            {item.user._id === user?._id && (
+              <TouchableOpacity style={styles.optionsButton} onPress={() => handlePostOptions(item)}>
+                <Ionicons name="ellipsis-horizontal" size={18} color="#666" />
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
         {/* Post Content */}
-        <Text style={styles.postText} ellipsizeMode="tail">
-          {item.description}
-        </Text>
+        <RichText
+          style={styles.postText}
+          text={item.description}
+          mentions={item.mentions}
+          onTagPress={handleTagPress}
+          onMentionPress={handleUserPress}
+        />
+
+        {item.poll && (
+          <View style={styles.pollContainer}>
+            <PollCard postId={item._id} poll={item.poll} />
+          </View>
+        )}
 
         {item.images && item.images.length > 0 && item.images[0] && (
           <Image
@@ -306,6 +422,13 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
           />
         )}
 
+        {(item.repostOf || item.repostUnavailable) && (
+          <RepostedPost
+            post={item.repostOf || null}
+            onPress={postId => navigation.push('PostDetails', { postId })}
+          />
+        )}
+
         {/* Post Actions */}
         <View style={styles.postActions}>
           <TouchableOpacity
@@ -323,11 +446,27 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
           {/* Comment Action */}
           <TouchableOpacity
             style={styles.actionButton}
+            onPress={() => toggleComments(item._id)}
           >
-            <Ionicons name="chatbubble-outline" size={22} color="#666" />
+            <Ionicons
+              name={expandedPostId === item._id ? "chatbubble" : "chatbubble-outline"}
+              size={22}
+              color="#666"
+            />
             <Text style={styles.actionText}>{item.comments.length}</Text>
           </TouchableOpacity>
         </View>
+
+        {/* Comment Thread */}
+        {expandedPostId === item._id && (
+          <CommentThread
+            postId={item._id}
+            postOwnerId={item.user._id}
+            currentUserId={user?._id}
+            onUserPress={handleUserPress}
+            onCommentsChanged={(added, removed) => handleCommentsChanged(item._id, added, removed)}
+          />
+        )}
       </View>
     );
   };
@@ -344,29 +483,46 @@ const PostDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
 
   return (
     <SafeAreaView style={styles.safeArea}>
-      <FlatList
-        data={posts}
-        renderItem={renderPostItem}
-        keyExtractor={(item) => item._id}
-        contentContainerStyle={styles.listContentContainer}
-        ItemSeparatorComponent={() => <View style={styles.separator} />}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={onRefresh}
-            colors={["#4B0082"]}
-            tintColor={"#4B0082"}
-          />
-        }
-        ListEmptyComponent={
-          !loading ? (
-            <View style={styles.emptyListContainer}>
-              <Ionicons name="newspaper-outline" size={50} color="#ccc" />
-              <Text style={styles.emptyListText}>No posts found.</Text>
-              <Text style={styles.emptyListSubText}>Pull down to refresh.</Text>
-            </View>
-          ) : null
-        }
+      <KeyboardAvoidingView
+        style={styles.safeArea}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <FlatList
+          data={posts}
+          renderItem={renderPostItem}
+          keyExtractor={(item) => item._id}
+          extraData={expandedPostId}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator size="small" color="#4B0082" style={styles.footerLoader} /> : null
+          }
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.listContentContainer}
+          ItemSeparatorComponent={() => <View style={styles.separator} />}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={["#4B0082"]}
+              tintColor={"#4B0082"}
+            />
+          }
+          ListEmptyComponent={
+            !loading ? (
+              <View style={styles.emptyListContainer}>
+                <Ionicons name="newspaper-outline" size={50} color="#ccc" />
+                <Text style={styles.emptyListText}>No posts found.</Text>
+                <Text style={styles.emptyListSubText}>Pull down to refresh.</Text>
+              </View>
+            ) : null
+          }
+        />
+      </KeyboardAvoidingView>
+      <EditPostModal
+        post={editingPost}
+        onClose={() => setEditingPost(null)}
+        onSaved={handlePostSaved}
       />
     </SafeAreaView>
   );
@@ -407,8 +563,12 @@ const styles = StyleSheet.create({
     marginHorizontal: 10,
   },
   headerRight: {
-    width: 40, // Same size as backButton for balance
-    height: 40,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  optionsButton: {
+    marginLeft: 10,
+    padding: 4,
   },
   loadingContainer: {
     flex: 1,
@@ -469,6 +629,9 @@ const styles = StyleSheet.create({
     color: '#333',
     paddingHorizontal: 15, // Horizontal padding for text
   },
+  pollContainer: {
+    paddingHorizontal: 15,
+  },
   postImage: {
     width: '100%', // Full width image
     aspectRatio: 16 / 9, // Common aspect ratio, adjust as needed
@@ -494,6 +657,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#555', // Match username color maybe
   },
+  footerLoader: {
+    marginVertical: 15,
+  },
   separator: {
     height: 1, // Or can be 0 if margin provides enough separation
     // backgroundColor: '#e0e0e0', // If you want a visible line separator
@@ -18,7 +18,8 @@ import {
 import { Ionicons, Feather, MaterialIcons, FontAwesome } from '@expo/vector-icons';
 import { useAuthContext } from '../context/AuthContext';
 import { usePostsContext } from '../context/PostsContext';
-import { SafeAreaLayout } from '../components';
+import { SafeAreaLayout, CollectionPickerModal, HighlightsRow } from '../components';
+import { SavedCollection } from '../components/CollectionPickerModal';
 import { DEFAULT_AVATAR } from '../utils/config';
 import { getAllPosts } from '../api/posts';
 import axios from 'axios';
@@ -67,6 +68,10 @@ interface PostDisplay {
   isVideo?: boolean;
 }
 
+interface SavedPostDisplay extends PostDisplay {
+  collectionId: string | null;
+}
+
 interface FollowerUser {
   _id: string;
   username: string;
@@ -109,6 +114,16 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
   const [followRequests, setFollowRequests] = useState<FollowerUser[]>([]);
   const [isPrivateAccount, setIsPrivateAccount] = useState(false);
 
+  // Saved tab state; only the owner ever sees their saved posts
+  const [activeTab, setActiveTab] = useState<'posts' | 'saved'>('posts');
+  const [savedPosts, setSavedPosts] = useState<SavedPostDisplay[]>([]);
+  const [savedCursor, setSavedCursor] = useState<string | null>(null);
+  const [savedHasMore, setSavedHasMore] = useState(false);
+  const [loadingSaved, setLoadingSaved] = useState(false);
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  const [selectedCollection, setSelectedCollection] = useState<string | null>(null);
+  const [movingItem, setMovingItem] = useState<SavedPostDisplay | null>(null);
+
   // --- Responsive Calculation START ---
   // Get screen dimensions using the hook
   const { width: windowWidth } = useWindowDimensions(); // Get current window width
@@ -205,6 +220,14 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
     }
   }, [backendPosts, userPosts]); // Keep original dependencies
 
+  // Load the saved grid when the tab opens or the collection filter changes
+  useEffect(() => {
+    if (activeTab === 'saved') {
+      fetchCollections();
+      fetchSavedPosts();
+    }
+  }, [activeTab, selectedCollection]);
+
   // Fetch followers and following details
   const fetchFollowersAndFollowing = async () => {
     if (!user?._id || !user?.token) {
@@ -819,7 +842,7 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
         timeout: 10000
       });
 
-      const response = await apiClient.get('/posts');
+      const response = await apiClient.get('/posts', { params: { user: user._id } });
 
       if (response.data && response.data.success) {
         const posts = response.data.data || [];
@@ -852,6 +875,91 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
     }
   };
 
+  const fetchCollections = async () => {
+    try {
+      const response = await axios.get(`${API_URL}/api/users/me/saved/collections`);
+      setCollections(response.data.data || []);
+    } catch (err) {
+      console.error('Error fetching collections:', err);
+    }
+  };
+
+  const fetchSavedPosts = async (cursor: string | null = null) => {
+    try {
+      setLoadingSaved(true);
+
+      const response = await axios.get(`${API_URL}/api/users/me/saved`, {
+        params: {
+          cursor: cursor || undefined,
+          collection: selectedCollection || undefined,
+        },
+      });
+
+      const items: SavedPostDisplay[] = (response.data.data || []).map((item: any) => ({
+        _id: item.post._id,
+        isBackendPost: true,
+        content: item.post.description || 'No description',
+        imageUrl: item.post.images && item.post.images.length > 0
+          ? item.post.images[0].startsWith('http') ? item.post.images[0] : `${API_URL}/${item.post.images[0]}`
+          : undefined,
+        collectionId: item.collectionId || null,
+      }));
+
+      setSavedPosts(prev => (cursor ? [...prev, ...items] : items));
+      setSavedCursor(response.data.nextCursor);
+      setSavedHasMore(response.data.hasMore);
+    } catch (err) {
+      console.error('Error fetching saved posts:', err);
+    } finally {
+      setLoadingSaved(false);
+    }
+  };
+
+  const handleLoadMoreSaved = () => {
+    if (activeTab === 'saved' && savedHasMore && savedCursor && !loadingSaved) {
+      fetchSavedPosts(savedCursor);
+    }
+  };
+
+  const handleUnsave = async (item: SavedPostDisplay) => {
+    try {
+      await axios.delete(`${API_URL}/api/users/me/saved/${item._id}`);
+      setSavedPosts(prev => prev.filter(post => post._id !== item._id));
+      fetchCollections();
+    } catch (err) {
+      console.error('Error removing saved post:', err);
+      Alert.alert('Error', 'Failed to remove post from saved');
+    }
+  };
+
+  const handleMoveSaved = async (collectionId: string | null) => {
+    const item = movingItem;
+    setMovingItem(null);
+    if (!item || item.collectionId === collectionId) return;
+
+    try {
+      await axios.put(`${API_URL}/api/users/me/saved/${item._id}`, { collectionId });
+      setSavedPosts(prev =>
+        // A post moved out of the collection being viewed leaves the grid
+        selectedCollection && selectedCollection !== collectionId
+          ? prev.filter(post => post._id !== item._id)
+          : prev.map(post => (post._id === item._id ? { ...post, collectionId } : post))
+      );
+      fetchCollections();
+    } catch (err) {
+      console.error('Error moving saved post:', err);
+      Alert.alert('Error', 'Failed to move post');
+    }
+  };
+
+  const handleSavedItemOptions = (item: SavedPostDisplay) => {
+    Alert.alert('Saved post', undefined, [
+      { text: 'Move to collection', onPress: () => setMovingItem(item) },
+      { text: 'Remove from saved', style: 'destructive', onPress: () => handleUnsave(item) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const handleEditProfile = () => {
     navigation.navigate('EditProfile');
   };
@@ -884,19 +992,18 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
         }
       ]}
       onPress={() => {
+        // Saved posts belong to other users, so they open on their own
+        const params = activeTab === 'saved'
+          ? { postId: item._id }
+          : { postId: item._id, userId: user?._id };
         try {
-          navigation.push('PostDetails', {
-            postId: item._id,
-            userId: user?._id
-          });
+          navigation.push('PostDetails', params);
         } catch (err) {
           console.error('Navigation error:', err);
-          navigation.navigate('PostDetails', {
-            postId: item._id,
-            userId: user?._id
-          });
+          navigation.navigate('PostDetails', params);
         }
       }}
+      onLongPress={activeTab === 'saved' ? () => handleSavedItemOptions(item as SavedPostDisplay) : undefined}
     >
       {item.imageUrl ? (
         <Image
@@ -918,40 +1025,12 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
         </View>
       )}
     </TouchableOpacity>
-  ), [itemSize, navigation, user?._id]);
+  ), [itemSize, navigation, user?._id, activeTab]);
 
 
   // Determine total posts count
   const totalPosts = displayPosts.length;
 
-  // Create stories data for the profile highlights
-  const storyHighlights = [
-    { id: 'new', title: 'New' },
-    { id: 'shaap', title: 'sнaαρ & s↑єєк...' },
-    { id: 'maababa', title: 'maaBaba 🙏' },
-    { id: 'crown', title: '👑' },
-    { id: 'deeksha', title: 'de...' },
-  ];
-
-  // Render a story highlight item
-  const renderStoryItem = ({ item }: { item: { id: string, title: string } }) => (
-    <View style={styles.storyItem}>
-      {item.id === 'new' ? (
-        <TouchableOpacity style={styles.newStoryButton}>
-          <Ionicons name="add" size={30} color="black" />
-        </TouchableOpacity>
-      ) : (
-        <View style={styles.storyCircle}>
-          <Image
-            source={{ uri: user?.profilePicture || DEFAULT_AVATAR }}
-            style={styles.storyImage}
-          />
-        </View>
-      )}
-      <Text style={styles.storyTitle} numberOfLines={1}>{item.title}</Text>
-    </View>
-  );
-
   // Keep error handling useEffect (or remove if not desired)
   useEffect(() => {
     if (error) {
@@ -990,10 +1069,12 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
       </View>
 
       <FlatList
-        data={displayPosts}
+        data={activeTab === 'saved' ? savedPosts : displayPosts}
         renderItem={renderPostItem}
         keyExtractor={(item) => item._id}
         numColumns={NUM_COLUMNS}
+        onEndReached={handleLoadMoreSaved}
+        onEndReachedThreshold={0.5}
         refreshControl={
           <RefreshControl
             refreshing={refreshing || loading}
@@ -1071,19 +1152,21 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
               </View>
 
               {/* Story Highlights */}
-              <FlatList
-                data={storyHighlights}
-                renderItem={renderStoryItem}
-                keyExtractor={(item) => item.id}
-                horizontal
-                showsHorizontalScrollIndicator={false}
-                contentContainerStyle={styles.storyHighlightsContainer}
-              />
+              {user?._id && <HighlightsRow userId={user._id} isOwn />}
 
               {/* Content Tabs */}
               <View style={styles.contentTabsContainer}>
-                <TouchableOpacity style={styles.tabActive}>
-                  <Ionicons name="grid-outline" size={24} color="white" />
+                <TouchableOpacity
+                  style={activeTab === 'posts' ? styles.tabActive : styles.tab}
+                  onPress={() => setActiveTab('posts')}
+                >
+                  <Ionicons name="grid-outline" size={24} color={activeTab === 'posts' ? 'white' : 'gray'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={activeTab === 'saved' ? styles.tabActive : styles.tab}
+                  onPress={() => setActiveTab('saved')}
+                >
+                  <Ionicons name="bookmark-outline" size={24} color={activeTab === 'saved' ? 'white' : 'gray'} />
                 </TouchableOpacity>
                 <TouchableOpacity style={styles.tab}>
                   <Ionicons name="play-outline" size={24} color="gray" />
@@ -1094,21 +1177,63 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
               </View>
             </View>
 
+            {/* Collection filter for the saved tab */}
+            {activeTab === 'saved' && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.collectionChips}
+              >
+                {[{ _id: null, name: 'All' }, ...collections].map(collection => (
+                  <TouchableOpacity
+                    key={collection._id || 'all'}
+                    style={[
+                      styles.collectionChip,
+                      selectedCollection === collection._id && styles.collectionChipActive,
+                    ]}
+                    onPress={() => setSelectedCollection(collection._id)}
+                  >
+                    <Text
+                      style={[
+                        styles.collectionChipText,
+                        selectedCollection === collection._id && styles.collectionChipTextActive,
+                      ]}
+                    >
+                      {collection.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+
+            {activeTab === 'saved' && loadingSaved && savedPosts.length === 0 && (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="white" />
+              </View>
+            )}
+
+            {activeTab === 'saved' && !loadingSaved && savedPosts.length === 0 && (
+              <View style={styles.emptyState}>
+                <Ionicons name="bookmark-outline" size={48} color="#555" />
+                <Text style={styles.emptyStateText}>Only you can see what you've saved</Text>
+              </View>
+            )}
+
             {/* Loading States */}
-            {loading && displayPosts.length === 0 && (
+            {activeTab === 'posts' && loading && displayPosts.length === 0 && (
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color="white" />
               </View>
             )}
 
-            {!loading && displayPosts.length === 0 && !error && (
+            {activeTab === 'posts' && !loading && displayPosts.length === 0 && !error && (
               <View style={styles.emptyState}>
                 <Ionicons name="images-outline" size={48} color="#555" />
                 <Text style={styles.emptyStateText}>No posts yet</Text>
               </View>
             )}
 
-            {error && !loading && (
+            {activeTab === 'posts' && error && !loading && (
               <View style={styles.errorContainer}>
                 <Text style={styles.errorText}>{error}</Text>
               </View>
@@ -1121,6 +1246,15 @@ export default function ProfileScreen({ navigation, route }: ProfileScreenProps)
       {/* Bottom Tab Bar - Just for visual completeness */}
 
 
+      <CollectionPickerModal
+        visible={!!movingItem}
+        collections={collections}
+        currentCollectionId={movingItem?.collectionId}
+        onClose={() => setMovingItem(null)}
+        onSelect={handleMoveSaved}
+        onCreated={collection => setCollections(prev => [...prev, collection])}
+      />
+
       {/* Followers Modal */}
       <Modal
         visible={showFollowersModal}
@@ -1393,42 +1527,6 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginLeft: 5,
   },
-  storyHighlightsContainer: {
-    paddingHorizontal: 15,
-    paddingBottom: 15,
-  },
-  storyItem: {
-    alignItems: 'center',
-    marginRight: 15,
-    width: 75,
-  },
-  storyCircle: {
-    width: 65,
-    height: 65,
-    borderRadius: 32.5,
-    borderWidth: 1,
-    borderColor: '#E0E0E0',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  newStoryButton: {
-    width: 65,
-    height: 65,
-    borderRadius: 32.5,
-    backgroundColor: '#F5F5F5',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  storyImage: {
-    width: 60,
-    height: 60,
-    borderRadius: 30,
-  },
-  storyTitle: {
-    fontSize: 12,
-    color: '#666666',
-    marginTop: 5,
-  },
   contentTabsContainer: {
     flexDirection: 'row',
     borderTopWidth: 0.5,
@@ -1447,6 +1545,29 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#000000',
   },
+  collectionChips: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  collectionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    borderWidth: 0.5,
+    borderColor: '#E0E0E0',
+  },
+  collectionChipActive: {
+    backgroundColor: '#000000',
+    borderColor: '#000000',
+  },
+  collectionChipText: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  collectionChipTextActive: {
+    color: '#FFFFFF',
+  },
   postsGridContainer: {
     paddingHorizontal: ITEM_MARGIN,
     paddingBottom: 70, // Extra space for the bottom tab bar
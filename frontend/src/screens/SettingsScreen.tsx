@@ -11,6 +11,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { useAuthContext } from '../context/AuthContext';
+import CloseFriendsModal from '../components/CloseFriendsModal';
 
 interface UserProfileProps {
   navigation: any
@@ -20,6 +21,7 @@ const SettingsScreen = ({ navigation }: UserProfileProps) => {
   const { logout } = useAuthContext();
   const [darkMode, setDarkMode] = React.useState(false);
   const [notificationsEnabled, setNotificationsEnabled] = React.useState(true);
+  const [closeFriendsVisible, setCloseFriendsVisible] = React.useState(false);
 
   const handleLogout = () => {
     Alert.alert(
@@ -113,6 +115,7 @@ const SettingsScreen = ({ navigation }: UserProfileProps) => {
 
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Privacy & Security</Text>
+        {renderSettingItem('star-outline', 'Close Friends', () => setCloseFriendsVisible(true))}
         {renderSettingItem('lock-closed-outline', 'Privacy Settings', () =>
           Alert.alert('Coming Soon', 'This feature will be available soon!')
         )}
@@ -140,6 +143,11 @@ const SettingsScreen = ({ navigation }: UserProfileProps) => {
       <View style={styles.footer}>
         <Text style={styles.footerText}>Social Messaging App v1.0.0</Text>
       </View>
+
+      <CloseFriendsModal
+        visible={closeFriendsVisible}
+        onClose={() => setCloseFriendsVisible(false)}
+      />
     </ScrollView>
   );
 };
@@ -7,12 +7,15 @@ import {
   TouchableOpacity,
   Image,
   ActivityIndicator,
-  TextInput
+  TextInput,
+  Alert
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import axios from 'axios';
 import { API_URL, DEFAULT_AVATAR } from '../utils/config';
 import { useAuthContext } from '../context/AuthContext';
+import { GroupAvatar, createGroup } from '../api/groups';
 
 interface UserListScreenProps {
   navigation: any;
@@ -25,15 +28,40 @@ export default function UserListScreen({ navigation }: UserListScreenProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  // Group mode: pick two or more people, name the group and create it
+  const [groupMode, setGroupMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [groupName, setGroupName] = useState('');
+  const [groupAvatar, setGroupAvatar] = useState<GroupAvatar | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
 
   useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    const canCreate = selectedIds.length >= 2 && groupName.trim() !== '' && !isCreating;
+
     navigation.setOptions({
-      title: 'New Message',
+      title: groupMode ? 'New Group' : 'New Message',
       headerShown: true,
+      headerRight: () => (
+        groupMode ? (
+          <TouchableOpacity onPress={handleCreateGroup} disabled={!canCreate} style={styles.headerButton}>
+            {isCreating ? (
+              <ActivityIndicator size="small" color="#4B0082" />
+            ) : (
+              <Text style={[styles.headerButtonText, !canCreate && styles.headerButtonDisabled]}>Create</Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity onPress={() => setGroupMode(true)} style={styles.headerButton}>
+            <Ionicons name="people-outline" size={24} color="#4B0082" />
+          </TouchableOpacity>
+        )
+      ),
     });
-
-    fetchUsers();
-  }, []);
+  }, [navigation, groupMode, selectedIds, groupName, groupAvatar, isCreating]);
 
   useEffect(() => {
     if (searchQuery) {
@@ -81,22 +109,80 @@ export default function UserListScreen({ navigation }: UserListScreenProps) {
     navigation.navigate('ChatDetail', { userId, name });
   };
 
-  const renderUserItem = ({ item }: any) => (
-    <TouchableOpacity
-      style={styles.userItem}
-      onPress={() => navigateToChat(item._id, item.name)}
-    >
-      <Image
-        source={{ uri: item.profilePicture || DEFAULT_AVATAR }}
-        style={styles.avatar}
-      />
-      <View style={styles.userInfo}>
-        <Text style={styles.name}>{item.name}</Text>
-        <Text style={styles.username}>@{item.username}</Text>
-      </View>
-      <Ionicons name="chevron-forward" size={24} color="#ccc" />
-    </TouchableOpacity>
-  );
+  const toggleSelected = (userId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    );
+  };
+
+  const cancelGroup = () => {
+    setGroupMode(false);
+    setSelectedIds([]);
+    setGroupName('');
+    setGroupAvatar(null);
+  };
+
+  const pickGroupAvatar = async () => {
+    const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permissionResult.granted) {
+      Alert.alert('Permission Required', 'Please allow access to your photo library to add a group photo.');
+      return;
+    }
+
+    const pickerResult = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.5,
+    });
+
+    if (!pickerResult.canceled) {
+      const asset = pickerResult.assets[0];
+      setGroupAvatar({ uri: asset.uri, mimeType: asset.mimeType, fileName: asset.fileName });
+    }
+  };
+
+  const handleCreateGroup = async () => {
+    try {
+      setIsCreating(true);
+      const group = await createGroup(groupName.trim(), selectedIds, groupAvatar);
+      cancelGroup();
+      navigation.navigate('ChatDetail', { chatId: group.id, name: group.name, isGroup: true });
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to create group');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const renderUserItem = ({ item }: any) => {
+    const isSelected = selectedIds.includes(item._id);
+
+    return (
+      <TouchableOpacity
+        style={styles.userItem}
+        onPress={() => (groupMode ? toggleSelected(item._id) : navigateToChat(item._id, item.name))}
+      >
+        <Image
+          source={{ uri: item.profilePicture || DEFAULT_AVATAR }}
+          style={styles.avatar}
+        />
+        <View style={styles.userInfo}>
+          <Text style={styles.name}>{item.name}</Text>
+          <Text style={styles.username}>@{item.username}</Text>
+        </View>
+        {groupMode ? (
+          <Ionicons
+            name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+            size={24}
+            color={isSelected ? '#4B0082' : '#ccc'}
+          />
+        ) : (
+          <Ionicons name="chevron-forward" size={24} color="#ccc" />
+        )}
+      </TouchableOpacity>
+    );
+  };
 
   if (isLoading) {
     return (
@@ -121,6 +207,34 @@ export default function UserListScreen({ navigation }: UserListScreenProps) {
 
   return (
     <View style={styles.container}>
+      {groupMode && (
+        <View style={styles.groupDetails}>
+          <TouchableOpacity onPress={pickGroupAvatar} style={styles.groupAvatarButton}>
+            {groupAvatar ? (
+              <Image source={{ uri: groupAvatar.uri }} style={styles.groupAvatar} />
+            ) : (
+              <Ionicons name="camera-outline" size={24} color="#4B0082" />
+            )}
+          </TouchableOpacity>
+          <View style={styles.groupNameContainer}>
+            <TextInput
+              style={styles.groupNameInput}
+              placeholder="Group name"
+              value={groupName}
+              onChangeText={setGroupName}
+              maxLength={50}
+              placeholderTextColor="#999"
+            />
+            <Text style={styles.selectedCount}>
+              {selectedIds.length} selected{selectedIds.length < 2 ? ' · pick at least 2 people' : ''}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={cancelGroup}>
+            <Ionicons name="close" size={24} color="#999" />
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.searchContainer}>
         <Ionicons name="search" size={20} color="#999" style={styles.searchIcon} />
         <TextInput
@@ -194,6 +308,52 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  headerButton: {
+    marginRight: 15,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4B0082',
+  },
+  headerButtonDisabled: {
+    color: '#ccc',
+  },
+  groupDetails: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingTop: 10,
+  },
+  groupAvatarButton: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: '#f1f1f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 15,
+  },
+  groupAvatar: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+  },
+  groupNameContainer: {
+    flex: 1,
+  },
+  groupNameInput: {
+    fontSize: 16,
+    color: '#333',
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+    paddingVertical: 6,
+  },
+  selectedCount: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
   userItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -18,7 +18,7 @@ import { DEFAULT_AVATAR, API_URL } from '../utils/config';
 import { useAuthContext } from '../context/AuthContext';
 import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SafeAreaLayout } from '../components';
+import { SafeAreaLayout, HighlightsRow } from '../components';
 
 // Types
 type RootStackParamList = {
@@ -275,6 +275,7 @@ const UserProfileScreen: React.FC<Props> = ({ route, navigation }) => {
       // console.log(`Fetching posts for user: ${userId}`);
       // Add timeout and retry logic
       const response = await axios.get(`${API_URL}/api/posts`, {
+        params: { user: userId },
         headers: {
           Authorization: `Bearer ${currentUser.token}`,
         },
@@ -896,6 +897,13 @@ const UserProfileScreen: React.FC<Props> = ({ route, navigation }) => {
               <Text style={styles.bioText}>{user?.bio || 'No bio yet'}</Text>
             </View>
 
+            {/* Highlights follow story visibility, so reload them when the follow state changes */}
+            <HighlightsRow
+              key={relationship.isFollowing ? 'following' : 'not-following'}
+              userId={userId}
+              isOwn={false}
+            />
+
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Posts</Text>
 
@@ -10,7 +10,7 @@ export type RootStackParamList = {
   // Main screens
   Main: undefined;
   Feed: undefined;
-  PostDetails: { postId: string; userId?: string; userName?: string };
+  PostDetails: { postId: string; userId?: string; userName?: string; tag?: string };
   Post: undefined;
   UserProfile: { userId: string; fromFollowRequest?: boolean; userName?: string };
   Profile: undefined;
@@ -29,7 +29,7 @@ export type RootStackParamList = {
 
 export type HomeStackParamList = {
   Feed: undefined;
-  PostDetails: { postId: string; userId?: string; userName?: string };
+  PostDetails: { postId: string; userId?: string; userName?: string; tag?: string };
   UserProfile: { userId: string; fromFollowRequest?: boolean; userName?: string };
   CreatePost: undefined;
   CreateStory: undefined;
@@ -39,7 +39,7 @@ export type ProfileStackParamList = {
   MyProfile: { editComplete?: boolean };
   EditProfile: undefined;
   Settings: undefined;
-  PostDetails: { postId: string; userId?: string; userName?: string };
+  PostDetails: { postId: string; userId?: string; userName?: string; tag?: string };
   UserProfile: { userId: string; fromFollowRequest?: boolean; userName?: string };
   CreatePost: undefined;
 };
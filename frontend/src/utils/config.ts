@@ -8,4 +8,10 @@ export const SOCKET_URL = 'http://192.168.232.181:5000';
 export const DEFAULT_AVATAR = 'https://www.gravatar.com/avatar/00000000000000000000000000000000?d=mp&f=y';
 
 // Default post image
-export const DEFAULT_POST_IMAGE = 'https://via.placeholder.com/500x300'; 
\ No newline at end of file
+export const DEFAULT_POST_IMAGE = 'https://via.placeholder.com/500x300'; 
+
+// Accent for close-friends stories: tray ring, viewer badge and share button
+export const CLOSE_FRIENDS_COLOR = '#1DB954';
+
+// How long after sending a message its sender can edit or unsend it (matches the server)
+export const MESSAGE_CHANGE_WINDOW_MINUTES = 15;